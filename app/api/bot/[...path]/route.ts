@@ -0,0 +1,89 @@
+// Forwards dashboard requests to the bot's `serve` API, so the browser never
+// talks to pump.fun or the bot directly. Only the routes the dashboard reads,
+// plus analysis, are forwarded: trading never is. BOT_API_TOKEN, the bot's
+// API_DASHBOARD_TOKEN, stays on the server and is only sent to the routes
+// that need it.
+const BOT_API_URL = process.env.BOT_API_URL ?? "http://127.0.0.1:8787";
+const BOT_API_TOKEN = process.env.BOT_API_TOKEN;
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+interface ForwardedRoute {
+  method: "GET" | "POST";
+  // Literal segments, or a pattern the segment has to match in full
+  segments: (string | RegExp)[];
+  authorized?: boolean;
+}
+
+const MINT = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+const FORWARDED_ROUTES: ForwardedRoute[] = [
+  { method: "GET", segments: ["health"] },
+  { method: "GET", segments: ["feed"] },
+  { method: "GET", segments: ["positions"] },
+  { method: "GET", segments: ["events"], authorized: true },
+  { method: "GET", segments: ["tokens", "latest"] },
+  { method: "GET", segments: ["tokens", "king"] },
+  { method: "GET", segments: ["tokens", "search"] },
+  { method: "GET", segments: ["tokens", MINT] },
+  { method: "GET", segments: ["tokens", MINT, "holders"], authorized: true },
+  { method: "GET", segments: ["tokens", MINT, "creator"] },
+  { method: "GET", segments: ["tokens", MINT, "quote"] },
+  { method: "POST", segments: ["tokens", MINT, "analyze"], authorized: true },
+];
+
+// Matched on the decoded segments, so an encoded "." or "/" can never turn
+// an allowed path into another route
+function findRoute(method: string, path: string[]): ForwardedRoute | undefined {
+  return FORWARDED_ROUTES.find(
+    (route) =>
+      route.method === method &&
+      route.segments.length === path.length &&
+      route.segments.every((segment, i) =>
+        typeof segment === "string" ? segment === path[i] : segment.test(path[i])
+      )
+  );
+}
+
+async function proxy(request: Request, { params }: RouteContext): Promise<Response> {
+  const { path } = await params;
+  const route = findRoute(request.method, path);
+  if (!route) {
+    return Response.json({ error: "Not available from the dashboard" }, { status: 404 });
+  }
+
+  const search = new URL(request.url).search;
+  const target = `${BOT_API_URL}/api/${path.join("/")}${search}`;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (route.authorized && BOT_API_TOKEN) headers.Authorization = `Bearer ${BOT_API_TOKEN}`;
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      method: request.method,
+      headers,
+      body: request.method === "POST" ? await request.text() : undefined,
+      // Ends the upstream event stream when the browser disconnects
+      signal: request.signal,
+      cache: "no-store",
+    });
+  } catch {
+    return Response.json(
+      { error: `Bot API unreachable at ${BOT_API_URL}, is \`serve\` running?` },
+      { status: 502 }
+    );
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      "Content-Type": upstream.headers.get("Content-Type") ?? "application/json",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+export { proxy as GET, proxy as POST };
@@ -0,0 +1,115 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  botFetch,
+  type ConnectionState,
+  type FeedSnapshot,
+  type NewTokenEvent,
+  type StreamEvent,
+  type TokenAnalysis,
+} from "@/lib/bot-api";
+import { describeFeedState, useBotStream } from "@/lib/use-bot-stream";
+import { LiveFeed } from "./live-feed";
+import { PositionsPanel } from "./positions-panel";
+import { TokenDetail } from "./token-detail";
+
+const MAX_LAUNCHES = 100;
+
+function mergeLaunches(newer: NewTokenEvent[], older: NewTokenEvent[]): NewTokenEvent[] {
+  const seen = new Set<string>();
+  return [...newer, ...older]
+    .filter((launch) => !seen.has(launch.mint) && seen.add(launch.mint))
+    .slice(0, MAX_LAUNCHES);
+}
+
+export function Dashboard() {
+  const [launches, setLaunches] = useState<NewTokenEvent[]>([]);
+  const [analyses, setAnalyses] = useState<Record<string, TokenAnalysis>>({});
+  const [feedState, setFeedState] = useState<ConnectionState | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  // Bumped on every fill so the positions panel refreshes
+  const [fills, setFills] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const addAnalysis = useCallback((analysis: TokenAnalysis) => {
+    setAnalyses((prev) => ({ ...prev, [analysis.token.mint]: analysis }));
+  }, []);
+
+  // Launches seen before the page opened; the stream may already have added newer ones
+  useEffect(() => {
+    botFetch<FeedSnapshot>("feed")
+      .then((snapshot) => {
+        setLaunches((prev) => mergeLaunches(prev, snapshot.launches));
+        setAnalyses((prev) => ({
+          ...Object.fromEntries(snapshot.analyses.map((a) => [a.token.mint, a])),
+          ...prev,
+        }));
+      })
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  const streamStatus = useBotStream(
+    (event: StreamEvent) => {
+      switch (event.type) {
+        case "newToken":
+          setLaunches((prev) => mergeLaunches([event.data], prev));
+          break;
+        case "analysis":
+          addAnalysis(event.data);
+          break;
+        case "state":
+          setFeedState(event.data);
+          break;
+        case "fill":
+          setFills((count) => count + 1);
+          break;
+      }
+    },
+    { events: ["newToken", "analysis", "state", "fill"] }
+  );
+
+  const online = streamStatus === "open" && feedState === "open";
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="flex items-center justify-between border-b border-border px-6 py-3">
+        <h1 className="text-lg font-semibold">pump.fun Claude Bot</h1>
+        <div className="flex items-center gap-2 text-sm text-muted">
+          <span
+            className={`h-2 w-2 rounded-full ${online ? "bg-emerald-400" : "bg-amber-400"}`}
+          />
+          {streamStatus === "error" ? "Bot API unreachable" : describeFeedState(feedState)}
+        </div>
+      </header>
+
+      {error && (
+        <div className="border-b border-red-900 bg-red-950/40 px-6 py-2 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      <main className="grid flex-1 gap-4 p-4 lg:grid-cols-[340px_1fr_380px]">
+        <LiveFeed
+          launches={launches}
+          analyses={analyses}
+          selected={selected}
+          onSelect={setSelected}
+        />
+        {selected ? (
+          <TokenDetail
+            key={selected}
+            mint={selected}
+            analysis={analyses[selected] ?? null}
+            onAnalysis={addAnalysis}
+          />
+        ) : (
+          <section className="flex items-center justify-center rounded-lg border border-border bg-surface text-sm text-muted">
+            Select a launch to see its chart, holders, creator and analysis
+          </section>
+        )}
+        <PositionsPanel refreshKey={fills} onSelect={setSelected} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { riskClass, type NewTokenEvent, type TokenAnalysis } from "@/lib/bot-api";
+
+interface LiveFeedProps {
+  launches: NewTokenEvent[];
+  analyses: Record<string, TokenAnalysis>;
+  selected: string | null;
+  onSelect: (mint: string) => void;
+}
+
+export function LiveFeed({ launches, analyses, selected, onSelect }: LiveFeedProps) {
+  return (
+    <section className="flex max-h-[calc(100vh-6rem)] flex-col rounded-lg border border-border bg-surface">
+      <h2 className="border-b border-border px-4 py-2 text-sm font-medium">
+        New launches <span className="text-muted">({launches.length})</span>
+      </h2>
+      {launches.length === 0 && (
+        <p className="px-4 py-6 text-sm text-muted">Waiting for new tokens…</p>
+      )}
+      <ul className="flex-1 overflow-y-auto">
+        {launches.map((launch) => {
+          const analysis = analyses[launch.mint];
+          return (
+            <li key={launch.mint}>
+              <button
+                onClick={() => onSelect(launch.mint)}
+                className={`flex w-full items-center justify-between gap-3 border-b border-border/60 px-4 py-2 text-left hover:bg-surface-raised ${
+                  selected === launch.mint ? "bg-surface-raised" : ""
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-medium">
+                    {launch.symbol}{" "}
+                    <span className="font-normal text-muted">{launch.name}</span>
+                  </div>
+                  <div className="text-xs text-muted">
+                    {launch.marketCapSol.toFixed(2)} SOL mcap · dev buy{" "}
+                    {launch.solAmount.toFixed(2)} SOL
+                  </div>
+                </div>
+                <RiskBadge analysis={analysis} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+function RiskBadge({ analysis }: { analysis?: TokenAnalysis }) {
+  if (!analysis) {
+    return <span className="text-xs text-muted">—</span>;
+  }
+  if (analysis.status === "failed") {
+    return <span className="text-xs text-red-400">failed</span>;
+  }
+  return (
+    <span className={`text-sm font-semibold ${riskClass(analysis.riskScore)}`}>
+      {analysis.riskScore}/10
+    </span>
+  );
+}
@@ -0,0 +1,19 @@
+import type { ReactNode } from "react";
+
+export function Panel({ title, children }: { title: ReactNode; children: ReactNode }) {
+  return (
+    <section className="rounded-lg border border-border bg-surface">
+      <h2 className="border-b border-border px-4 py-2 text-sm font-medium">{title}</h2>
+      <div className="p-4">{children}</div>
+    </section>
+  );
+}
+
+export function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted">{label}</div>
+      <div>{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { botFetch, formatPnl, formatSol, type PnlSummary } from "@/lib/bot-api";
+import { Stat } from "./panel";
+
+const REFRESH_MS = 15000;
+
+interface PositionsPanelProps {
+  // Changes whenever a fill may have moved the positions
+  refreshKey: number;
+  onSelect: (mint: string) => void;
+}
+
+function pnlClass(value: number | null): string {
+  if (value === null || value === 0) return "text-muted";
+  return value > 0 ? "text-emerald-400" : "text-red-400";
+}
+
+export function PositionsPanel({ refreshKey, onSelect }: PositionsPanelProps) {
+  const [summary, setSummary] = useState<PnlSummary | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      botFetch<PnlSummary>("positions")
+        .then((loaded) => {
+          setSummary(loaded);
+          setError(null);
+        })
+        .catch((err: Error) => setError(err.message));
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [refreshKey]);
+
+  const positions = (summary?.positions ?? []).filter(
+    (v) => showClosed || v.position.tokenAmount > 0
+  );
+
+  return (
+    <section className="flex max-h-[calc(100vh-6rem)] flex-col rounded-lg border border-border bg-surface">
+      <div className="flex items-center justify-between border-b border-border px-4 py-2">
+        <h2 className="text-sm font-medium">
+          {summary?.paper ? "Paper positions" : "Positions"}
+        </h2>
+        <label className="flex items-center gap-1 text-xs text-muted">
+          <input
+            type="checkbox"
+            checked={showClosed}
+            onChange={(e) => setShowClosed(e.target.checked)}
+          />
+          closed
+        </label>
+      </div>
+
+      {error && <p className="px-4 py-2 text-sm text-red-400">{error}</p>}
+
+      {summary && (
+        <div className="grid grid-cols-3 gap-2 border-b border-border px-4 py-3 text-sm">
+          <Stat label="Realized" value={formatPnl(summary.realizedPnlSol)} />
+          <Stat label="Unrealized" value={formatPnl(summary.unrealizedPnlSol)} />
+          <Stat
+            label="Net"
+            value={formatPnl(summary.realizedPnlSol + summary.unrealizedPnlSol)}
+          />
+          {summary.unpriced > 0 && (
+            <p className="col-span-3 text-xs text-muted">
+              {summary.unpriced} open position(s) could not be priced
+            </p>
+          )}
+        </div>
+      )}
+
+      {summary && positions.length === 0 && (
+        <p className="px-4 py-6 text-sm text-muted">No positions</p>
+      )}
+      <ul className="flex-1 overflow-y-auto">
+        {positions.map(({ position, priceSol, marketValueSol, unrealizedPnlSol }) => (
+          <li key={position.mint}>
+            <button
+              onClick={() => onSelect(position.mint)}
+              className="w-full border-b border-border/60 px-4 py-2 text-left text-sm hover:bg-surface-raised"
+            >
+              <div className="flex justify-between">
+                <span className="font-medium">{position.symbol}</span>
+                <span className={pnlClass(unrealizedPnlSol)}>{formatPnl(unrealizedPnlSol)}</span>
+              </div>
+              <div className="flex justify-between text-xs text-muted">
+                <span>
+                  {position.tokenAmount.toFixed(0)} tokens · cost {formatSol(position.costBasisSol)}
+                </span>
+                <span>value {formatSol(marketValueSol)}</span>
+              </div>
+              <div className="flex justify-between text-xs text-muted">
+                <span>{priceSol === null ? "" : `${priceSol.toExponential(3)} SOL/token`}</span>
+                <span className={pnlClass(position.realizedPnlSol)}>
+                  realized {formatPnl(position.realizedPnlSol)}
+                </span>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
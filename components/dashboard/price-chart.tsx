@@ -0,0 +1,58 @@
+"use client";
+
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+export interface PricePoint {
+  time: number;
+  priceSol: number;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export function PriceChart({ points }: { points: PricePoint[] }) {
+  if (points.length < 2) {
+    return (
+      <div className="flex h-56 items-center justify-center text-sm text-muted">
+        Waiting for trades to chart…
+      </div>
+    );
+  }
+  return (
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={formatTime}
+            stroke="#8a90a0"
+            fontSize={11}
+          />
+          <YAxis
+            dataKey="priceSol"
+            domain={["auto", "auto"]}
+            tickFormatter={(value: number) => value.toExponential(2)}
+            stroke="#8a90a0"
+            fontSize={11}
+            width={70}
+          />
+          <Tooltip
+            labelFormatter={(time) => formatTime(Number(time))}
+            formatter={(value) => [`${Number(value).toExponential(4)} SOL`, "Price"]}
+            contentStyle={{ background: "#1a1d25", border: "1px solid #2a2e38" }}
+          />
+          <Line
+            type="stepAfter"
+            dataKey="priceSol"
+            stroke="#5eead4"
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  analyzeToken,
+  botFetch,
+  riskClass,
+  shortAddress,
+  tokenPriceSol,
+  tradePriceSol,
+  type CreatorProfile,
+  type HolderDistribution,
+  type PumpFunToken,
+  type TokenAnalysis,
+  type TradeEvent,
+} from "@/lib/bot-api";
+import { useBotStream } from "@/lib/use-bot-stream";
+import { Panel, Stat } from "./panel";
+import { PriceChart, type PricePoint } from "./price-chart";
+
+const MAX_POINTS = 500;
+const RECENT_TRADES = 12;
+
+interface TokenDetailProps {
+  mint: string;
+  analysis: TokenAnalysis | null;
+  onAnalysis: (analysis: TokenAnalysis) => void;
+}
+
+// Keyed by mint in the dashboard, so state starts fresh for every token
+export function TokenDetail({ mint, analysis, onAnalysis }: TokenDetailProps) {
+  const [token, setToken] = useState<PumpFunToken | null>(null);
+  const [holders, setHolders] = useState<HolderDistribution | null>(null);
+  const [creator, setCreator] = useState<CreatorProfile | null>(null);
+  const [points, setPoints] = useState<PricePoint[]>([]);
+  const [trades, setTrades] = useState<TradeEvent[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [analyzing, setAnalyzing] = useState(false);
+
+  useEffect(() => {
+    const fail = (section: string) => (err: Error) =>
+      setErrors((prev) => ({ ...prev, [section]: err.message }));
+
+    botFetch<PumpFunToken>(`tokens/${mint}`)
+      .then((loaded) => {
+        setToken(loaded);
+        setPoints((prev) => [{ time: Date.now(), priceSol: tokenPriceSol(loaded) }, ...prev]);
+      })
+      .catch(fail("token"));
+    botFetch<HolderDistribution>(`tokens/${mint}/holders`).then(setHolders).catch(fail("holders"));
+    botFetch<CreatorProfile>(`tokens/${mint}/creator`).then(setCreator).catch(fail("creator"));
+  }, [mint]);
+
+  useBotStream(
+    (event) => {
+      if (event.type !== "trade") return;
+      const trade = event.data;
+      setPoints((prev) =>
+        [...prev, { time: Date.now(), priceSol: tradePriceSol(trade) }].slice(-MAX_POINTS)
+      );
+      setTrades((prev) => [trade, ...prev].slice(0, RECENT_TRADES));
+    },
+    { mints: [mint], events: ["trade"] }
+  );
+
+  const runAnalysis = () => {
+    setAnalyzing(true);
+    analyzeToken(mint)
+      .then(onAnalysis)
+      .catch((err: Error) => setErrors((prev) => ({ ...prev, analysis: err.message })))
+      .finally(() => setAnalyzing(false));
+  };
+
+  if (errors.token) {
+    return (
+      <Panel title="Token">
+        <p className="text-sm text-red-400">{errors.token}</p>
+      </Panel>
+    );
+  }
+  if (!token) {
+    return (
+      <Panel title="Token">
+        <p className="text-sm text-muted">Loading…</p>
+      </Panel>
+    );
+  }
+
+  const lastPrice = points.length > 0 ? points[points.length - 1].priceSol : tokenPriceSol(token);
+
+  return (
+    <div className="flex max-h-[calc(100vh-6rem)] flex-col gap-4 overflow-y-auto">
+      <Panel
+        title={
+          <>
+            {token.name} <span className="text-muted">({token.symbol})</span>
+          </>
+        }
+      >
+        <div className="mb-3 grid grid-cols-2 gap-2 text-sm md:grid-cols-4">
+          <Stat label="Price" value={`${lastPrice.toExponential(4)} SOL`} />
+          <Stat label="Market cap" value={`$${(token.usd_market_cap || 0).toFixed(0)}`} />
+          <Stat label="Graduated" value={token.complete ? "Yes" : "No"} />
+          <Stat label="Replies" value={String(token.reply_count || 0)} />
+        </div>
+        <PriceChart points={points} />
+        <div className="mt-2 text-xs text-muted">
+          {token.mint} · created {new Date(token.created_timestamp).toLocaleString()}
+        </div>
+      </Panel>
+
+      <div className="grid gap-4 xl:grid-cols-2">
+        <Panel title="Claude analysis">
+          {analysis && analysis.status === "ok" ? (
+            <AnalysisView analysis={analysis} />
+          ) : (
+            <div className="text-sm">
+              {analysis?.status === "failed" && (
+                <p className="mb-2 text-red-400">Last analysis failed: {analysis.error}</p>
+              )}
+              {errors.analysis && <p className="mb-2 text-red-400">{errors.analysis}</p>}
+              <button
+                onClick={runAnalysis}
+                disabled={analyzing}
+                className="rounded border border-border px-3 py-1 hover:bg-surface-raised disabled:opacity-50"
+              >
+                {analyzing ? "Analyzing…" : "Analyze with Claude"}
+              </button>
+            </div>
+          )}
+        </Panel>
+
+        <Panel title="Recent trades">
+          {trades.length === 0 ? (
+            <p className="text-sm text-muted">No trades since the token was opened</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {trades.map((trade) => (
+                <li key={trade.signature} className="flex justify-between">
+                  <span className={trade.txType === "buy" ? "text-emerald-400" : "text-red-400"}>
+                    {trade.txType} {trade.solAmount.toFixed(3)} SOL
+                  </span>
+                  <span className="text-muted">{shortAddress(trade.traderPublicKey)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Panel>
+
+        <Panel title="Holders">
+          {holders ? (
+            <HoldersView holders={holders} />
+          ) : (
+            <p className="text-sm text-muted">{errors.holders ?? "Loading…"}</p>
+          )}
+        </Panel>
+
+        <Panel title="Creator">
+          {creator ? (
+            <CreatorView creator={creator} />
+          ) : (
+            <p className="text-sm text-muted">{errors.creator ?? "Loading…"}</p>
+          )}
+        </Panel>
+      </div>
+    </div>
+  );
+}
+
+function AnalysisView({ analysis }: { analysis: TokenAnalysis }) {
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex gap-4">
+        <span>
+          Risk{" "}
+          <span className={`font-semibold ${riskClass(analysis.riskScore)}`}>
+            {analysis.riskScore}/10
+          </span>
+        </span>
+        <span className="text-muted">{analysis.sentiment}</span>
+        {analysis.cachedAt && (
+          <span className="text-muted">
+            cached {new Date(analysis.cachedAt).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+      <p>{analysis.summary}</p>
+      {analysis.redFlags.length > 0 && (
+        <ul className="list-inside list-disc text-red-400">
+          {analysis.redFlags.map((flag) => (
+            <li key={flag}>{flag}</li>
+          ))}
+        </ul>
+      )}
+      {analysis.greenFlags.length > 0 && (
+        <ul className="list-inside list-disc text-emerald-400">
+          {analysis.greenFlags.map((flag) => (
+            <li key={flag}>{flag}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-amber-300">{analysis.recommendation}</p>
+    </div>
+  );
+}
+
+function HoldersView({ holders }: { holders: HolderDistribution }) {
+  return (
+    <div className="text-sm">
+      <div className="mb-2 grid grid-cols-2 gap-2">
+        <Stat label="Top 10" value={`${holders.top10Pct.toFixed(1)}%`} />
+        <Stat label="Creator" value={`${holders.creatorPct.toFixed(1)}%`} />
+        <Stat label="Bonding curve" value={`${holders.bondingCurvePct.toFixed(1)}%`} />
+        <Stat label="Fresh wallets" value={String(holders.freshWallets)} />
+      </div>
+      <ul className="space-y-1">
+        {holders.topHolders.map((holder) => (
+          <li key={holder.tokenAccount} className="flex justify-between">
+            <span>
+              {shortAddress(holder.owner)}
+              {holder.isCreator && <span className="ml-1 text-amber-400">creator</span>}
+              {holder.freshWallet && <span className="ml-1 text-muted">fresh</span>}
+            </span>
+            <span>{holder.pct.toFixed(2)}%</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function CreatorView({ creator }: { creator: CreatorProfile }) {
+  const minutes = (value: number | null) => (value === null ? "n/a" : `${value.toFixed(0)}m`);
+  const usd = (value: number | null) => (value === null ? "n/a" : `$${value.toFixed(0)}`);
+  return (
+    <div className="grid grid-cols-2 gap-2 text-sm">
+      <Stat
+        label="Prior launches"
+        value={`${creator.priorLaunches}${creator.truncated ? "+" : ""}`}
+      />
+      <Stat label="Graduated" value={String(creator.graduated)} />
+      <Stat label="Median mcap" value={usd(creator.medianMarketCapUsd)} />
+      <Stat label="Best mcap" value={usd(creator.bestMarketCapUsd)} />
+      <Stat label="Between launches" value={minutes(creator.medianMinutesBetweenLaunches)} />
+      <Stat label="Median lifetime" value={minutes(creator.medianActiveMinutes)} />
+      <div className="col-span-2 text-xs text-muted">{shortAddress(creator.creator)}</div>
+    </div>
+  );
+}
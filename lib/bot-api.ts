@@ -0,0 +1,77 @@
+import type {
+  ConnectionState,
+  CreatorProfile,
+  FeedSnapshot,
+  HolderDistribution,
+  NewTokenEvent,
+  PnlSummary,
+  PumpFunToken,
+  StreamEvent,
+  TokenAnalysis,
+  TradeEvent,
+} from "@/pump-fun-claude-bot/src/types";
+
+export type {
+  ConnectionState,
+  CreatorProfile,
+  FeedSnapshot,
+  HolderDistribution,
+  NewTokenEvent,
+  PnlSummary,
+  PumpFunToken,
+  StreamEvent,
+  TokenAnalysis,
+  TradeEvent,
+};
+
+// Everything goes through the app's proxy route to the bot's `serve` API
+export const BOT_API_BASE = "/api/bot";
+
+export async function botFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${BOT_API_BASE}/${path}`, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed with ${response.status}`);
+  }
+  return body as T;
+}
+
+export function analyzeToken(mint: string): Promise<TokenAnalysis> {
+  return botFetch<TokenAnalysis>(`tokens/${mint}/analyze`, {
+    method: "POST",
+    body: "{}",
+  });
+}
+
+// SOL per whole token from virtual reserves (lamports and 6-decimal base units)
+export function tokenPriceSol(token: PumpFunToken): number {
+  return token.virtual_token_reserves > 0
+    ? token.virtual_sol_reserves / 1e9 / (token.virtual_token_reserves / 1e6)
+    : 0;
+}
+
+// The feed reports reserves in whole SOL and whole tokens
+export function tradePriceSol(trade: TradeEvent): number {
+  return trade.vTokensInBondingCurve > 0
+    ? trade.vSolInBondingCurve / trade.vTokensInBondingCurve
+    : 0;
+}
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+export function formatSol(value: number | null, digits = 4): string {
+  return value === null ? "n/a" : `${value.toFixed(digits)} SOL`;
+}
+
+export function formatPnl(value: number | null): string {
+  if (value === null) return "n/a";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(4)} SOL`;
+}
+
+export function riskClass(score: number): string {
+  if (score <= 3) return "text-emerald-400";
+  if (score <= 6) return "text-amber-400";
+  return "text-red-400";
+}
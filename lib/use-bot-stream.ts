@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BOT_API_BASE, type ConnectionState, type StreamEvent } from "@/lib/bot-api";
+
+const EVENT_TYPES: StreamEvent["type"][] = ["newToken", "trade", "analysis", "fill", "state"];
+
+export type StreamStatus = "connecting" | "open" | "error";
+
+export interface BotStreamOptions {
+  // Mints to receive trade events for
+  mints?: string[];
+  events?: StreamEvent["type"][];
+  enabled?: boolean;
+}
+
+// Subscribes to the bot's event stream. EventSource reconnects by itself, so
+// the returned status only reflects the browser's side of the connection;
+// the bot's own pump.fun connection arrives as "state" events.
+export function useBotStream(
+  onEvent: (event: StreamEvent) => void,
+  { mints = [], events = [], enabled = true }: BotStreamOptions = {}
+): StreamStatus {
+  const [status, setStatus] = useState<StreamStatus>("connecting");
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+
+  const mintList = mints.join(",");
+  const eventList = events.join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+    const query = new URLSearchParams();
+    if (mintList) query.set("mints", mintList);
+    if (eventList) query.set("events", eventList);
+    const source = new EventSource(`${BOT_API_BASE}/events?${query}`);
+
+    setStatus("connecting");
+    source.onopen = () => setStatus("open");
+    source.onerror = () => setStatus("error");
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, (message) => {
+        const data = JSON.parse((message as MessageEvent<string>).data);
+        handler.current({ type, data } as StreamEvent);
+      });
+    }
+    return () => source.close();
+  }, [mintList, eventList, enabled]);
+
+  return status;
+}
+
+export function describeFeedState(state: ConnectionState | null): string {
+  switch (state) {
+    case "open":
+      return "pump.fun feed connected";
+    case "connecting":
+      return "Connecting to pump.fun";
+    case "reconnecting":
+      return "pump.fun feed reconnecting";
+    case "stale":
+      return "pump.fun feed went quiet";
+    case "closed":
+      return "pump.fun feed closed";
+    default:
+      return "Waiting for the bot";
+  }
+}
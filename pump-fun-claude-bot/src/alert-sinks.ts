@@ -0,0 +1,139 @@
+import { execFile } from "child_process";
+import type { Alert, AlertSinkConfig } from "./types.js";
+
+const SEND_TIMEOUT_MS = 10000;
+// Platform limits on message length
+const DISCORD_MAX_LENGTH = 2000;
+const TELEGRAM_MAX_LENGTH = 4096;
+
+export interface AlertSink {
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Posts the whole alert as JSON, for anything that can take a webhook
+export class WebhookSink implements AlertSink {
+  readonly name: string;
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(name: string, url: string, headers: Record<string, string> = {}) {
+    this.name = name;
+    this.url = url;
+    this.headers = headers;
+  }
+
+  send(alert: Alert): Promise<void> {
+    return postJson(this.url, alert, this.headers);
+  }
+}
+
+export class DiscordSink implements AlertSink {
+  readonly name: string;
+  private url: string;
+
+  constructor(name: string, url: string) {
+    this.name = name;
+    this.url = url;
+  }
+
+  send(alert: Alert): Promise<void> {
+    return postJson(this.url, { content: truncate(alert.message, DISCORD_MAX_LENGTH) });
+  }
+}
+
+export class TelegramSink implements AlertSink {
+  readonly name: string;
+  private botToken: string;
+  private chatId: string;
+
+  constructor(name: string, botToken: string, chatId: string) {
+    this.name = name;
+    this.botToken = botToken;
+    this.chatId = chatId;
+  }
+
+  send(alert: Alert): Promise<void> {
+    return postJson(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: truncate(alert.message, TELEGRAM_MAX_LENGTH),
+      disable_web_page_preview: true,
+    });
+  }
+}
+
+// Runs a local program, e.g. notify-send for desktop notifications. Arguments
+// are templates like messages, and no shell is involved, so alert text cannot
+// inject commands. The alert is also passed as ALERT_* environment variables.
+export class CommandSink implements AlertSink {
+  readonly name: string;
+  private command: string;
+  private args: string[];
+  private render: (template: string, alert: Alert) => string;
+
+  constructor(
+    name: string,
+    command: string,
+    args: string[],
+    render: (template: string, alert: Alert) => string
+  ) {
+    this.name = name;
+    this.command = command;
+    this.args = args;
+    this.render = render;
+  }
+
+  send(alert: Alert): Promise<void> {
+    const args = this.args.map((arg) => this.render(arg, alert));
+    const env = {
+      ...process.env,
+      ALERT_EVENT: alert.event,
+      ALERT_MESSAGE: alert.message,
+      ALERT_MINT: alert.mint,
+      ALERT_VARS: JSON.stringify(alert.vars),
+    };
+    return new Promise((resolve, reject) => {
+      execFile(this.command, args, { env, timeout: SEND_TIMEOUT_MS }, (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+}
+
+export function createSink(
+  config: AlertSinkConfig,
+  render: (template: string, alert: Alert) => string
+): AlertSink {
+  const name = config.name ?? config.type;
+  switch (config.type) {
+    case "webhook":
+      return new WebhookSink(name, config.url, config.headers);
+    case "discord":
+      return new DiscordSink(name, config.url);
+    case "telegram":
+      return new TelegramSink(name, config.botToken, String(config.chatId));
+    case "command":
+      return new CommandSink(name, config.command, config.args ?? [], render);
+  }
+}
@@ -0,0 +1,342 @@
+import { z } from "zod";
+import { createSink, type AlertSink } from "./alert-sinks.js";
+import { readJsonFile } from "./storage.js";
+import type {
+  Alert,
+  AlertConfig,
+  AlertEvent,
+  AlertRule,
+  CreatorProfile,
+  ExitTrigger,
+  NewTokenEvent,
+  TokenAnalysis,
+  TradeFill,
+  WatchAlert,
+} from "./types.js";
+
+const RATE_WINDOW_MS = 60000;
+
+export const defaultAlertTemplates: Record<AlertEvent, string> = {
+  newToken:
+    "🆕 {{symbol}} ({{name}}) launched at {{marketCapSol}} SOL market cap, dev buy {{initialBuySol}} SOL\n{{url}}",
+  analysis: "🟢 {{symbol}} risk {{riskScore}}/10, {{sentiment}}: {{summary}}\n{{url}}",
+  fill: "✅ {{side}} {{tokenAmount}} {{symbol}} for {{solAmount}} SOL\n{{txUrl}}",
+  exit: "🚪 {{rule}} {{symbol}}: {{reason}}, {{outcome}}\n{{url}}",
+  watch: "👀 {{symbol}}: {{detail}}\n{{url}}",
+};
+
+const nameSchema = z.string().min(1).optional();
+
+const sinkSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("webhook"),
+    name: nameSchema,
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+  }),
+  z.object({ type: z.literal("discord"), name: nameSchema, url: z.string().url() }),
+  z.object({
+    type: z.literal("telegram"),
+    name: nameSchema,
+    botToken: z.string().min(1),
+    chatId: z.union([z.string().min(1), z.number()]),
+  }),
+  z.object({
+    type: z.literal("command"),
+    name: nameSchema,
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+  }),
+]);
+
+const ruleSchema = z.object({
+  event: z.enum(["newToken", "analysis", "fill", "exit", "watch"]),
+  template: z.string().min(1).optional(),
+  sinks: z.array(z.string()).min(1).optional(),
+  maxRiskScore: z.number().min(1).max(10).optional(),
+  sides: z.array(z.enum(["buy", "sell"])).optional(),
+  exitRules: z
+    .array(z.enum(["stop-loss", "take-profit", "trailing-stop", "max-hold"]))
+    .optional(),
+  watchKinds: z
+    .array(z.enum(["whaleBuy", "priceMove", "creatorSell", "graduation"]))
+    .optional(),
+});
+
+const alertConfigSchema = z.object({
+  sinks: z.array(sinkSchema).min(1),
+  rules: z.array(ruleSchema).min(1),
+  maxPerMinute: z.number().int().positive().default(10),
+  dedupMinutes: z.number().min(0).default(30),
+});
+
+// Replaces ${NAME} in every string with the environment variable, so tokens
+// and webhook URLs can stay out of the file
+function expandEnv(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => process.env[name] ?? "");
+  }
+  if (Array.isArray(value)) return value.map(expandEnv);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, expandEnv(v)]));
+  }
+  return value;
+}
+
+export function loadAlertConfig(filePath: string): AlertConfig {
+  const raw = readJsonFile<unknown>(filePath, null);
+  if (raw === null) {
+    throw new Error(`Alerts file not found: ${filePath}`);
+  }
+  const parsed = alertConfigSchema.safeParse(expandEnv(raw));
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid alerts file ${filePath}:\n  ${problems.join("\n  ")}`);
+  }
+
+  const alertConfig: AlertConfig = parsed.data;
+  const names = alertConfig.sinks.map((sink) => sink.name ?? sink.type);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`Invalid alerts file ${filePath}: two sinks are named "${duplicate}"`);
+  }
+  alertConfig.rules.forEach((rule, i) => {
+    const unknown = rule.sinks?.find((name) => !names.includes(name));
+    if (unknown) {
+      throw new Error(`Invalid alerts file ${filePath}: rules.${i} sends to unknown sink "${unknown}"`);
+    }
+  });
+  return alertConfig;
+}
+
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => vars[name] ?? "");
+}
+
+function tokenUrl(mint: string): string {
+  return `https://pump.fun/coin/${mint}`;
+}
+
+interface SinkState {
+  sink: AlertSink;
+  sentAt: number[];
+  dropped: number;
+}
+
+export interface AlertManagerOptions {
+  // Replaces the sinks built from the config
+  sinks?: AlertSink[];
+  onError?: (sink: string, error: Error) => void;
+}
+
+// Turns bot events into alerts. Rules pick the events, dedup stops the same
+// alert repeating within dedupMinutes, and each sink is capped at
+// maxPerMinute. Alerts over the cap are dropped rather than queued, so a
+// burst of launches cannot back up; the next alert that gets through says
+// how many were dropped. Sends never block the caller.
+export class AlertManager {
+  private config: AlertConfig;
+  private sinks: Map<string, SinkState> = new Map();
+  private lastSent: Map<string, number> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+  private onError: (sink: string, error: Error) => void;
+
+  constructor(alertConfig: AlertConfig, options: AlertManagerOptions = {}) {
+    this.config = alertConfig;
+    const sinks =
+      options.sinks ??
+      alertConfig.sinks.map((sinkConfig) =>
+        createSink(sinkConfig, (template, alert) =>
+          renderTemplate(template, { ...alert.vars, message: alert.message })
+        )
+      );
+    sinks.forEach((sink) => this.sinks.set(sink.name, { sink, sentAt: [], dropped: 0 }));
+    this.onError =
+      options.onError ??
+      ((sink, error) => console.error(`Alert to ${sink} failed: ${error.message}`));
+  }
+
+  get sinkNames(): string[] {
+    return [...this.sinks.keys()];
+  }
+
+  // A launch that passed the command's filters
+  newToken(event: NewTokenEvent, creatorProfile?: CreatorProfile): void {
+    this.dispatch("newToken", `newToken:${event.mint}`, event.mint, () => true, {
+      symbol: event.symbol,
+      name: event.name,
+      mint: event.mint,
+      creator: event.traderPublicKey,
+      marketCapSol: event.marketCapSol.toFixed(2),
+      initialBuy: event.initialBuy.toFixed(2),
+      initialBuySol: event.solAmount.toFixed(4),
+      creatorLaunches: creatorProfile ? String(creatorProfile.priorLaunches) : "",
+      url: tokenUrl(event.mint),
+    });
+  }
+
+  analysis(analysis: TokenAnalysis): void {
+    if (analysis.status !== "ok") return;
+    const token = analysis.token;
+    this.dispatch(
+      "analysis",
+      `analysis:${token.mint}`,
+      token.mint,
+      (rule) => analysis.riskScore <= (rule.maxRiskScore ?? 3),
+      {
+        symbol: token.symbol,
+        name: token.name,
+        mint: token.mint,
+        riskScore: String(analysis.riskScore),
+        sentiment: analysis.sentiment,
+        summary: analysis.summary,
+        recommendation: analysis.recommendation,
+        redFlags: analysis.redFlags.join(", "),
+        greenFlags: analysis.greenFlags.join(", "),
+        marketCapUsd: (token.usd_market_cap || 0).toFixed(0),
+        url: tokenUrl(token.mint),
+      }
+    );
+  }
+
+  fill(fill: TradeFill): void {
+    const { result } = fill;
+    const solAmount = fill.side === "buy" ? result.amountIn : result.amountOut;
+    const tokenAmount = fill.side === "buy" ? result.amountOut : result.amountIn;
+    const signature = result.signature ?? "";
+    this.dispatch(
+      "fill",
+      `fill:${signature || `${fill.mint}:${fill.timestamp}`}`,
+      fill.mint,
+      (rule) => (rule.sides ?? ["buy", "sell"]).includes(fill.side),
+      {
+        side: fill.side.toUpperCase(),
+        symbol: fill.symbol,
+        mint: fill.mint,
+        solAmount: solAmount !== undefined ? solAmount.toFixed(4) : "?",
+        tokenAmount: tokenAmount !== undefined ? tokenAmount.toFixed(2) : "?",
+        signature,
+        txUrl: signature && !signature.startsWith("paper-") ? `https://solscan.io/tx/${signature}` : "",
+        url: tokenUrl(fill.mint),
+      }
+    );
+  }
+
+  // Retries of a failed sell share a key, but every sale and ladder step is
+  // reported, including a sale that follows a failure
+  exit(trigger: ExitTrigger): void {
+    const outcome = trigger.success ? `sold:${trigger.signature ?? trigger.timestamp}` : "failed";
+    this.dispatch(
+      "exit",
+      `exit:${trigger.mint}:${trigger.rule}:${trigger.ladderStep ?? ""}:${outcome}`,
+      trigger.mint,
+      (rule) => (rule.exitRules ?? ["stop-loss"]).includes(trigger.rule),
+      {
+        rule: trigger.rule.toUpperCase(),
+        symbol: trigger.symbol,
+        mint: trigger.mint,
+        reason: trigger.reason,
+        outcome: trigger.success
+          ? `sold ${trigger.tokenAmount.toFixed(2)} tokens for ~${trigger.solReceived?.toFixed(4) ?? "?"} SOL`
+          : `sell failed: ${trigger.error}`,
+        priceSol: trigger.priceSol.toExponential(4),
+        entryPriceSol: trigger.entryPriceSol.toExponential(4),
+        signature: trigger.signature ?? "",
+        url: tokenUrl(trigger.mint),
+      }
+    );
+  }
+
+  // A watchlist alert from `watch run`
+  watch(alert: WatchAlert): void {
+    const { trade } = alert;
+    this.dispatch(
+      "watch",
+      `watch:${alert.kind}:${trade.signature}`,
+      alert.mint,
+      (rule) => !rule.watchKinds || rule.watchKinds.includes(alert.kind),
+      {
+        kind: alert.kind,
+        symbol: alert.symbol,
+        mint: alert.mint,
+        detail: alert.message,
+        priceSol: alert.priceSol.toExponential(4),
+        side: trade.txType.toUpperCase(),
+        solAmount: trade.solAmount.toFixed(4),
+        trader: trade.traderPublicKey,
+        signature: trade.signature,
+        url: tokenUrl(alert.mint),
+      }
+    );
+  }
+
+  // Waits for alerts already being sent, e.g. before the process exits
+  async flush(): Promise<void> {
+    await Promise.allSettled([...this.pending]);
+  }
+
+  private dispatch(
+    event: AlertEvent,
+    dedupKey: string,
+    mint: string,
+    matches: (rule: AlertRule) => boolean,
+    vars: Record<string, string>
+  ): void {
+    const rules = this.config.rules.filter((rule) => rule.event === event && matches(rule));
+    if (rules.length === 0) return;
+
+    const now = Date.now();
+    const dedupMs = this.config.dedupMinutes * 60000;
+    const last = this.lastSent.get(dedupKey);
+    if (last !== undefined && now - last < dedupMs) return;
+    // Deleting first keeps the map in send order for pruning
+    this.lastSent.delete(dedupKey);
+    this.lastSent.set(dedupKey, now);
+    this.pruneDedup(now, dedupMs);
+
+    // A sink named by several matching rules gets the first rule's message
+    const sent = new Set<string>();
+    for (const rule of rules) {
+      const message = renderTemplate(rule.template ?? defaultAlertTemplates[event], vars).trim();
+      for (const name of rule.sinks ?? this.sinkNames) {
+        const state = this.sinks.get(name);
+        if (!state || sent.has(name)) continue;
+        sent.add(name);
+        this.send(state, { event, mint, message, vars, timestamp: now });
+      }
+    }
+  }
+
+  private send(state: SinkState, alert: Alert): void {
+    const now = alert.timestamp;
+    state.sentAt = state.sentAt.filter((t) => now - t < RATE_WINDOW_MS);
+    if (state.sentAt.length >= this.config.maxPerMinute) {
+      state.dropped++;
+      return;
+    }
+    state.sentAt.push(now);
+
+    let message = alert.message;
+    if (state.dropped > 0) {
+      message += `\n(${state.dropped} alert${state.dropped === 1 ? "" : "s"} dropped by the rate limit)`;
+      state.dropped = 0;
+    }
+
+    const sending = state.sink
+      .send({ ...alert, message })
+      .catch((error) =>
+        this.onError(state.sink.name, error instanceof Error ? error : new Error(String(error)))
+      )
+      .finally(() => this.pending.delete(sending));
+    this.pending.add(sending);
+  }
+
+  private pruneDedup(now: number, dedupMs: number): void {
+    for (const [key, sentAt] of this.lastSent) {
+      if (now - sentAt < dedupMs) break;
+      this.lastSent.delete(key);
+    }
+  }
+}
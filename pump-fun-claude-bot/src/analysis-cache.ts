@@ -0,0 +1,70 @@
+import { config } from "./config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { PumpFunToken, TokenAnalysis } from "./types.js";
+
+interface CacheEntry {
+  fingerprint: string;
+  marketCapSol: number;
+  cachedAt: number;
+  analysis: Omit<TokenAnalysis, "token">;
+}
+
+interface CacheFile {
+  entries: Record<string, CacheEntry>;
+}
+
+export class AnalysisCache {
+  private filePath: string;
+
+  constructor(filePath: string = dataPath("analysis-cache.json")) {
+    this.filePath = filePath;
+  }
+
+  // An entry is reused only while the input fingerprint matches, the TTL has
+  // not passed and the market cap has stayed within the configured band.
+  get(token: PumpFunToken, fingerprint: string): TokenAnalysis | null {
+    const entry = this.load().entries[token.mint];
+    if (!entry || entry.fingerprint !== fingerprint) return null;
+
+    const ageMinutes = (Date.now() - entry.cachedAt) / 60000;
+    if (ageMinutes > config.analysisCacheTtlMinutes) return null;
+
+    const marketCap = token.market_cap || 0;
+    if (entry.marketCapSol > 0) {
+      const movePct = (Math.abs(marketCap - entry.marketCapSol) / entry.marketCapSol) * 100;
+      if (movePct > config.analysisCacheMaxMovePct) return null;
+    } else if (marketCap > 0) {
+      return null;
+    }
+
+    return { ...entry.analysis, token, cachedAt: entry.cachedAt };
+  }
+
+  set(token: PumpFunToken, fingerprint: string, analysis: TokenAnalysis): void {
+    if (analysis.status !== "ok") return;
+
+    const { token: _token, cachedAt: _cachedAt, ...stored } = analysis;
+    const file = this.load();
+    file.entries[token.mint] = {
+      fingerprint,
+      marketCapSol: token.market_cap || 0,
+      cachedAt: Date.now(),
+      analysis: stored,
+    };
+    this.prune(file);
+    writeJsonFile(this.filePath, file);
+  }
+
+  private prune(file: CacheFile): void {
+    const cutoff = Date.now() - config.analysisCacheTtlMinutes * 60000;
+    for (const [mint, entry] of Object.entries(file.entries)) {
+      if (entry.cachedAt < cutoff) {
+        delete file.entries[mint];
+      }
+    }
+  }
+
+  private load(): CacheFile {
+    return readJsonFile<CacheFile>(this.filePath, { entries: {} });
+  }
+}
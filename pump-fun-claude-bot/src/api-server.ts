@@ -0,0 +1,625 @@
+import * as http from "http";
+import { timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { config } from "./config.js";
+import {
+  curveFromToken,
+  DEFAULT_FEE_BPS,
+  fromBaseUnits,
+  graduationProgressPct,
+  quoteBuy,
+  quoteSell,
+  spotPriceSol,
+  toBaseUnits,
+  TOKEN_DECIMALS,
+  type BuyQuote,
+  type SellQuote,
+} from "./bonding-curve.js";
+import { CreatorProfiler } from "./creator-profile.js";
+import { HolderAnalyzer } from "./holder-distribution.js";
+import { curveFromState } from "./pump-accounts.js";
+import { poolSpotPriceSol, quotePoolBuy, quotePoolSell } from "./pump-swap.js";
+import { parseSellAmount } from "./solana-trader.js";
+import type { ClaudeAnalyzer } from "./claude-analyzer.js";
+import type { PumpFunAPI } from "./pumpfun-api.js";
+import type { SolanaTrader } from "./solana-trader.js";
+import type { PumpFunWebSocket } from "./websocket-monitor.js";
+import type {
+  FeedSnapshot,
+  NewTokenEvent,
+  PnlSummary,
+  PumpFunToken,
+  StreamEvent,
+  TokenAnalysis,
+} from "./types.js";
+
+const MAX_BODY_BYTES = 64 * 1024;
+// Comment lines keep idle streams from being closed by proxies
+const STREAM_KEEPALIVE_MS = 15000;
+const MAX_STREAM_MINTS = 50;
+// Launches and analyses kept for /api/feed
+const RECENT_LAUNCHES = 100;
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+const analyzeRequestSchema = z.object({
+  question: z.string().min(1).optional(),
+});
+
+const tradeRequestSchema = z.object({
+  side: z.enum(["buy", "sell"]),
+  mint: z.string().min(32).max(44),
+  // SOL to spend on a buy; tokens, "50%", "all" or "0.5sol" on a sell
+  amount: z.union([z.number().positive(), z.string().min(1)]),
+  dryRun: z.boolean().optional(),
+});
+
+export interface ApiServerOptions {
+  host?: string;
+  port?: number;
+  // Bearer token for the trade endpoint; without one trading is refused
+  authToken?: string;
+  // Bearer token for the dashboard, accepted for analysis but never trading
+  dashboardToken?: string;
+  // Analyze every new token and broadcast the verdicts
+  autoAnalyze?: boolean;
+  maxConcurrentAnalyses?: number;
+  // Called with every analysis, requested or automatic
+  onAnalysis?: (analysis: TokenAnalysis) => void;
+}
+
+interface StreamClient {
+  res: http.ServerResponse;
+  // Event types the client asked for, null for all of them
+  events: Set<StreamEvent["type"]> | null;
+  unsubscribes: (() => void)[];
+}
+
+type RouteHandler = (
+  params: Record<string, string>,
+  query: URLSearchParams,
+  req: http.IncomingMessage
+) => Promise<unknown>;
+
+interface Route {
+  method: "GET" | "POST";
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Exposes lookups, analysis, quotes and trading over HTTP, and re-broadcasts
+// the feed as Server-Sent Events. Every stream client shares the one feed
+// connection: trade subscriptions are reference counted by the feed itself,
+// so a mint stays subscribed while any client is watching it.
+export class ApiServer {
+  private feed: PumpFunWebSocket;
+  private api: PumpFunAPI;
+  private analyzer: ClaudeAnalyzer | null;
+  private trader: SolanaTrader;
+  private profiler: CreatorProfiler;
+  private holderAnalyzer: HolderAnalyzer;
+  private server: http.Server;
+  private routes: Route[] = [];
+  private clients: Set<StreamClient> = new Set();
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private unsubscribeFeed: (() => void)[] = [];
+  private host: string;
+  private port: number;
+  private authToken: string;
+  private dashboardToken: string;
+  private autoAnalyze: boolean;
+  private maxConcurrentAnalyses: number;
+  private inFlight = 0;
+  private onAnalysis: ((analysis: TokenAnalysis) => void) | null;
+  private recentLaunches: NewTokenEvent[] = [];
+  private recentAnalyses: Map<string, TokenAnalysis> = new Map();
+
+  constructor(
+    feed: PumpFunWebSocket,
+    api: PumpFunAPI,
+    analyzer: ClaudeAnalyzer | null,
+    trader: SolanaTrader,
+    options: ApiServerOptions = {}
+  ) {
+    this.feed = feed;
+    this.api = api;
+    this.analyzer = analyzer;
+    this.trader = trader;
+    this.profiler = new CreatorProfiler(api);
+    this.holderAnalyzer = new HolderAnalyzer(trader.connection);
+    this.host = options.host ?? config.apiHost;
+    this.port = options.port ?? config.apiPort;
+    this.authToken = options.authToken ?? config.apiAuthToken;
+    this.dashboardToken = options.dashboardToken ?? config.apiDashboardToken;
+    this.autoAnalyze = options.autoAnalyze ?? false;
+    this.maxConcurrentAnalyses = options.maxConcurrentAnalyses ?? 3;
+    this.onAnalysis = options.onAnalysis ?? null;
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => this.sendError(res, error));
+    });
+    this.registerRoutes();
+  }
+
+  get url(): string {
+    return `http://${this.host}:${this.port}`;
+  }
+
+  get streamClients(): number {
+    return this.clients.size;
+  }
+
+  async start(): Promise<void> {
+    this.unsubscribeFeed.push(
+      this.feed.subscribeToNewTokens((event) => {
+        this.broadcast({ type: "newToken", data: event });
+        if (this.autoAnalyze) {
+          this.analyzeNewToken(event).catch(() => undefined);
+        }
+      }),
+      this.feed.on("state", (state) => this.broadcast({ type: "state", data: state }))
+    );
+    this.keepaliveTimer = setInterval(() => {
+      this.clients.forEach((client) => client.res.write(": keepalive\n\n"));
+    }, STREAM_KEEPALIVE_MS);
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+    this.unsubscribeFeed.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribeFeed = [];
+    this.clients.forEach((client) => this.closeStream(client));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private registerRoutes(): void {
+    this.route("GET", "/api/health", async () => ({
+      feed: this.feed.state,
+      streamClients: this.clients.size,
+      paper: this.trader.isPaper,
+      tradingEnabled: Boolean(this.authToken),
+      analysisEnabled: this.analyzer !== null,
+      autoAnalyze: this.autoAnalyze,
+    }));
+
+    this.route("GET", "/api/feed", async (): Promise<FeedSnapshot> => ({
+      launches: this.recentLaunches,
+      analyses: [...this.recentAnalyses.values()],
+    }));
+
+    this.route("GET", "/api/positions", async (): Promise<PnlSummary> => {
+      const valuations = await this.trader.ledger.valuePositions(
+        this.api,
+        this.trader.pumpSwap
+      );
+      const open = valuations.filter((v) => v.position.tokenAmount > 0);
+      return {
+        paper: this.trader.isPaper,
+        positions: valuations,
+        realizedPnlSol: valuations.reduce((sum, v) => sum + v.position.realizedPnlSol, 0),
+        unrealizedPnlSol: open.reduce((sum, v) => sum + (v.unrealizedPnlSol ?? 0), 0),
+        unpriced: open.filter((v) => v.unrealizedPnlSol === null).length,
+      };
+    });
+
+    this.route("GET", "/api/tokens/latest", async (_params, query) => {
+      const limit = Math.min(parseInt(query.get("limit") ?? "10", 10) || 10, 50);
+      return this.api.getLatestTokens(limit);
+    });
+
+    this.route("GET", "/api/tokens/king", async () => {
+      const token = await this.api.getKingOfTheHill();
+      if (!token) throw new HttpError(502, "Could not fetch King of the Hill");
+      return token;
+    });
+
+    this.route("GET", "/api/tokens/search", async (_params, query) => {
+      const q = query.get("q");
+      if (!q) throw new HttpError(400, "The q parameter is required");
+      return this.api.searchTokens(q);
+    });
+
+    this.route("GET", "/api/tokens/:mint", async ({ mint }) => this.requireToken(mint));
+
+    // Each lookup fans out into several RPC calls
+    this.route("GET", "/api/tokens/:mint/holders", async ({ mint }, _query, req) => {
+      this.authorize(req, "Holder lookups", { dashboard: true });
+      return this.holderAnalyzer.getDistribution(await this.requireToken(mint));
+    });
+
+    this.route("GET", "/api/tokens/:mint/creator", async ({ mint }) => {
+      const token = await this.requireToken(mint);
+      try {
+        return await this.profiler.getProfile(token.creator, token.mint);
+      } catch (error) {
+        throw new HttpError(502, error instanceof Error ? error.message : "Creator history unavailable");
+      }
+    });
+
+    // Each analysis is a paid Claude call, so it needs the token like trading
+    this.route("POST", "/api/tokens/:mint/analyze", async ({ mint }, _query, req) => {
+      this.authorize(req, "Analysis", { dashboard: true });
+      const analyzer = this.analyzer;
+      if (!analyzer) throw new HttpError(503, "Analysis needs ANTHROPIC_API_KEY");
+      const body = parseBody(analyzeRequestSchema, await readJsonBody(req));
+      const token = await this.requireToken(mint);
+
+      if (body.question) {
+        return { answer: await analyzer.askAboutToken(token, body.question) };
+      }
+      const creatorProfile = await this.profiler
+        .getProfile(token.creator, token.mint)
+        .catch(() => undefined);
+      const analysis = await analyzer.analyzeToken(token, { creatorProfile });
+      this.publishAnalysis(analysis);
+      return analysis;
+    });
+
+    this.route("GET", "/api/tokens/:mint/quote", async ({ mint }, query) => {
+      const side = query.get("side") ?? "buy";
+      if (side !== "buy" && side !== "sell") {
+        throw new HttpError(400, `side must be "buy" or "sell", got "${side}"`);
+      }
+      const amount = parseFloat(query.get("amount") ?? "");
+      if (!(amount > 0)) throw new HttpError(400, "amount must be a positive number");
+      const slippage = query.get("slippage");
+      const slippageBps = slippage ? parseInt(slippage, 10) : config.slippageBps;
+      if (!(slippageBps >= 0)) throw new HttpError(400, "slippage must be in basis points");
+      return this.quote(await this.requireToken(mint), side, amount, slippageBps);
+    });
+
+    this.route("POST", "/api/trade", async (_params, _query, req) => {
+      this.authorize(req, "Trading");
+      const body = parseBody(tradeRequestSchema, await readJsonBody(req));
+      const token = await this.requireToken(body.mint);
+
+      let result;
+      if (body.side === "buy") {
+        if (typeof body.amount !== "number") {
+          throw new HttpError(400, "A buy amount is SOL to spend, as a number");
+        }
+        result = await this.trader.buyToken(token, body.amount, { dryRun: body.dryRun });
+      } else {
+        let tokenAmount: number;
+        try {
+          tokenAmount = await this.trader.resolveSellAmount(
+            token,
+            parseSellAmount(String(body.amount))
+          );
+        } catch (error) {
+          throw new HttpError(400, error instanceof Error ? error.message : String(error));
+        }
+        result = await this.trader.sellToken(token, tokenAmount, { dryRun: body.dryRun });
+      }
+
+      // Failed and dry-run trades filled nothing
+      if (!result.success || result.dryRun) return result;
+      this.broadcast({
+        type: "fill",
+        data: {
+          side: body.side,
+          mint: token.mint,
+          symbol: token.symbol,
+          result,
+          timestamp: Date.now(),
+        },
+      });
+      return result;
+    });
+  }
+
+  private route(method: Route["method"], path: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_match, key: string) => {
+      keys.push(key);
+      return "([^/]+)";
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // A page on another site can point its own hostname at this address
+    // (DNS rebinding); its requests still carry that hostname
+    if (!this.isAllowedHost(req.headers.host)) {
+      throw new HttpError(403, `Host ${req.headers.host ?? "(none)"} is not allowed`);
+    }
+    const url = new URL(req.url ?? "/", this.url);
+
+    if (req.method === "GET" && url.pathname === "/api/events") {
+      this.authorize(req, "Streaming", { dashboard: true });
+      this.openStream(url.searchParams, res);
+      return;
+    }
+
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== req.method) continue;
+
+      let params: Record<string, string>;
+      try {
+        params = Object.fromEntries(
+          route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])])
+        );
+      } catch {
+        throw new HttpError(400, `Malformed escape in ${url.pathname}`);
+      }
+      this.sendJson(res, 200, await route.handler(params, url.searchParams, req));
+      return;
+    }
+    throw pathMatched
+      ? new HttpError(405, `${req.method} is not allowed on ${url.pathname}`)
+      : new HttpError(404, `No route for ${url.pathname}`);
+  }
+
+  // Streams every new token, state change, analysis and fill. Trades are
+  // only delivered for the mints listed in ?mints=, since the feed has to
+  // subscribe to each one. ?events= narrows the event types.
+  private openStream(query: URLSearchParams, res: http.ServerResponse): void {
+    const mints = splitList(query.get("mints"));
+    if (mints.length > MAX_STREAM_MINTS) {
+      throw new HttpError(400, `At most ${MAX_STREAM_MINTS} mints per stream`);
+    }
+    const events = splitList(query.get("events"));
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(`retry: 3000\n\n`);
+
+    const client: StreamClient = {
+      res,
+      events: events.length > 0 ? new Set(events as StreamEvent["type"][]) : null,
+      unsubscribes: [],
+    };
+    client.unsubscribes = mints.map((mint) =>
+      this.feed.subscribeToToken(mint, (trade) =>
+        this.send(client, { type: "trade", data: trade })
+      )
+    );
+    this.clients.add(client);
+    this.send(client, { type: "state", data: this.feed.state });
+
+    res.on("close", () => this.closeStream(client));
+  }
+
+  private closeStream(client: StreamClient): void {
+    if (!this.clients.delete(client)) return;
+    client.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    client.res.end();
+  }
+
+  private broadcast(event: StreamEvent): void {
+    this.remember(event);
+    this.clients.forEach((client) => this.send(client, event));
+  }
+
+  private publishAnalysis(analysis: TokenAnalysis): void {
+    this.broadcast({ type: "analysis", data: analysis });
+    this.onAnalysis?.(analysis);
+  }
+
+  private remember(event: StreamEvent): void {
+    if (event.type === "newToken") {
+      this.recentLaunches.unshift(event.data);
+      this.recentLaunches.length = Math.min(this.recentLaunches.length, RECENT_LAUNCHES);
+    } else if (event.type === "analysis") {
+      // Re-inserting moves the mint to the end, so the oldest is dropped first
+      this.recentAnalyses.delete(event.data.token.mint);
+      this.recentAnalyses.set(event.data.token.mint, event.data);
+      if (this.recentAnalyses.size > RECENT_LAUNCHES) {
+        this.recentAnalyses.delete(this.recentAnalyses.keys().next().value!);
+      }
+    }
+  }
+
+  private send(client: StreamClient, event: StreamEvent): void {
+    if (client.events && !client.events.has(event.type)) return;
+    client.res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  }
+
+  // Same flow as `monitor --analyze`, skipping tokens once the queue is full
+  private async analyzeNewToken(event: NewTokenEvent): Promise<void> {
+    if (!this.analyzer || this.inFlight >= this.maxConcurrentAnalyses) return;
+    this.inFlight++;
+    try {
+      const token = await this.api.getToken(event.mint);
+      if (!token) return;
+      const creatorProfile = await this.profiler
+        .getProfile(token.creator, token.mint)
+        .catch(() => undefined);
+      const analysis = await this.analyzer.analyzeToken(token, { creatorProfile });
+      this.publishAnalysis(analysis);
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  // Mirrors the quote command: graduated tokens are quoted against their
+  // pool, the rest against the on-chain curve or the API's reserves
+  private async quote(
+    token: PumpFunToken,
+    side: "buy" | "sell",
+    amount: number,
+    slippageBps: number
+  ): Promise<Record<string, unknown>> {
+    let curve = curveFromToken(token);
+    let feeBps = DEFAULT_FEE_BPS;
+    let complete = token.complete;
+    try {
+      const [curveState, global] = await Promise.all([
+        this.trader.accounts.getBondingCurve(token.bonding_curve),
+        this.trader.accounts.getGlobal(),
+      ]);
+      curve = curveFromState(curveState);
+      feeBps = global.feeBasisPoints;
+      complete = curveState.complete;
+    } catch {
+      // Keep the API's reserves
+    }
+
+    const solIn = toBaseUnits(amount, 9);
+    const tokensIn = toBaseUnits(amount, TOKEN_DECIMALS);
+    if (complete) {
+      let market;
+      try {
+        market = await this.trader.pumpSwap.loadMarket(token);
+      } catch (error) {
+        throw new HttpError(502, error instanceof Error ? error.message : "Could not read the pool");
+      }
+      const { lpFeeBps, protocolFeeBps, coinCreatorFeeBps } = market.config;
+      return {
+        venue: "pool",
+        pool: market.pool.address.toBase58(),
+        feeBps: lpFeeBps + protocolFeeBps + coinCreatorFeeBps,
+        spotPriceSol: poolSpotPriceSol(market.reserves),
+        slippageBps,
+        ...(side === "buy"
+          ? describeBuyQuote(quotePoolBuy(market, solIn, slippageBps))
+          : describeSellQuote(quotePoolSell(market, tokensIn, slippageBps))),
+      };
+    }
+    return {
+      venue: "curve",
+      feeBps: Number(feeBps),
+      spotPriceSol: spotPriceSol(curve),
+      graduationProgressPct: graduationProgressPct(curve),
+      slippageBps,
+      ...(side === "buy"
+        ? describeBuyQuote(quoteBuy(curve, solIn, slippageBps, feeBps))
+        : describeSellQuote(quoteSell(curve, tokensIn, slippageBps, feeBps))),
+    };
+  }
+
+  private async requireToken(mint: string): Promise<PumpFunToken> {
+    const token = await this.api.getToken(mint);
+    if (!token) throw new HttpError(404, "Token not found");
+    return token;
+  }
+
+  // Trading only takes API_AUTH_TOKEN; `dashboard` also lets the dashboard's
+  // API_DASHBOARD_TOKEN through
+  // Loopback names, plus the address the server was bound to
+  private isAllowedHost(header: string | undefined): boolean {
+    if (!header) return false;
+    let hostname: string;
+    try {
+      hostname = new URL(`http://${header}`).hostname;
+    } catch {
+      return false;
+    }
+    const bound = this.host.includes(":") ? `[${this.host}]` : this.host;
+    return LOOPBACK_HOSTS.has(hostname) || hostname === bound.toLowerCase();
+  }
+
+  private authorize(
+    req: http.IncomingMessage,
+    action: string,
+    { dashboard = false }: { dashboard?: boolean } = {}
+  ): void {
+    const accepted = [this.authToken, dashboard ? this.dashboardToken : ""].filter(Boolean);
+    if (accepted.length === 0) {
+      throw new HttpError(403, `${action} over the API is disabled: set API_AUTH_TOKEN`);
+    }
+    const header = req.headers.authorization ?? "";
+    const presented = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+    const valid = accepted.some((token) => {
+      const expected = Buffer.from(token);
+      return presented.length === expected.length && timingSafeEqual(presented, expected);
+    });
+    if (!valid) throw new HttpError(401, "Invalid or missing bearer token");
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    this.sendJson(res, status, { error: message });
+  }
+}
+
+function describeBuyQuote(quote: BuyQuote): Record<string, unknown> {
+  return {
+    side: "buy",
+    solIn: fromBaseUnits(quote.solIn, 9),
+    feeSol: fromBaseUnits(quote.fee, 9),
+    tokensOut: fromBaseUnits(quote.tokensOut, TOKEN_DECIMALS),
+    minTokensOut: fromBaseUnits(quote.minTokensOut, TOKEN_DECIMALS),
+    maxSolCost: fromBaseUnits(quote.maxSolCost, 9),
+    priceImpactPct: quote.priceImpactPct,
+  };
+}
+
+function describeSellQuote(quote: SellQuote): Record<string, unknown> {
+  return {
+    side: "sell",
+    tokensIn: fromBaseUnits(quote.tokensIn, TOKEN_DECIMALS),
+    feeSol: fromBaseUnits(quote.fee, 9),
+    solOut: fromBaseUnits(quote.solOut, 9),
+    minSolOut: fromBaseUnits(quote.minSolOut, 9),
+    priceImpactPct: quote.priceImpactPct,
+  };
+}
+
+function splitList(value: string | null): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new HttpError(400, `${issue.path.join(".") || "body"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
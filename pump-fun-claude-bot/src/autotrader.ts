@@ -0,0 +1,185 @@
+import { evaluateEntry, checkCreatorRules, checkMarketRules } from "./strategy.js";
+import { tokenFromCreateEvent } from "./backtester.js";
+import { CreatorProfiler } from "./creator-profile.js";
+import { HolderAnalyzer } from "./holder-distribution.js";
+import { appendJsonLine, walletDataPath } from "./storage.js";
+import type { PumpFunAPI } from "./pumpfun-api.js";
+import type { ClaudeAnalyzer } from "./claude-analyzer.js";
+import type { SolanaTrader } from "./solana-trader.js";
+import type {
+  AnalysisContext,
+  CreatorProfile,
+  EntryDecision,
+  EntryRules,
+  NewTokenEvent,
+  PumpFunToken,
+  TokenAnalysis,
+  TokenFeed,
+} from "./types.js";
+
+export interface AutoTraderOptions {
+  maxConcurrentAnalyses?: number;
+  // The feed is a recording: tokens are built from their create events and
+  // the live lookups (token API, creator profile, holders) are skipped,
+  // since they describe the token as it is now rather than at launch
+  replay?: boolean;
+  decisionLogPath?: string;
+  onDecision?: (decision: EntryDecision) => void;
+  onAnalysis?: (analysis: TokenAnalysis) => void;
+}
+
+export class AutoTrader {
+  private feed: TokenFeed;
+  private api: PumpFunAPI;
+  private analyzer: ClaudeAnalyzer;
+  private trader: SolanaTrader;
+  private rules: EntryRules;
+  private profiler: CreatorProfiler;
+  private holderAnalyzer: HolderAnalyzer;
+  private inFlight = 0;
+  private seenMints: Set<string> = new Set();
+  private maxConcurrentAnalyses: number;
+  private replay: boolean;
+  private decisionLogPath: string;
+  private onDecision: ((decision: EntryDecision) => void) | null;
+  private onAnalysis: ((analysis: TokenAnalysis) => void) | null;
+
+  constructor(
+    feed: TokenFeed,
+    api: PumpFunAPI,
+    analyzer: ClaudeAnalyzer,
+    trader: SolanaTrader,
+    rules: EntryRules,
+    options: AutoTraderOptions = {}
+  ) {
+    this.feed = feed;
+    this.api = api;
+    this.analyzer = analyzer;
+    this.trader = trader;
+    this.rules = rules;
+    this.profiler = new CreatorProfiler(api);
+    this.holderAnalyzer = new HolderAnalyzer(trader.connection);
+    this.maxConcurrentAnalyses = options.maxConcurrentAnalyses ?? 3;
+    this.replay = options.replay ?? false;
+    this.decisionLogPath =
+      options.decisionLogPath ??
+      walletDataPath("decisions.jsonl", { paper: trader.isPaper, wallet: trader.walletName });
+    this.onDecision = options.onDecision ?? null;
+    this.onAnalysis = options.onAnalysis ?? null;
+  }
+
+  start(): void {
+    this.feed.subscribeToNewTokens((event) => {
+      this.handleNewToken(event).catch((error) => {
+        this.record(event, "skip", `error: ${error instanceof Error ? error.message : error}`);
+      });
+    });
+  }
+
+  private async handleNewToken(event: NewTokenEvent): Promise<void> {
+    if (this.seenMints.has(event.mint)) return;
+    this.seenMints.add(event.mint);
+
+    const marketRejection = checkMarketRules(event.marketCapSol, this.rules);
+    if (marketRejection) {
+      this.record(event, "skip", marketRejection);
+      return;
+    }
+
+    // No buy can pass, so do not pay for an analysis
+    if (this.trader.risk.killSwitch) {
+      this.record(event, "skip", "kill switch engaged");
+      return;
+    }
+
+    if (this.inFlight >= this.maxConcurrentAnalyses) {
+      this.record(event, "skip", "analysis queue full");
+      return;
+    }
+
+    this.inFlight++;
+    try {
+      let token: PumpFunToken | null;
+      const context: AnalysisContext = {};
+      if (this.replay) {
+        token = tokenFromCreateEvent(event, Date.now());
+      } else {
+        token = await this.api.getToken(event.mint);
+        if (!token) {
+          this.record(event, "skip", "token data unavailable from API");
+          return;
+        }
+
+        let creatorProfile: CreatorProfile | undefined;
+        try {
+          creatorProfile = await this.profiler.getProfile(token.creator, token.mint);
+        } catch (error) {
+          // The creator rule cannot pass a token it knows nothing about
+          if (this.rules.maxCreatorLaunches !== null) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.record(event, "skip", `creator history unavailable: ${message}`);
+            return;
+          }
+        }
+        const creatorRejection = creatorProfile && checkCreatorRules(creatorProfile, this.rules);
+        if (creatorRejection) {
+          this.record(event, "skip", creatorRejection);
+          return;
+        }
+
+        // Concentration helps the verdict but is not worth skipping a token over
+        context.creatorProfile = creatorProfile;
+        context.holders = await this.holderAnalyzer
+          .getDistribution(token)
+          .catch(() => undefined);
+      }
+
+      const analysis = await this.analyzer.analyzeToken(token, context);
+      this.onAnalysis?.(analysis);
+      const decision = evaluateEntry(analysis, event.marketCapSol, this.rules);
+      if (!decision.buy) {
+        this.record(event, "skip", decision.reason, {
+          riskScore: analysis.status === "ok" ? analysis.riskScore : undefined,
+        });
+        return;
+      }
+
+      const result = await this.trader.buyToken(token, decision.solAmount);
+      if (result.success) {
+        this.record(event, "buy", decision.reason, {
+          riskScore: analysis.riskScore,
+          solAmount: decision.solAmount,
+          signature: result.signature,
+        });
+      } else {
+        const reason = result.rejection
+          ? `risk limit ${result.rejection.rule}: ${result.error}`
+          : `buy failed: ${result.error}`;
+        this.record(event, "skip", reason, {
+          riskScore: analysis.riskScore,
+          solAmount: decision.solAmount,
+        });
+      }
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  private record(
+    event: NewTokenEvent,
+    action: EntryDecision["action"],
+    reason: string,
+    details: Partial<EntryDecision> = {}
+  ): void {
+    const decision: EntryDecision = {
+      mint: event.mint,
+      symbol: event.symbol,
+      action,
+      reason,
+      ...details,
+      timestamp: Date.now(),
+    };
+    appendJsonLine(this.decisionLogPath, decision);
+    this.onDecision?.(decision);
+  }
+}
@@ -0,0 +1,334 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { config } from "./config.js";
+import {
+  curveFromEvent,
+  fromBaseUnits,
+  spotPriceSol,
+  toBaseUnits,
+  TOKEN_DECIMALS,
+  type CurveReserves,
+} from "./bonding-curve.js";
+import { simulateBuyFill, simulateSellFill } from "./solana-trader.js";
+import { checkExitRules, checkMarketRules, evaluateEntry } from "./strategy.js";
+import { readJsonFile, writeJsonFile } from "./storage.js";
+import type { ClaudeAnalyzer } from "./claude-analyzer.js";
+import type {
+  BacktestReport,
+  BacktestTokenOutcome,
+  EntryRules,
+  ExitRules,
+  ExitState,
+  NewTokenEvent,
+  PumpFunToken,
+  RecordedFeedEvent,
+  TokenAnalysis,
+  TradeEvent,
+} from "./types.js";
+
+// "none" applies market rules only, "cached" reads analyses from the cache
+// file, "claude" analyzes cache misses and writes them back.
+export type AnalysisMode = "none" | "cached" | "claude";
+
+type CachedAnalysis = Omit<TokenAnalysis, "token">;
+
+export interface BacktestOptions {
+  entryRules: EntryRules;
+  exitRules: ExitRules;
+  analysisMode: AnalysisMode;
+  analysisCachePath: string;
+  analyzer?: ClaudeAnalyzer;
+  startingSol?: number;
+}
+
+interface SimulatedPosition extends ExitState {
+  outcome: BacktestTokenOutcome;
+  tokens: number;
+}
+
+// Pumpportal events report reserves in SOL and whole tokens.
+export function tokenFromCreateEvent(
+  event: NewTokenEvent,
+  createdAt: number
+): PumpFunToken {
+  return {
+    mint: event.mint,
+    name: event.name,
+    symbol: event.symbol,
+    description: "",
+    image_uri: "",
+    metadata_uri: event.uri,
+    twitter: null,
+    telegram: null,
+    website: null,
+    bonding_curve: event.bondingCurveKey,
+    associated_bonding_curve: "",
+    creator: event.traderPublicKey,
+    created_timestamp: createdAt,
+    raydium_pool: null,
+    complete: false,
+    virtual_sol_reserves: event.vSolInBondingCurve * LAMPORTS_PER_SOL,
+    virtual_token_reserves: event.vTokensInBondingCurve * 1e6,
+    total_supply: 1e15,
+    market_cap: event.marketCapSol,
+    usd_market_cap: 0,
+    reply_count: 0,
+    last_reply: null,
+    king_of_the_hill_timestamp: null,
+    is_currently_live: false,
+  };
+}
+
+export class Backtester {
+  private options: BacktestOptions;
+  private analysisCache: Record<string, CachedAnalysis>;
+  private curves: Map<string, CurveReserves> = new Map();
+  private positions: Map<string, SimulatedPosition> = new Map();
+  private outcomes: BacktestTokenOutcome[] = [];
+  private cash = 0;
+  private tokensSeen = 0;
+  private skipped = 0;
+
+  constructor(options: BacktestOptions) {
+    if (options.analysisMode === "claude" && !options.analyzer) {
+      throw new Error("Claude analysis mode requires an analyzer");
+    }
+    this.options = options;
+    this.analysisCache = readJsonFile(options.analysisCachePath, {});
+  }
+
+  async run(records: RecordedFeedEvent[]): Promise<BacktestReport> {
+    // Launches alone would leave every entry open at its entry price
+    const hasLaunches = records.some(({ event }) => event.txType === "create");
+    if (hasLaunches && !records.some(({ event }) => event.txType !== "create")) {
+      throw new Error(
+        "Recording has launches but no trades to exit on. Record with `monitor --record`, which follows each launch's trades for RECORD_TRADE_MINUTES."
+      );
+    }
+
+    const startingSol = this.options.startingSol ?? config.paperStartingSol;
+    this.cash = startingSol;
+    let peakEquity = startingSol;
+    let maxDrawdownSol = 0;
+    let maxDrawdownPct = 0;
+
+    for (const { receivedAt, event } of records) {
+      this.curves.set(event.mint, curveFromEvent(event));
+
+      if (event.txType === "create") {
+        await this.handleCreate(event, receivedAt);
+      } else {
+        this.handleTrade(event);
+      }
+      this.checkExits(receivedAt);
+
+      const equity = this.cash + this.markedHoldings();
+      peakEquity = Math.max(peakEquity, equity);
+      if (peakEquity - equity > maxDrawdownSol) {
+        maxDrawdownSol = peakEquity - equity;
+        maxDrawdownPct = (maxDrawdownSol / peakEquity) * 100;
+      }
+    }
+
+    if (this.options.analysisMode === "claude") {
+      writeJsonFile(this.options.analysisCachePath, this.analysisCache);
+    }
+
+    return this.buildReport(records.length, maxDrawdownSol, maxDrawdownPct);
+  }
+
+  private async handleCreate(event: NewTokenEvent, receivedAt: number): Promise<void> {
+    this.tokensSeen++;
+
+    if (checkMarketRules(event.marketCapSol, this.options.entryRules)) {
+      this.skipped++;
+      return;
+    }
+
+    let solAmount: number;
+    let riskScore: number | undefined;
+    if (this.options.analysisMode === "none") {
+      // Without a verdict there is no risk tier, so size as medium risk
+      solAmount = this.options.entryRules.buySizeByRisk.medium;
+    } else {
+      const analysis = await this.getAnalysis(event, receivedAt);
+      if (!analysis) {
+        this.skipped++;
+        return;
+      }
+      const decision = evaluateEntry(
+        analysis,
+        event.marketCapSol,
+        this.options.entryRules
+      );
+      if (!decision.buy) {
+        this.skipped++;
+        return;
+      }
+      solAmount = decision.solAmount;
+      riskScore = analysis.riskScore;
+    }
+
+    if (solAmount <= 0 || solAmount > this.cash) {
+      this.skipped++;
+      return;
+    }
+
+    const { filledTokens, minTokens } = simulateBuyFill(
+      curveFromEvent(event),
+      toBaseUnits(solAmount, 9)
+    );
+    if (filledTokens < minTokens || filledTokens <= 0n) {
+      this.skipped++;
+      return;
+    }
+
+    const tokens = fromBaseUnits(filledTokens, TOKEN_DECIMALS);
+    const entryPriceSol = solAmount / tokens;
+    const outcome: BacktestTokenOutcome = {
+      mint: event.mint,
+      symbol: event.symbol,
+      status: "open",
+      entryAt: receivedAt,
+      riskScore,
+      solSpent: solAmount,
+      tokensBought: tokens,
+      solReceived: 0,
+      markedValueSol: 0,
+      pnlSol: 0,
+      exits: [],
+    };
+
+    this.cash -= solAmount;
+    this.outcomes.push(outcome);
+    this.positions.set(event.mint, {
+      outcome,
+      tokens,
+      entryPriceSol,
+      openedAt: receivedAt,
+      lastPriceSol: null,
+      peakPriceSol: entryPriceSol,
+      laddersHit: new Set(),
+    });
+  }
+
+  private handleTrade(event: TradeEvent): void {
+    const position = this.positions.get(event.mint);
+    if (!position || event.vTokensInBondingCurve <= 0) return;
+    const priceSol = event.vSolInBondingCurve / event.vTokensInBondingCurve;
+    position.lastPriceSol = priceSol;
+    position.peakPriceSol = Math.max(position.peakPriceSol, priceSol);
+  }
+
+  private checkExits(now: number): void {
+    for (const [mint, position] of this.positions) {
+      const decision = checkExitRules(position, this.options.exitRules, now);
+      if (!decision) continue;
+
+      const curve = this.curves.get(mint);
+      if (!curve) continue;
+
+      const tokens =
+        decision.sellPct >= 100
+          ? position.tokens
+          : Math.min(
+              position.tokens,
+              (position.outcome.tokensBought * decision.sellPct) / 100
+            );
+      const { filledSol, minSol } = simulateSellFill(
+        curve,
+        toBaseUnits(tokens, TOKEN_DECIMALS)
+      );
+      if (filledSol < minSol) continue;
+
+      const solReceived = fromBaseUnits(filledSol, 9);
+      this.cash += solReceived;
+      position.tokens -= tokens;
+      position.outcome.solReceived += solReceived;
+      position.outcome.exits.push(
+        `${decision.rule}: ${decision.reason} (+${solReceived.toFixed(4)} SOL)`
+      );
+      if (decision.ladderStep !== undefined) {
+        position.laddersHit.add(decision.ladderStep);
+      }
+
+      if (position.tokens <= 1e-6) {
+        position.outcome.status = "closed";
+        this.positions.delete(mint);
+      }
+    }
+  }
+
+  private async getAnalysis(
+    event: NewTokenEvent,
+    receivedAt: number
+  ): Promise<CachedAnalysis | null> {
+    const cached = this.analysisCache[event.mint];
+    if (cached || this.options.analysisMode === "cached") {
+      return cached ?? null;
+    }
+
+    const { token: _token, ...analysis } = await this.options.analyzer!.analyzeToken(
+      tokenFromCreateEvent(event, receivedAt)
+    );
+    // Failed analyses are not verdicts, so leave them out of the cache
+    if (analysis.status === "ok") {
+      this.analysisCache[event.mint] = analysis;
+    }
+    return analysis;
+  }
+
+  private markPosition(mint: string, position: SimulatedPosition): number {
+    const curve = this.curves.get(mint);
+    if (!curve) return 0;
+    return spotPriceSol(curve) * position.tokens;
+  }
+
+  private markedHoldings(): number {
+    let total = 0;
+    for (const [mint, position] of this.positions) {
+      total += this.markPosition(mint, position);
+    }
+    return total;
+  }
+
+  private buildReport(
+    events: number,
+    maxDrawdownSol: number,
+    maxDrawdownPct: number
+  ): BacktestReport {
+    let closedPnlSol = 0;
+    let openPnlSol = 0;
+    let wins = 0;
+    let losses = 0;
+
+    for (const outcome of this.outcomes) {
+      const position = this.positions.get(outcome.mint);
+      outcome.markedValueSol = position ? this.markPosition(outcome.mint, position) : 0;
+      outcome.pnlSol = outcome.solReceived + outcome.markedValueSol - outcome.solSpent;
+
+      if (outcome.status === "closed") {
+        closedPnlSol += outcome.pnlSol;
+      } else {
+        openPnlSol += outcome.pnlSol;
+      }
+      if (outcome.pnlSol > 0) wins++;
+      else losses++;
+    }
+
+    return {
+      events,
+      tokensSeen: this.tokensSeen,
+      tradesTaken: this.outcomes.length,
+      skipped: this.skipped,
+      wins,
+      losses,
+      winRate: this.outcomes.length > 0 ? (wins / this.outcomes.length) * 100 : 0,
+      closedPnlSol,
+      openPnlSol,
+      totalPnlSol: closedPnlSol + openPnlSol,
+      maxDrawdownSol,
+      maxDrawdownPct,
+      outcomes: this.outcomes,
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import type { PumpFunToken } from "./types.js";
+
+// All amounts are u64 base units: lamports for SOL, raw units (6 decimals)
+// for tokens. Rounding follows the on-chain program: integer division rounds
+// down, and the SOL cost of a buy rounds up in the program's favour.
+
+export const TOKEN_DECIMALS = 6;
+export const TOKEN_BASE_UNITS = 10n ** BigInt(TOKEN_DECIMALS);
+export const DEFAULT_FEE_BPS = 100n;
+
+// Launch state of every pump.fun curve. The difference between the virtual
+// and real token reserves never changes, so real reserves and graduation
+// progress can be derived from the virtual reserves alone.
+export const INITIAL_VIRTUAL_TOKEN_RESERVES = 1_073_000_000n * TOKEN_BASE_UNITS;
+export const INITIAL_REAL_TOKEN_RESERVES = 793_100_000n * TOKEN_BASE_UNITS;
+const VIRTUAL_TOKEN_OFFSET =
+  INITIAL_VIRTUAL_TOKEN_RESERVES - INITIAL_REAL_TOKEN_RESERVES;
+
+export interface CurveReserves {
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  realTokenReserves: bigint;
+}
+
+export interface BuyQuote {
+  solIn: bigint;
+  fee: bigint;
+  tokensOut: bigint;
+  // Fewest tokens the same SOL buys once the price moves by the slippage
+  minTokensOut: bigint;
+  // Most SOL the buy instruction may spend on tokensOut
+  maxSolCost: bigint;
+  priceImpactPct: number;
+}
+
+export interface SellQuote {
+  tokensIn: bigint;
+  fee: bigint;
+  solOut: bigint;
+  minSolOut: bigint;
+  priceImpactPct: number;
+}
+
+export function curveFromReserves(
+  virtualSolReserves: bigint,
+  virtualTokenReserves: bigint
+): CurveReserves {
+  const realTokenReserves = virtualTokenReserves - VIRTUAL_TOKEN_OFFSET;
+  return {
+    virtualSolReserves,
+    virtualTokenReserves,
+    realTokenReserves: realTokenReserves > 0n ? realTokenReserves : 0n,
+  };
+}
+
+// The pump.fun API reports reserves in base units
+export function curveFromToken(token: PumpFunToken): CurveReserves {
+  return curveFromReserves(
+    BigInt(Math.floor(token.virtual_sol_reserves)),
+    BigInt(Math.floor(token.virtual_token_reserves))
+  );
+}
+
+// Pumpportal events report reserves in SOL and whole tokens
+export function curveFromEvent(event: {
+  vSolInBondingCurve: number;
+  vTokensInBondingCurve: number;
+}): CurveReserves {
+  return curveFromReserves(
+    BigInt(Math.round(event.vSolInBondingCurve * LAMPORTS_PER_SOL)),
+    BigInt(Math.round(event.vTokensInBondingCurve * 10 ** TOKEN_DECIMALS))
+  );
+}
+
+// Rounds rather than truncates: amounts usually come from decimal strings,
+// and 1.000001 * 10^6 is 1000000.9999999999 as a float
+export function toBaseUnits(amount: number, decimals: number): bigint {
+  return BigInt(Math.round(amount * 10 ** decimals));
+}
+
+export function fromBaseUnits(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
+
+export function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+export function computeFee(amount: bigint, feeBps: bigint = DEFAULT_FEE_BPS): bigint {
+  return (amount * feeBps) / 10000n;
+}
+
+export function applySlippage(
+  amount: bigint,
+  slippageBps: number,
+  direction: "up" | "down"
+): bigint {
+  const bps = BigInt(slippageBps);
+  return direction === "up"
+    ? (amount * (10000n + bps)) / 10000n
+    : (amount * (10000n - bps)) / 10000n;
+}
+
+// Tokens received for SOL that has already had the fee taken out
+export function getBuyTokenAmount(curve: CurveReserves, solLamports: bigint): bigint {
+  if (solLamports <= 0n) return 0n;
+  const k = curve.virtualSolReserves * curve.virtualTokenReserves;
+  const newSolReserves = curve.virtualSolReserves + solLamports;
+  const newTokenReserves = k / newSolReserves + 1n;
+  const tokens = curve.virtualTokenReserves - newTokenReserves;
+  return tokens < curve.realTokenReserves ? tokens : curve.realTokenReserves;
+}
+
+// SOL the program charges for an exact token amount, before the fee
+export function getBuySolCost(curve: CurveReserves, tokenAmount: bigint): bigint {
+  if (tokenAmount <= 0n) return 0n;
+  if (tokenAmount >= curve.virtualTokenReserves) {
+    throw new Error("Token amount exceeds the curve's reserves");
+  }
+  const k = curve.virtualSolReserves * curve.virtualTokenReserves;
+  const newTokenReserves = curve.virtualTokenReserves - tokenAmount;
+  return k / newTokenReserves + 1n - curve.virtualSolReserves;
+}
+
+// SOL returned for tokens, before the fee
+export function getSellSolAmount(curve: CurveReserves, tokenAmount: bigint): bigint {
+  if (tokenAmount <= 0n) return 0n;
+  return (
+    (tokenAmount * curve.virtualSolReserves) /
+    (curve.virtualTokenReserves + tokenAmount)
+  );
+}
+
+// Tokens to sell to receive at least solOut after the fee
+export function getSellTokensForSol(
+  curve: CurveReserves,
+  solOut: bigint,
+  feeBps: bigint = DEFAULT_FEE_BPS
+): bigint {
+  if (solOut <= 0n) return 0n;
+  const grossSol = ceilDiv(solOut * 10000n, 10000n - feeBps);
+  if (grossSol >= curve.virtualSolReserves) {
+    throw new Error("The curve does not hold enough SOL for this sale");
+  }
+  return ceilDiv(
+    grossSol * curve.virtualTokenReserves,
+    curve.virtualSolReserves - grossSol
+  );
+}
+
+export function quoteBuy(
+  curve: CurveReserves,
+  solIn: bigint,
+  slippageBps: number,
+  feeBps: bigint = DEFAULT_FEE_BPS
+): BuyQuote {
+  // The fee is charged on top of the curve cost, so take it out of the budget
+  const netSol = (solIn * 10000n) / (10000n + feeBps);
+  const tokensOut = getBuyTokenAmount(curve, netSol);
+  return {
+    solIn,
+    fee: solIn - netSol,
+    tokensOut,
+    minTokensOut: applySlippage(tokensOut, slippageBps, "down"),
+    maxSolCost: applySlippage(solIn, slippageBps, "up"),
+    priceImpactPct: priceImpactPct(curve, netSol, tokensOut),
+  };
+}
+
+export function quoteSell(
+  curve: CurveReserves,
+  tokensIn: bigint,
+  slippageBps: number,
+  feeBps: bigint = DEFAULT_FEE_BPS
+): SellQuote {
+  const grossSol = getSellSolAmount(curve, tokensIn);
+  const fee = computeFee(grossSol, feeBps);
+  const solOut = grossSol - fee;
+  return {
+    tokensIn,
+    fee,
+    solOut,
+    minSolOut: applySlippage(solOut, slippageBps, "down"),
+    priceImpactPct: priceImpactPct(curve, grossSol, tokensIn),
+  };
+}
+
+// SOL per whole token at the current reserves
+export function spotPriceSol(curve: CurveReserves): number {
+  if (curve.virtualTokenReserves === 0n) return 0;
+  return (
+    (Number(curve.virtualSolReserves) / Number(curve.virtualTokenReserves)) *
+    (10 ** TOKEN_DECIMALS / LAMPORTS_PER_SOL)
+  );
+}
+
+export function marketCapSol(curve: CurveReserves, totalSupply: bigint): number {
+  return spotPriceSol(curve) * fromBaseUnits(totalSupply, TOKEN_DECIMALS);
+}
+
+// How far the fill price is from the spot price, as a percentage
+export function priceImpactPct(
+  curve: CurveReserves,
+  solAmount: bigint,
+  tokenAmount: bigint
+): number {
+  const spot = spotPriceSol(curve);
+  if (tokenAmount <= 0n || spot === 0) return 0;
+  const fillPrice =
+    fromBaseUnits(solAmount, 9) / fromBaseUnits(tokenAmount, TOKEN_DECIMALS);
+  return Math.abs(fillPrice / spot - 1) * 100;
+}
+
+export function graduationProgressPct(curve: CurveReserves): number {
+  const sold = INITIAL_REAL_TOKEN_RESERVES - curve.realTokenReserves;
+  return Math.min(
+    100,
+    (Number(sold) / Number(INITIAL_REAL_TOKEN_RESERVES)) * 100
+  );
+}
+
+// Lamports, fee included, that must be bought in to lift the market cap to
+// the target. Zero when it is already there.
+export function solToReachMarketCap(
+  curve: CurveReserves,
+  targetMarketCapSol: number,
+  totalSupply: bigint,
+  feeBps: bigint = DEFAULT_FEE_BPS
+): bigint {
+  // price = vSol / vTokens and vSol * vTokens = k, so the target
+  // price fixes vSol at sqrt(k * targetPrice)
+  const targetLamports = toBaseUnits(targetMarketCapSol, 9);
+  const k = curve.virtualSolReserves * curve.virtualTokenReserves;
+  const targetSolReserves = sqrt((k * targetLamports) / totalSupply);
+  const netSol = targetSolReserves - curve.virtualSolReserves;
+  if (netSol <= 0n) return 0n;
+  return netSol + computeFee(netSol, feeBps);
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
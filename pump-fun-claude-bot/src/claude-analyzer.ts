@@ -1,83 +1,194 @@
+import { createHash } from "crypto";
 import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
 import { config } from "./config.js";
-import type { PumpFunToken, TokenAnalysis } from "./types.js";
+import { AnalysisCache } from "./analysis-cache.js";
+import { UsageTracker } from "./usage-tracker.js";
+import type {
+  AnalysisContext,
+  CreatorProfile,
+  HolderDistribution,
+  PumpFunToken,
+  TokenAnalysis,
+} from "./types.js";
+
+const tokenAnalysisSchema = z.object({
+  riskScore: z.number().int().min(1).max(10),
+  sentiment: z.enum(["bullish", "bearish", "neutral"]),
+  summary: z.string().min(1),
+  redFlags: z.array(z.string()),
+  greenFlags: z.array(z.string()),
+  recommendation: z.string().min(1),
+});
+
+const ANALYSIS_TOOL: Anthropic.Tool = {
+  name: "record_token_analysis",
+  description: "Record the risk assessment for a pump.fun token.",
+  input_schema: {
+    type: "object",
+    properties: {
+      riskScore: {
+        type: "integer",
+        minimum: 1,
+        maximum: 10,
+        description: "Risk from 1 to 10, where 10 is highest risk",
+      },
+      sentiment: {
+        type: "string",
+        enum: ["bullish", "bearish", "neutral"],
+      },
+      summary: {
+        type: "string",
+        description: "2-3 sentence summary",
+      },
+      redFlags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Concerns",
+      },
+      greenFlags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Positive indicators",
+      },
+      recommendation: {
+        type: "string",
+        description: "Brief recommendation",
+      },
+    },
+    required: [
+      "riskScore",
+      "sentiment",
+      "summary",
+      "redFlags",
+      "greenFlags",
+      "recommendation",
+    ],
+  },
+};
+
+export interface ClaudeAnalyzerOptions {
+  // null disables the analysis cache
+  cache?: AnalysisCache | null;
+  usage?: UsageTracker;
+}
 
 export class ClaudeAnalyzer {
   private client: Anthropic;
+  private cache: AnalysisCache | null;
+  readonly usage: UsageTracker;
 
-  constructor() {
+  constructor(options: ClaudeAnalyzerOptions = {}) {
     this.client = new Anthropic({
       apiKey: config.anthropicApiKey,
     });
+    this.cache = options.cache === undefined ? new AnalysisCache() : options.cache;
+    this.usage = options.usage ?? new UsageTracker();
   }
 
-  async analyzeToken(token: PumpFunToken): Promise<TokenAnalysis> {
-    const tokenData = this.formatTokenData(token);
+  async analyzeToken(
+    token: PumpFunToken,
+    context: AnalysisContext = {}
+  ): Promise<TokenAnalysis> {
+    const fingerprint = this.fingerprint(token, context);
+    const cached = this.cache?.get(token, fingerprint);
+    if (cached) return cached;
 
-    const response = await this.client.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1500,
-      messages: [
-        {
-          role: "user",
-          content: `You are a crypto token analyst specializing in pump.fun meme coins on Solana. Analyze this token and provide a risk assessment.
+    const analysis = await this.requestAnalysis(token, context);
+    this.cache?.set(token, fingerprint, analysis);
+    return analysis;
+  }
+
+  private async requestAnalysis(
+    token: PumpFunToken,
+    context: AnalysisContext
+  ): Promise<TokenAnalysis> {
+    const tokenData = this.formatTokenData(token, context);
+    const messages: Anthropic.MessageParam[] = [
+      {
+        role: "user",
+        content: `You are a crypto token analyst specializing in pump.fun meme coins on Solana. Analyze this token and provide a risk assessment.
 
 TOKEN DATA:
 ${tokenData}
 
-Provide your analysis in the following JSON format:
-{
-  "riskScore": <number 1-10, where 10 is highest risk>,
-  "sentiment": "<bullish|bearish|neutral>",
-  "summary": "<2-3 sentence summary>",
-  "redFlags": ["<list of concerns>"],
-  "greenFlags": ["<list of positive indicators>"],
-  "recommendation": "<brief recommendation>"
-}
-
 Consider these factors:
 - Token name/symbol (scammy names, impersonation attempts)
 - Social links present (twitter, telegram, website)
 - Market cap and liquidity
-- Creator history
+- Creator history (serial launchers whose tokens die quickly are a strong rug signal)
+- Holder concentration (snipers, insiders, the creator or fresh wallets holding a large share of supply)
 - Whether it has graduated to Raydium
 - Reply/engagement count
 - Time since creation
 - Any signs of rug pull potential
 
-Respond ONLY with the JSON object, no other text.`,
-        },
-      ],
-    });
+Record your assessment with the ${ANALYSIS_TOOL.name} tool.`,
+      },
+    ];
+
+    let lastError = "No analysis attempted";
+
+    for (let attempt = 1; attempt <= config.analysisMaxAttempts; attempt++) {
+      let response: Anthropic.Message;
+      try {
+        response = await this.createMessage({
+          model: "claude-sonnet-4-20250514",
+          max_tokens: 1500,
+          tools: [ANALYSIS_TOOL],
+          tool_choice: { type: "tool", name: ANALYSIS_TOOL.name },
+          messages,
+        });
+      } catch (error) {
+        return this.failedAnalysis(
+          token,
+          `Claude request failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+
+      const toolUse = response.content.find(
+        (block): block is Anthropic.ToolUseBlock => block.type === "tool_use"
+      );
+      if (!toolUse) {
+        lastError = "Response did not include the analysis tool call";
+        continue;
+      }
 
-    try {
-      const content = response.content[0];
-      if (content.type !== "text") {
-        throw new Error("Unexpected response type");
+      const parsed = tokenAnalysisSchema.safeParse(toolUse.input);
+      if (parsed.success) {
+        return { token, status: "ok", ...parsed.data };
       }
 
-      const analysis = JSON.parse(content.text);
-      return {
-        token,
-        ...analysis,
-      };
-    } catch {
-      return {
-        token,
-        riskScore: 5,
-        sentiment: "neutral",
-        summary: "Unable to parse analysis. Manual review recommended.",
-        redFlags: ["Analysis parsing failed"],
-        greenFlags: [],
-        recommendation: "Proceed with extreme caution",
-      };
+      // Hand the validation errors back so the next attempt can correct them
+      lastError = parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "input"}: ${issue.message}`)
+        .join("; ");
+      messages.push(
+        { role: "assistant", content: response.content },
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: toolUse.id,
+              is_error: true,
+              content: `Invalid analysis: ${lastError}. Call ${ANALYSIS_TOOL.name} again with corrected input.`,
+            },
+          ],
+        }
+      );
     }
+
+    return this.failedAnalysis(
+      token,
+      `Invalid analysis after ${config.analysisMaxAttempts} attempts: ${lastError}`
+    );
   }
 
   async askAboutToken(token: PumpFunToken, question: string): Promise<string> {
     const tokenData = this.formatTokenData(token);
 
-    const response = await this.client.messages.create({
+    const response = await this.createMessage({
       model: "claude-sonnet-4-20250514",
       max_tokens: 1000,
       messages: [
@@ -106,7 +217,7 @@ Provide a helpful, concise answer based on the token data. Be honest about risks
       .map((t, i) => `Token ${i + 1}:\n${this.formatTokenData(t)}`)
       .join("\n\n---\n\n");
 
-    const response = await this.client.messages.create({
+    const response = await this.createMessage({
       model: "claude-sonnet-4-20250514",
       max_tokens: 2000,
       messages: [
@@ -128,7 +239,106 @@ Provide a comparison table and ranking with brief justifications. Focus on key d
     return content.text;
   }
 
-  private formatTokenData(token: PumpFunToken): string {
+  private async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming
+  ): Promise<Anthropic.Message> {
+    if (this.usage.isOverBudget()) {
+      throw new Error(
+        `Daily Claude budget of $${config.anthropicDailyBudgetUsd.toFixed(2)} reached`
+      );
+    }
+    const response = await this.client.messages.create(params);
+    this.usage.record(response.usage);
+    return response;
+  }
+
+  // Market data is left out on purpose: the cache decides separately how
+  // far the market may move before a verdict goes stale.
+  private fingerprint(token: PumpFunToken, context: AnalysisContext): string {
+    const profile = context.creatorProfile;
+    const holders = context.holders;
+    return createHash("sha256")
+      .update(
+        JSON.stringify([
+          ANALYSIS_TOOL.name,
+          token.name,
+          token.symbol,
+          token.description,
+          token.twitter,
+          token.telegram,
+          token.website,
+          token.creator,
+          token.complete,
+          token.raydium_pool,
+          profile ? [profile.priorLaunches, profile.graduated] : null,
+          // Bucketed so ordinary trading does not invalidate every verdict
+          holders
+            ? [
+                Math.round(holders.top10Pct / 5),
+                Math.round(holders.creatorPct / 5),
+                holders.freshWallets,
+              ]
+            : null,
+        ])
+      )
+      .digest("hex");
+  }
+
+  // Placeholder fields keep the TokenAnalysis shape, but status marks it as
+  // not a verdict so nothing acts on it.
+  private failedAnalysis(token: PumpFunToken, error: string): TokenAnalysis {
+    return {
+      token,
+      status: "failed",
+      error,
+      riskScore: 10,
+      sentiment: "neutral",
+      summary: `Analysis failed: ${error}`,
+      redFlags: ["Analysis failed"],
+      greenFlags: [],
+      recommendation: "No verdict available. Manual review required.",
+    };
+  }
+
+  private formatCreatorProfile(profile: CreatorProfile): string {
+    const formatUsd = (value: number | null) =>
+      value === null ? "n/a" : `$${value.toFixed(0)}`;
+    const formatMinutes = (value: number | null) =>
+      value === null ? "n/a" : `${value.toFixed(0)} minutes`;
+
+    return `
+Creator History (excluding this token):
+- Prior Launches: ${profile.priorLaunches}${profile.truncated ? "+ (history truncated)" : ""}
+- Graduated: ${profile.graduated}
+- Typical Market Cap (median, last known): ${formatUsd(profile.medianMarketCapUsd)}
+- Best Market Cap: ${formatUsd(profile.bestMarketCapUsd)}
+- Launches Per Day: ${profile.launchesPerDay === null ? "n/a" : profile.launchesPerDay.toFixed(1)}
+- Median Time Between Launches: ${formatMinutes(profile.medianMinutesBetweenLaunches)}
+- Median Time Until Activity Stopped: ${formatMinutes(profile.medianActiveMinutes)}`;
+  }
+
+  private formatHolderDistribution(holders: HolderDistribution): string {
+    const rows = holders.topHolders
+      .map((holder, i) => {
+        const tags = [
+          holder.isCreator ? "creator" : null,
+          holder.freshWallet ? "fresh wallet" : null,
+        ].filter(Boolean);
+        return `  ${i + 1}. ${holder.owner}: ${holder.pct.toFixed(2)}%${tags.length > 0 ? ` (${tags.join(", ")})` : ""}`;
+      })
+      .join("\n");
+
+    return `
+Holder Distribution (% of total supply):
+- Bonding Curve: ${holders.bondingCurvePct.toFixed(2)}%
+- Top 10 Holders (excluding bonding curve): ${holders.top10Pct.toFixed(2)}%
+- Creator Holding: ${holders.creatorPct.toFixed(2)}%
+- Fresh Wallets Among Top Holders: ${holders.freshWallets}/${holders.topHolders.length}
+- Top Holders:
+${rows || "  None"}`;
+  }
+
+  private formatTokenData(token: PumpFunToken, context: AnalysisContext = {}): string {
     const ageMinutes = Math.floor(
       (Date.now() - token.created_timestamp) / 60000
     );
@@ -165,6 +375,8 @@ Status:
 
 Creator: ${token.creator}
 Bonding Curve: ${token.bonding_curve}
+${context.creatorProfile ? this.formatCreatorProfile(context.creatorProfile) : ""}
+${context.holders ? this.formatHolderDistribution(context.holders) : ""}
     `.trim();
   }
 }
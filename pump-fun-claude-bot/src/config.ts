@@ -5,11 +5,29 @@ dotenv.config();
 export const config = {
   // Anthropic
   anthropicApiKey: process.env.ANTHROPIC_API_KEY || "",
+  analysisMaxAttempts: parseInt(process.env.ANALYSIS_MAX_ATTEMPTS || "3", 10),
+  analysisCacheTtlMinutes: parseFloat(
+    process.env.ANALYSIS_CACHE_TTL_MINUTES || "30"
+  ),
+  analysisCacheMaxMovePct: parseFloat(
+    process.env.ANALYSIS_CACHE_MAX_MOVE_PCT || "25"
+  ),
+  anthropicInputCostPerMTok: parseFloat(
+    process.env.ANTHROPIC_INPUT_COST_PER_MTOK || "3"
+  ),
+  anthropicOutputCostPerMTok: parseFloat(
+    process.env.ANTHROPIC_OUTPUT_COST_PER_MTOK || "15"
+  ),
+  anthropicDailyBudgetUsd: parseFloat(
+    process.env.ANTHROPIC_DAILY_BUDGET_USD || "0"
+  ),
 
   // Solana
   solanaRpcUrl:
     process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
   solanaPrivateKey: process.env.SOLANA_PRIVATE_KEY || "",
+  // Unlocks keystore wallets without prompting, for unattended runs
+  keystorePassword: process.env.KEYSTORE_PASSWORD || "",
 
   // Pump.fun
   pumpfunApiUrl: process.env.PUMPFUN_API_URL || "https://frontend-api.pump.fun",
@@ -19,8 +37,76 @@ export const config = {
   maxBuyAmount: parseFloat(process.env.MAX_BUY_AMOUNT || "0.1"),
   slippageBps: parseInt(process.env.SLIPPAGE_BPS || "500", 10),
 
+  // Risk limits, checked before every buy. 0 disables a limit.
+  riskDailyLossLimitSol: parseFloat(process.env.RISK_DAILY_LOSS_LIMIT_SOL || "0"),
+  riskMaxMintExposureSol: parseFloat(process.env.RISK_MAX_MINT_EXPOSURE_SOL || "0"),
+  riskMaxTotalExposureSol: parseFloat(process.env.RISK_MAX_TOTAL_EXPOSURE_SOL || "0"),
+  riskMaxOpenPositions: parseInt(process.env.RISK_MAX_OPEN_POSITIONS || "0", 10),
+  // SOL left untouched for transaction fees and token account rent
+  riskMinSolReserve: parseFloat(process.env.RISK_MIN_SOL_RESERVE || "0.02"),
+  riskMaxCreatorExposureSol: parseFloat(
+    process.env.RISK_MAX_CREATOR_EXPOSURE_SOL || "0"
+  ),
+  riskMaxPositionsPerCreator: parseInt(
+    process.env.RISK_MAX_POSITIONS_PER_CREATOR || "0",
+    10
+  ),
+  riskLossCooldownMinutes: parseFloat(
+    process.env.RISK_LOSS_COOLDOWN_MINUTES || "0"
+  ),
+
+  // Transaction landing
+  computeUnitLimit: parseInt(process.env.COMPUTE_UNIT_LIMIT || "120000", 10),
+  // A fixed price in micro-lamports per compute unit, or "auto"
+  priorityFee: process.env.PRIORITY_FEE_MICROLAMPORTS || "auto",
+  priorityFeePercentile: parseInt(
+    process.env.PRIORITY_FEE_PERCENTILE || "75",
+    10
+  ),
+  priorityFeeMaxMicroLamports: parseInt(
+    process.env.PRIORITY_FEE_MAX_MICROLAMPORTS || "1000000",
+    10
+  ),
+  sendMaxAttempts: parseInt(process.env.SEND_MAX_ATTEMPTS || "3", 10),
+  rebroadcastIntervalMs: parseInt(
+    process.env.REBROADCAST_INTERVAL_MS || "2000",
+    10
+  ),
+  // Backstop for one attempt's confirmation; blockhash expiry usually ends it first
+  confirmTimeoutMs: parseInt(process.env.CONFIRM_TIMEOUT_MS || "90000", 10),
+
+  // Paper trading
+  paperStartingSol: parseFloat(process.env.PAPER_STARTING_SOL || "10"),
+  paperSlippageBps: parseInt(process.env.PAPER_SLIPPAGE_BPS || "100", 10),
+
   // Monitoring
   monitorIntervalMs: parseInt(process.env.MONITOR_INTERVAL_MS || "5000", 10),
+  wsHeartbeatIntervalMs: parseInt(
+    process.env.WS_HEARTBEAT_INTERVAL_MS || "15000",
+    10
+  ),
+  wsStaleAfterMs: parseInt(process.env.WS_STALE_AFTER_MS || "60000", 10),
+  // How long a recording follows each launch's trades (--record)
+  recordTradeMinutes: parseFloat(process.env.RECORD_TRADE_MINUTES || "30"),
+
+  // API server (serve command)
+  apiHost: process.env.API_HOST || "127.0.0.1",
+  apiPort: parseInt(process.env.API_PORT || "8787", 10),
+  // Bearer token for the trade endpoint; trading over the API is off without it
+  apiAuthToken: process.env.API_AUTH_TOKEN || "",
+  // Bearer token for the web dashboard: analysis only, never trading
+  apiDashboardToken: process.env.API_DASHBOARD_TOKEN || "",
+
+  // Watchlist alerts (watch run)
+  watchWhaleBuySol: parseFloat(process.env.WATCH_WHALE_BUY_SOL || "5"),
+  watchPriceMovePct: parseFloat(process.env.WATCH_PRICE_MOVE_PCT || "20"),
+  watchGraduationPct: parseFloat(process.env.WATCH_GRADUATION_PCT || "90"),
+
+  // Alert sinks and rules (JSON), used by monitor, autotrade, manage and serve
+  alertsFile: process.env.ALERTS_FILE || "",
+
+  // Local state (paper wallet, ledgers, caches)
+  dataDir: process.env.DATA_DIR || ".pump-bot",
 };
 
 export function validateConfig(): void {
@@ -29,9 +115,20 @@ export function validateConfig(): void {
   }
 }
 
-export function validateTradingConfig(): void {
+// walletName is the keystore wallet selected for the run, if any
+export function validateTradingConfig(walletName: string | null = null): void {
   validateConfig();
-  if (!config.solanaPrivateKey) {
-    throw new Error("SOLANA_PRIVATE_KEY is required for trading");
+  validateWalletConfig(walletName);
+}
+
+// Selling needs a wallet and an RPC endpoint, but no Claude key
+export function validateWalletConfig(walletName: string | null = null): void {
+  if (!walletName && !config.solanaPrivateKey) {
+    throw new Error(
+      "A wallet is required for trading: create one with `wallet create` or set SOLANA_PRIVATE_KEY"
+    );
+  }
+  if (!/^https?:\/\/\S+$/.test(config.solanaRpcUrl)) {
+    throw new Error(`SOLANA_RPC_URL is not an http(s) URL: ${config.solanaRpcUrl}`);
   }
 }
@@ -0,0 +1,69 @@
+import type { PumpFunAPI } from "./pumpfun-api.js";
+import type { CreatorProfile, PumpFunToken } from "./types.js";
+
+const PROFILE_TTL_MS = 10 * 60 * 1000;
+const CREATOR_PAGE_SIZE = 50;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function summarizeCreatorHistory(
+  creator: string,
+  launches: PumpFunToken[]
+): CreatorProfile {
+  const byAge = [...launches].sort((a, b) => a.created_timestamp - b.created_timestamp);
+  const gaps = byAge
+    .slice(1)
+    .map((token, i) => (token.created_timestamp - byAge[i].created_timestamp) / 60000);
+  const spanDays =
+    byAge.length > 1
+      ? (byAge[byAge.length - 1].created_timestamp - byAge[0].created_timestamp) / 86400000
+      : null;
+  const marketCaps = launches.map((t) => t.usd_market_cap || 0);
+
+  return {
+    creator,
+    priorLaunches: launches.length,
+    truncated: launches.length >= CREATOR_PAGE_SIZE - 1,
+    graduated: launches.filter((t) => t.complete).length,
+    medianMarketCapUsd: median(marketCaps),
+    bestMarketCapUsd: marketCaps.length > 0 ? Math.max(...marketCaps) : null,
+    launchesPerDay: spanDays ? launches.length / Math.max(spanDays, 1 / 24) : null,
+    medianMinutesBetweenLaunches: median(gaps),
+    medianActiveMinutes: median(
+      launches.map((t) =>
+        t.last_reply ? Math.max(0, (t.last_reply - t.created_timestamp) / 60000) : 0
+      )
+    ),
+    lastLaunchAt: byAge.length > 0 ? byAge[byAge.length - 1].created_timestamp : null,
+  };
+}
+
+export class CreatorProfiler {
+  private api: PumpFunAPI;
+  private cache: Map<string, { profile: CreatorProfile; fetchedAt: number }> =
+    new Map();
+
+  constructor(api: PumpFunAPI) {
+    this.api = api;
+  }
+
+  async getProfile(creator: string, currentMint?: string): Promise<CreatorProfile> {
+    const cacheKey = `${creator}:${currentMint ?? ""}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < PROFILE_TTL_MS) {
+      return cached.profile;
+    }
+
+    const launches = (await this.api.getTokensByCreator(creator)).filter(
+      (token) => token.mint !== currentMint
+    );
+    const profile = summarizeCreatorHistory(creator, launches);
+    this.cache.set(cacheKey, { profile, fetchedAt: Date.now() });
+    return profile;
+  }
+}
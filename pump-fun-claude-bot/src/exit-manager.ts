@@ -0,0 +1,286 @@
+import { appendJsonLine, readJsonLines, walletDataPath } from "./storage.js";
+import { checkExitRules } from "./strategy.js";
+import type { PumpAccounts } from "./pump-accounts.js";
+import type { PumpFunAPI } from "./pumpfun-api.js";
+import type { SolanaTrader } from "./solana-trader.js";
+import type {
+  ExitDecision,
+  ExitRules,
+  ExitState,
+  ExitTrigger,
+  Position,
+  PumpFunToken,
+  TokenFeed,
+  TradeEvent,
+} from "./types.js";
+
+// Failed sells wait before retrying, doubling up to the max
+const SELL_RETRY_BASE_MS = 5000;
+const SELL_RETRY_MAX_MS = 5 * 60 * 1000;
+
+interface TrackedPosition extends ExitState {
+  token: PumpFunToken;
+  rules: ExitRules;
+  initialTokens: number;
+  selling: boolean;
+  failedSells: number;
+  retryAt: number;
+  lastFailure: string | null;
+  unsubscribe: () => void;
+}
+
+export interface ExitManagerOptions {
+  triggerLogPath?: string;
+  checkIntervalMs?: number;
+  // Also price positions from bonding curve account changes, so exits keep
+  // working when the trade feed is down
+  accountUpdates?: PumpAccounts;
+  // Where tracked tokens are loaded from, the API by default. A replay
+  // passes the tokens of its recorded launches instead.
+  getToken?: (mintAddress: string) => Promise<PumpFunToken | null>;
+  onTrigger?: (trigger: ExitTrigger) => void;
+}
+
+export class ExitManager {
+  private feed: TokenFeed;
+  private api: PumpFunAPI;
+  private trader: SolanaTrader;
+  private defaultRules: ExitRules;
+  private positions: Map<string, TrackedPosition> = new Map();
+  private triggerLogPath: string;
+  private checkIntervalMs: number;
+  private accountUpdates: PumpAccounts | null;
+  private getToken: (mintAddress: string) => Promise<PumpFunToken | null>;
+  private onTrigger: ((trigger: ExitTrigger) => void) | null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    feed: TokenFeed,
+    api: PumpFunAPI,
+    trader: SolanaTrader,
+    defaultRules: ExitRules,
+    options: ExitManagerOptions = {}
+  ) {
+    this.feed = feed;
+    this.api = api;
+    this.trader = trader;
+    this.defaultRules = defaultRules;
+    // Kept per wallet like the ledger the triggers are matched against
+    this.triggerLogPath =
+      options.triggerLogPath ??
+      walletDataPath("exits.jsonl", { paper: trader.isPaper, wallet: trader.walletName });
+    this.checkIntervalMs = options.checkIntervalMs ?? 5000;
+    this.accountUpdates = options.accountUpdates ?? null;
+    this.getToken = options.getToken ?? ((mint) => this.api.getToken(mint));
+    this.onTrigger = options.onTrigger ?? null;
+  }
+
+  get trackedCount(): number {
+    return this.positions.size;
+  }
+
+  async track(position: Position, rules: ExitRules = this.defaultRules): Promise<boolean> {
+    if (position.tokenAmount <= 0 || this.positions.has(position.mint)) {
+      return false;
+    }
+
+    const token = await this.getToken(position.mint);
+    if (!token) return false;
+
+    const unsubscribeFeed = this.feed.subscribeToToken(position.mint, (event) =>
+      this.handleTrade(event)
+    );
+    const unsubscribeAccount = this.accountUpdates?.subscribeBondingCurve(
+      token.bonding_curve,
+      (state) =>
+        this.updatePrice(
+          position.mint,
+          Number(state.virtualSolReserves),
+          Number(state.virtualTokenReserves)
+        )
+    );
+    const unsubscribe = () => {
+      unsubscribeFeed();
+      unsubscribeAccount?.();
+    };
+    this.positions.set(position.mint, {
+      token,
+      rules,
+      entryPriceSol: position.averageCostSol,
+      initialTokens: this.initialTokens(position),
+      openedAt: position.openedAt,
+      lastPriceSol: null,
+      peakPriceSol: position.averageCostSol,
+      laddersHit: this.laddersHit(position),
+      selling: false,
+      failedSells: 0,
+      retryAt: 0,
+      lastFailure: null,
+      unsubscribe,
+    });
+
+    this.ensureTimer();
+    return true;
+  }
+
+  untrack(mintAddress: string): void {
+    const tracked = this.positions.get(mintAddress);
+    if (!tracked) return;
+    this.positions.delete(mintAddress);
+    tracked.unsubscribe();
+    if (this.positions.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  stop(): void {
+    for (const mint of [...this.positions.keys()]) {
+      this.untrack(mint);
+    }
+  }
+
+  private ensureTimer(): void {
+    if (this.timer) return;
+    // Max hold time must fire even when a token stops trading
+    this.timer = setInterval(() => {
+      for (const [mint, tracked] of this.positions) {
+        this.evaluate(mint, tracked).catch((error) =>
+          console.error(`Exit check failed for ${mint}:`, error)
+        );
+      }
+    }, this.checkIntervalMs);
+  }
+
+  private handleTrade(event: TradeEvent): void {
+    this.updatePrice(
+      event.mint,
+      event.vSolInBondingCurve * 1e9,
+      event.vTokensInBondingCurve * 1e6
+    );
+  }
+
+  // Reserves in lamports and raw token units
+  private updatePrice(mint: string, solReserves: number, tokenReserves: number): void {
+    const tracked = this.positions.get(mint);
+    if (!tracked || tokenReserves <= 0) return;
+
+    const priceSol = (solReserves / tokenReserves) * (1e6 / 1e9);
+    tracked.lastPriceSol = priceSol;
+    tracked.peakPriceSol = Math.max(tracked.peakPriceSol, priceSol);
+    // Keep paper sell min-out in line with the live curve
+    tracked.token.virtual_sol_reserves = solReserves;
+    tracked.token.virtual_token_reserves = tokenReserves;
+
+    this.evaluate(mint, tracked).catch((error) =>
+      console.error(`Exit check failed for ${mint}:`, error)
+    );
+  }
+
+  private async evaluate(mint: string, tracked: TrackedPosition): Promise<void> {
+    if (tracked.selling || Date.now() < tracked.retryAt) return;
+
+    const decision = checkExitRules(tracked, tracked.rules, Date.now());
+    if (!decision) return;
+
+    const success = await this.exit(mint, tracked, decision);
+    if (success && decision.ladderStep !== undefined) {
+      tracked.laddersHit.add(decision.ladderStep);
+    }
+  }
+
+  private async exit(
+    mint: string,
+    tracked: TrackedPosition,
+    { rule, sellPct, reason, ladderStep }: ExitDecision
+  ): Promise<boolean> {
+    tracked.selling = true;
+    try {
+      const balance = await this.trader.getTokenBalance(mint);
+      const tokenAmount =
+        sellPct >= 100
+          ? balance
+          : Math.min(balance, (tracked.initialTokens * sellPct) / 100);
+
+      const trigger: ExitTrigger = {
+        mint,
+        symbol: tracked.token.symbol,
+        rule,
+        reason,
+        priceSol: tracked.lastPriceSol ?? tracked.entryPriceSol,
+        entryPriceSol: tracked.entryPriceSol,
+        tokenAmount,
+        ladderStep,
+        success: false,
+        timestamp: Date.now(),
+      };
+
+      if (tokenAmount <= 0) {
+        trigger.error = "no token balance left";
+        this.record(trigger);
+        this.untrack(mint);
+        return false;
+      }
+
+      const result = await this.trader.sellToken(tracked.token, tokenAmount);
+      trigger.success = result.success;
+      trigger.signature = result.signature;
+      trigger.solReceived = result.amountOut;
+      trigger.error = result.error;
+
+      if (!result.success) {
+        tracked.failedSells++;
+        tracked.retryAt =
+          Date.now() +
+          Math.min(SELL_RETRY_BASE_MS * 2 ** (tracked.failedSells - 1), SELL_RETRY_MAX_MS);
+        // Retries that fail the same way are not logged or alerted again
+        const failure = `${rule}: ${result.error}`;
+        if (failure !== tracked.lastFailure) this.record(trigger);
+        tracked.lastFailure = failure;
+        return false;
+      }
+
+      tracked.failedSells = 0;
+      tracked.retryAt = 0;
+      tracked.lastFailure = null;
+      this.record(trigger);
+      if (tokenAmount >= balance) {
+        this.untrack(mint);
+      }
+      return true;
+    } finally {
+      tracked.selling = false;
+    }
+  }
+
+  // Ladder steps are sized from everything bought since the position
+  // opened, not from what is left after earlier steps sold
+  private initialTokens(position: Position): number {
+    const bought = this.trader.ledger
+      .getEntries()
+      .filter(
+        (e) => e.side === "buy" && e.mint === position.mint && e.timestamp >= position.openedAt
+      )
+      .reduce((sum, e) => sum + e.tokenAmount, 0);
+    return Math.max(bought, position.tokenAmount);
+  }
+
+  // Steps already sold before a restart stay sold
+  private laddersHit(position: Position): Set<number> {
+    const steps = readJsonLines<ExitTrigger>(this.triggerLogPath)
+      .filter(
+        (t) =>
+          t.mint === position.mint &&
+          t.success &&
+          t.ladderStep !== undefined &&
+          t.timestamp >= position.openedAt
+      )
+      .map((t) => t.ladderStep!);
+    return new Set(steps);
+  }
+
+  private record(trigger: ExitTrigger): void {
+    appendJsonLine(this.triggerLogPath, trigger);
+    this.onTrigger?.(trigger);
+  }
+}
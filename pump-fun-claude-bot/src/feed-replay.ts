@@ -0,0 +1,150 @@
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as readline from "readline";
+import type {
+  NewTokenEvent,
+  RecordedFeedEvent,
+  TokenFeed,
+  TradeEvent,
+} from "./types.js";
+
+type EventCallback<T> = (event: T) => void;
+
+// "real" replays at recorded pace, a number is a speed multiplier and
+// "max" emits events back to back.
+export type ReplaySpeed = "real" | "max" | number;
+
+export function parseReplaySpeed(input: string): ReplaySpeed {
+  if (input === "real" || input === "max") return input;
+  const multiplier = parseFloat(input.replace(/x$/i, ""));
+  if (!(multiplier > 0)) {
+    throw new Error(`Invalid replay speed "${input}", expected real, max or a multiplier like 10x`);
+  }
+  return multiplier;
+}
+
+export async function readRecording(filePath: string): Promise<RecordedFeedEvent[]> {
+  const records: RecordedFeedEvent[] = [];
+  for await (const record of iterateRecording(filePath)) {
+    records.push(record);
+  }
+  return records;
+}
+
+async function* iterateRecording(filePath: string): AsyncGenerator<RecordedFeedEvent> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Recording not found: ${filePath}`);
+  }
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line) as RecordedFeedEvent;
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNumber} of ${filePath}`);
+    }
+  }
+}
+
+export class ReplayFeed implements TokenFeed {
+  private filePath: string;
+  private speed: ReplaySpeed;
+  private emitter = new EventEmitter();
+  private subscribedTokens: Set<string> = new Set();
+  private stopped = false;
+  private emitted = 0;
+
+  constructor(filePath: string, speed: ReplaySpeed = "real") {
+    this.filePath = filePath;
+    this.speed = speed;
+    this.emitter.setMaxListeners(0);
+  }
+
+  async connect(): Promise<void> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Recording not found: ${this.filePath}`);
+    }
+    console.log(`Replaying ${this.filePath} at ${this.describeSpeed()}`);
+  }
+
+  // Playback starts explicitly so callers can subscribe first
+  async start(): Promise<number> {
+    let previousAt: number | null = null;
+
+    for await (const record of iterateRecording(this.filePath)) {
+      if (this.stopped) break;
+
+      if (previousAt !== null) {
+        await this.wait(record.receivedAt - previousAt);
+      }
+      previousAt = record.receivedAt;
+      this.emit(record.event);
+    }
+
+    return this.emitted;
+  }
+
+  subscribeToNewTokens(callback: EventCallback<NewTokenEvent>): () => void {
+    this.emitter.on("newToken", callback);
+    return () => this.emitter.off("newToken", callback);
+  }
+
+  subscribeToToken(
+    mintAddress: string,
+    callback?: EventCallback<TradeEvent>
+  ): () => void {
+    const eventName = `trade:${mintAddress}`;
+    if (callback) {
+      this.emitter.on(eventName, callback);
+    }
+    this.subscribedTokens.add(mintAddress);
+
+    return () => {
+      if (callback) {
+        this.emitter.off(eventName, callback);
+      }
+      if (this.emitter.listenerCount(eventName) === 0) {
+        this.unsubscribeFromToken(mintAddress);
+      }
+    };
+  }
+
+  unsubscribeFromToken(mintAddress: string): void {
+    this.emitter.removeAllListeners(`trade:${mintAddress}`);
+    this.subscribedTokens.delete(mintAddress);
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+  }
+
+  private emit(event: NewTokenEvent | TradeEvent): void {
+    if (event.txType === "create") {
+      this.emitted++;
+      this.emitter.emit("newToken", event);
+    } else if (this.subscribedTokens.has(event.mint)) {
+      this.emitted++;
+      this.emitter.emit(`trade:${event.mint}`, event);
+    }
+  }
+
+  private wait(recordedGapMs: number): Promise<void> {
+    if (this.speed === "max" || recordedGapMs <= 0) {
+      // Yield so async handlers get a turn between events
+      return new Promise((resolve) => setImmediate(resolve));
+    }
+    const multiplier = this.speed === "real" ? 1 : this.speed;
+    return new Promise((resolve) => setTimeout(resolve, recordedGapMs / multiplier));
+  }
+
+  private describeSpeed(): string {
+    if (this.speed === "real") return "real speed";
+    if (this.speed === "max") return "max speed";
+    return `${this.speed}x speed`;
+  }
+}
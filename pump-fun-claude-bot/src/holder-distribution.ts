@@ -0,0 +1,87 @@
+import { Connection, PublicKey, type ParsedAccountData } from "@solana/web3.js";
+import { getAssociatedTokenAddress } from "@solana/spl-token";
+import type { HolderDistribution, PumpFunToken, TokenHolder } from "./types.js";
+
+// Wallets with this few signatures were most likely created for the launch
+const FRESH_WALLET_MAX_SIGNATURES = 10;
+const TOP_HOLDER_COUNT = 10;
+
+export class HolderAnalyzer {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  async getDistribution(token: PumpFunToken): Promise<HolderDistribution> {
+    const mint = new PublicKey(token.mint);
+    const totalSupply = token.total_supply;
+    const bondingCurveAccount =
+      token.associated_bonding_curve ||
+      (
+        await getAssociatedTokenAddress(mint, new PublicKey(token.bonding_curve), true)
+      ).toBase58();
+
+    const largest = await this.connection.getTokenLargestAccounts(mint);
+    const bondingCurveRaw = Number(
+      largest.value.find((a) => a.address.toBase58() === bondingCurveAccount)?.amount ?? 0
+    );
+    const accounts = largest.value
+      .filter((a) => a.address.toBase58() !== bondingCurveAccount && Number(a.amount) > 0)
+      .slice(0, TOP_HOLDER_COUNT);
+
+    const parsed = await this.connection.getMultipleParsedAccounts(
+      accounts.map((a) => a.address)
+    );
+    const owners = parsed.value.map((info) => {
+      const data = info?.data as ParsedAccountData | undefined;
+      return (data?.parsed?.info?.owner as string | undefined) ?? null;
+    });
+    const freshness = await Promise.all(
+      owners.map((owner) => (owner ? this.isFreshWallet(owner) : false))
+    );
+
+    const topHolders: TokenHolder[] = accounts.map((account, i) => ({
+      owner: owners[i] ?? "unknown",
+      tokenAccount: account.address.toBase58(),
+      amount: Number(account.amount) / 1e6,
+      pct: (Number(account.amount) / totalSupply) * 100,
+      freshWallet: freshness[i],
+      isCreator: owners[i] === token.creator,
+    }));
+
+    return {
+      mint: token.mint,
+      bondingCurvePct: (bondingCurveRaw / totalSupply) * 100,
+      top10Pct: topHolders.reduce((sum, h) => sum + h.pct, 0),
+      creatorPct: ((await this.getCreatorHolding(mint, token.creator)) / totalSupply) * 100,
+      freshWallets: topHolders.filter((h) => h.freshWallet).length,
+      topHolders,
+      fetchedAt: Date.now(),
+    };
+  }
+
+  // The creator may hold outside the largest accounts, so read their
+  // associated account directly. A missing account means nothing is held.
+  private async getCreatorHolding(mint: PublicKey, creator: string): Promise<number> {
+    try {
+      const ata = await getAssociatedTokenAddress(mint, new PublicKey(creator), true);
+      const balance = await this.connection.getTokenAccountBalance(ata);
+      return Number(balance.value.amount);
+    } catch {
+      return 0;
+    }
+  }
+
+  private async isFreshWallet(owner: string): Promise<boolean> {
+    try {
+      const signatures = await this.connection.getSignaturesForAddress(
+        new PublicKey(owner),
+        { limit: FRESH_WALLET_MAX_SIGNATURES + 1 }
+      );
+      return signatures.length <= FRESH_WALLET_MAX_SIGNATURES;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -3,13 +3,83 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import ora from "ora";
-import { config, validateConfig, validateTradingConfig } from "./config.js";
+import { PublicKey } from "@solana/web3.js";
+import {
+  config,
+  validateConfig,
+  validateTradingConfig,
+  validateWalletConfig,
+} from "./config.js";
 import { PumpFunAPI } from "./pumpfun-api.js";
 import { PumpFunWebSocket } from "./websocket-monitor.js";
+import { ReplayFeed, parseReplaySpeed, readRecording } from "./feed-replay.js";
+import { Backtester, tokenFromCreateEvent, type AnalysisMode } from "./backtester.js";
+import { dataPath } from "./storage.js";
 import { ClaudeAnalyzer } from "./claude-analyzer.js";
-import { SolanaTrader } from "./solana-trader.js";
-import type { NewTokenEvent, PumpFunToken } from "./types.js";
+import {
+  curveFromToken,
+  DEFAULT_FEE_BPS,
+  fromBaseUnits,
+  graduationProgressPct,
+  marketCapSol,
+  quoteBuy,
+  quoteSell,
+  solToReachMarketCap,
+  spotPriceSol,
+  toBaseUnits,
+  TOKEN_DECIMALS,
+  type BuyQuote,
+  type SellQuote,
+} from "./bonding-curve.js";
+import { CreatorProfiler } from "./creator-profile.js";
+import { HolderAnalyzer } from "./holder-distribution.js";
+import { curveFromState } from "./pump-accounts.js";
+import {
+  poolSpotPriceSol,
+  quotePoolBuy,
+  quotePoolSell,
+  type PumpSwapMarket,
+} from "./pump-swap.js";
+import { UsageTracker, type UsageTotals } from "./usage-tracker.js";
+import { SolanaTrader, parseBuyAmount, parseSellAmount } from "./solana-trader.js";
+import { ENV_WALLET_NAME, Keystore, parseSecretKey } from "./keystore.js";
+import { PortfolioTracker } from "./portfolio.js";
+import { ApiServer } from "./api-server.js";
+import { AlertManager, loadAlertConfig } from "./alerts.js";
+import { checkTokenFilter, filterNeedsToken, loadTokenFilter } from "./token-filter.js";
+import { Watchlist } from "./watchlist.js";
+import { WatchMonitor } from "./watch-monitor.js";
+import { PositionLedger } from "./position-ledger.js";
+import { RiskManager } from "./risk-manager.js";
+import { AutoTrader } from "./autotrader.js";
+import { ExitManager } from "./exit-manager.js";
+import {
+  loadEntryRules,
+  loadExitRules,
+  parseTakeProfitLadder,
+} from "./strategy.js";
+import type {
+  BacktestReport,
+  ConnectionState,
+  CreatorProfile,
+  EntryRules,
+  ExitRules,
+  ExitTrigger,
+  HolderDistribution,
+  NewTokenEvent,
+  PortfolioSnapshot,
+  PumpFunToken,
+  TokenFeed,
+  TokenFilterRule,
+  TradeResult,
+  TradeTiming,
+  WatchStatus,
+} from "./types.js";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as readline from "readline";
+import { Writable } from "stream";
 
 const program = new Command();
 
@@ -19,23 +89,39 @@ program
   .version("1.0.0");
 
 // Monitor command - watch for new tokens
-program
-  .command("monitor")
-  .description("Monitor new token launches on pump.fun")
+withFeedOptions(
+  program
+    .command("monitor")
+    .description("Monitor new token launches on pump.fun")
+)
   .option("-a, --analyze", "Auto-analyze new tokens with Claude")
   .option("-f, --filter <minMcap>", "Minimum market cap in SOL", "0")
+  .option("--max-creator-launches <n>", "Skip tokens whose creator has more prior launches")
+  .option("--rules <file>", "JSON file of launch filters, checked before any Claude call")
+  .option("--alerts <file>", "JSON file with alert sinks and rules")
   .action(async (options) => {
     console.log(chalk.cyan("\n🔍 Starting pump.fun token monitor...\n"));
 
     if (options.analyze) {
       validateConfig();
     }
+    const tokenFilter: TokenFilterRule | null = options.rules
+      ? loadTokenFilter(options.rules)
+      : null;
+    const alerts = createAlerts(options);
 
-    const ws = new PumpFunWebSocket();
+    const ws = createFeed(options);
     const api = new PumpFunAPI();
     const analyzer = options.analyze ? new ClaudeAnalyzer() : null;
+    const profiler = new CreatorProfiler(api);
+    const maxCreatorLaunches = options.maxCreatorLaunches
+      ? parseInt(options.maxCreatorLaunches)
+      : null;
 
     await ws.connect();
+    if (options.replay && maxCreatorLaunches !== null) {
+      console.log(chalk.yellow("   Creator rules are not checked when replaying\n"));
+    }
 
     ws.subscribeToNewTokens(async (event: NewTokenEvent) => {
       console.log(chalk.green("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"));
@@ -47,7 +133,7 @@ program
         chalk.white(`   Market Cap: ${event.marketCapSol.toFixed(4)} SOL`)
       );
       console.log(
-        chalk.white(`   Initial Buy: ${event.initialBuy.toFixed(4)} SOL`)
+        chalk.white(`   Initial Buy: ${event.solAmount.toFixed(4)} SOL`)
       );
 
       if (
@@ -58,13 +144,57 @@ program
         return;
       }
 
+      // Kept for the analysis when the rules already needed it. A replay
+      // uses the token as recorded at launch, not as the API has it now.
+      let token: PumpFunToken | null = options.replay
+        ? tokenFromCreateEvent(event, Date.now())
+        : null;
+      if (tokenFilter) {
+        if (!token && filterNeedsToken(tokenFilter)) {
+          token = await api.getToken(event.mint);
+        }
+        const rejection = checkTokenFilter(tokenFilter, { event, token });
+        if (rejection) {
+          console.log(chalk.gray(`   [Skipped - ${rejection}]`));
+          return;
+        }
+      }
+
+      let creatorProfile: CreatorProfile | undefined;
+      if (!options.replay && (maxCreatorLaunches !== null || analyzer)) {
+        try {
+          creatorProfile = await profiler.getProfile(event.traderPublicKey, event.mint);
+          console.log(chalk.white(`   Creator: ${describeCreatorProfile(creatorProfile)}`));
+        } catch {
+          if (maxCreatorLaunches !== null) {
+            console.log(chalk.gray(`   [Skipped - creator history unavailable]`));
+            return;
+          }
+          console.log(chalk.gray(`   [Creator history unavailable]`));
+        }
+      }
+      if (
+        creatorProfile &&
+        maxCreatorLaunches !== null &&
+        creatorProfile.priorLaunches > maxCreatorLaunches
+      ) {
+        console.log(chalk.gray(`   [Skipped - creator has too many prior launches]`));
+        return;
+      }
+      alerts?.newToken(event, creatorProfile);
+
       if (analyzer) {
         const spinner = ora("Analyzing with Claude...").start();
         try {
-          const token = await api.getToken(event.mint);
+          token ??= await api.getToken(event.mint);
           if (token) {
-            const analysis = await analyzer.analyzeToken(token);
+            const analysis = await analyzer.analyzeToken(token, { creatorProfile });
+            if (analysis.status === "failed") {
+              spinner.fail(`Analysis failed: ${analysis.error}`);
+              return;
+            }
             spinner.stop();
+            alerts?.analysis(analysis);
             console.log(chalk.cyan("\n📊 Claude Analysis:"));
             console.log(
               chalk.white(`   Risk Score: ${getRiskColor(analysis.riskScore)}`)
@@ -88,9 +218,14 @@ program
     });
 
     console.log(chalk.gray("Press Ctrl+C to stop monitoring\n"));
+    startReplay(ws);
 
-    process.on("SIGINT", () => {
+    process.on("SIGINT", async () => {
       console.log(chalk.yellow("\nStopping monitor..."));
+      if (analyzer) {
+        console.log(chalk.gray(`Claude usage this session: ${formatUsage(analyzer.usage.sessionTotals)}`));
+      }
+      await alerts?.flush();
       ws.disconnect();
       process.exit(0);
     });
@@ -101,12 +236,13 @@ program
   .command("analyze <mintAddress>")
   .description("Analyze a specific token with Claude AI")
   .option("-q, --question <question>", "Ask a specific question about the token")
+  .option("--fresh", "Ignore cached analyses")
   .action(async (mintAddress: string, options) => {
     validateConfig();
 
     const spinner = ora("Fetching token data...").start();
     const api = new PumpFunAPI();
-    const analyzer = new ClaudeAnalyzer();
+    const analyzer = new ClaudeAnalyzer(options.fresh ? { cache: null } : {});
 
     const token = await api.getToken(mintAddress);
 
@@ -115,6 +251,22 @@ program
       return;
     }
 
+    spinner.text = "Fetching creator history...";
+    let creatorProfile: CreatorProfile | undefined;
+    try {
+      creatorProfile = await new CreatorProfiler(api).getProfile(token.creator, token.mint);
+    } catch {
+      // The analysis is still useful without creator history
+    }
+
+    spinner.text = "Fetching holder distribution...";
+    let holders: HolderDistribution | undefined;
+    try {
+      holders = await new HolderAnalyzer(new SolanaTrader().connection).getDistribution(token);
+    } catch {
+      // Same for holders when the RPC is unavailable
+    }
+
     spinner.text = "Analyzing with Claude...";
 
     try {
@@ -123,14 +275,25 @@ program
         spinner.stop();
         console.log(chalk.cyan("\n📊 Token Info:"));
         printTokenInfo(token);
+        printCreatorProfile(creatorProfile);
+        printHolderDistribution(holders);
         console.log(chalk.cyan("\n💬 Claude's Answer:"));
         console.log(chalk.white(answer));
       } else {
-        const analysis = await analyzer.analyzeToken(token);
+        const analysis = await analyzer.analyzeToken(token, {
+          creatorProfile,
+          holders,
+        });
+        if (analysis.status === "failed") {
+          spinner.fail(`Analysis failed: ${analysis.error}`);
+          return;
+        }
         spinner.stop();
         console.log(chalk.cyan("\n📊 Token Analysis:"));
         printTokenInfo(token);
-        console.log(chalk.cyan("\n🤖 Claude's Analysis:"));
+        printCreatorProfile(creatorProfile);
+        printHolderDistribution(holders);
+        console.log(chalk.cyan(`\n🤖 Claude's Analysis:${formatCachedAt(analysis.cachedAt)}`));
         console.log(
           chalk.white(`   Risk Score: ${getRiskColor(analysis.riskScore)}`)
         );
@@ -152,6 +315,9 @@ program
           chalk.yellow(`\n   📝 Recommendation: ${analysis.recommendation}`)
         );
       }
+      if (analyzer.usage.sessionTotals.calls > 0) {
+        console.log(chalk.gray(`\n   Claude usage: ${formatUsage(analyzer.usage.sessionTotals)}`));
+      }
     } catch (error) {
       spinner.fail("Analysis failed");
       console.error(error);
@@ -201,7 +367,7 @@ program
         analyzeSpinner.stop();
         console.log(chalk.cyan("\n🤖 Claude's Comparison:\n"));
         console.log(chalk.white(comparison));
-      } catch (error) {
+      } catch {
         analyzeSpinner.fail("Comparison failed");
       }
     }
@@ -236,18 +402,273 @@ program
     });
   });
 
+// Quote command - expected fill for a buy or sell without trading
+program
+  .command("quote <mintAddress> <amount> [unit]")
+  .description("Quote a buy with <amount> SOL, or a sell of <amount> tokens")
+  .option("--slippage <bps>", "Slippage tolerance in basis points")
+  .option("--target-mcap <sol>", "Also show the SOL needed to reach a market cap")
+  .action(async (mintAddress: string, amountInput: string, unit = "sol", options) => {
+    if (unit !== "sol" && unit !== "tokens") {
+      console.log(chalk.red(`Unit must be "sol" or "tokens", got "${unit}"`));
+      return;
+    }
+    const amount = parseFloat(amountInput);
+    if (!(amount > 0)) {
+      console.log(chalk.red(`Invalid amount: ${amountInput}`));
+      return;
+    }
+    const slippageBps = options.slippage ? parseInt(options.slippage) : config.slippageBps;
+
+    const spinner = ora("Fetching token data...").start();
+    const api = new PumpFunAPI();
+    const token = await api.getToken(mintAddress);
+    if (!token) {
+      spinner.fail("Token not found");
+      return;
+    }
+
+    spinner.text = "Reading bonding curve...";
+    const trader = new SolanaTrader();
+    const accounts = trader.accounts;
+    let curve = curveFromToken(token);
+    let feeBps = DEFAULT_FEE_BPS;
+    let complete = token.complete;
+    let source = "on-chain";
+    try {
+      const [curveState, global] = await Promise.all([
+        accounts.getBondingCurve(token.bonding_curve),
+        accounts.getGlobal(),
+      ]);
+      curve = curveFromState(curveState);
+      feeBps = global.feeBasisPoints;
+      complete = curveState.complete;
+    } catch {
+      source = "API (on-chain read failed)";
+    }
+
+    const totalSupply = BigInt(Math.floor(token.total_supply));
+    let buyQuote: BuyQuote | undefined;
+    let sellQuote: SellQuote | undefined;
+    if (complete) {
+      // Graduated tokens are quoted against the pool they migrated to
+      spinner.text = "Reading PumpSwap pool...";
+      let market: PumpSwapMarket;
+      try {
+        market = await trader.pumpSwap.loadMarket(token);
+      } catch (error) {
+        spinner.fail(error instanceof Error ? error.message : "Could not read the pool");
+        return;
+      }
+      spinner.stop();
+
+      const { lpFeeBps, protocolFeeBps, coinCreatorFeeBps } = market.config;
+      const price = poolSpotPriceSol(market.reserves);
+      console.log(chalk.cyan(`\n🧾 Quote for ${token.name} (${token.symbol}):\n`));
+      console.log(
+        chalk.gray(
+          `   PumpSwap pool ${market.pool.address.toBase58()}, fee ${lpFeeBps + protocolFeeBps + coinCreatorFeeBps} bps`
+        )
+      );
+      console.log(chalk.white(`   Spot Price: ${price.toExponential(4)} SOL`));
+      console.log(
+        chalk.white(
+          `   Market Cap: ${(price * fromBaseUnits(totalSupply, TOKEN_DECIMALS)).toFixed(2)} SOL`
+        )
+      );
+      if (unit === "sol") {
+        buyQuote = quotePoolBuy(market, toBaseUnits(amount, 9), slippageBps);
+      } else {
+        sellQuote = quotePoolSell(market, toBaseUnits(amount, TOKEN_DECIMALS), slippageBps);
+      }
+    } else {
+      spinner.stop();
+      console.log(chalk.cyan(`\n🧾 Quote for ${token.name} (${token.symbol}):\n`));
+      console.log(chalk.gray(`   Reserves: ${source}, fee ${feeBps} bps`));
+      console.log(chalk.white(`   Spot Price: ${spotPriceSol(curve).toExponential(4)} SOL`));
+      console.log(
+        chalk.white(`   Market Cap: ${marketCapSol(curve, totalSupply).toFixed(2)} SOL`)
+      );
+      console.log(
+        chalk.white(`   Graduation Progress: ${graduationProgressPct(curve).toFixed(1)}%`)
+      );
+      if (unit === "sol") {
+        buyQuote = quoteBuy(curve, toBaseUnits(amount, 9), slippageBps, feeBps);
+      } else {
+        sellQuote = quoteSell(curve, toBaseUnits(amount, TOKEN_DECIMALS), slippageBps, feeBps);
+      }
+    }
+
+    if (buyQuote) {
+      console.log(chalk.green(`\n   Buy with ${amount} SOL`));
+      console.log(chalk.white(`   Fee: ${fromBaseUnits(buyQuote.fee, 9).toFixed(6)} SOL`));
+      console.log(
+        chalk.white(
+          `   Expected Tokens: ${fromBaseUnits(buyQuote.tokensOut, TOKEN_DECIMALS).toFixed(2)}`
+        )
+      );
+      console.log(
+        chalk.white(
+          `   Min Tokens (${slippageBps} bps): ${fromBaseUnits(buyQuote.minTokensOut, TOKEN_DECIMALS).toFixed(2)}`
+        )
+      );
+      console.log(
+        chalk.white(`   Max SOL Cost: ${fromBaseUnits(buyQuote.maxSolCost, 9).toFixed(6)} SOL`)
+      );
+      console.log(chalk.white(`   Price Impact: ${buyQuote.priceImpactPct.toFixed(2)}%`));
+    } else if (sellQuote) {
+      console.log(chalk.red(`\n   Sell ${amount} tokens`));
+      console.log(chalk.white(`   Fee: ${fromBaseUnits(sellQuote.fee, 9).toFixed(6)} SOL`));
+      console.log(
+        chalk.white(`   Expected SOL: ${fromBaseUnits(sellQuote.solOut, 9).toFixed(6)}`)
+      );
+      console.log(
+        chalk.white(
+          `   Min SOL (${slippageBps} bps): ${fromBaseUnits(sellQuote.minSolOut, 9).toFixed(6)}`
+        )
+      );
+      console.log(chalk.white(`   Price Impact: ${sellQuote.priceImpactPct.toFixed(2)}%`));
+    }
+
+    if (options.targetMcap && !complete) {
+      const target = parseFloat(options.targetMcap);
+      const needed = solToReachMarketCap(curve, target, totalSupply, feeBps);
+      console.log(
+        chalk.white(
+          `\n   SOL to reach ${target} SOL market cap: ${fromBaseUnits(needed, 9).toFixed(4)}`
+        )
+      );
+    }
+  });
+
+// Buy and sell commands - one-off trades
+program
+  .command("buy <mintAddress> <solAmount>")
+  .description("Buy a token with SOL")
+  .option("-p, --paper", "Trade against the paper wallet")
+  .option("-w, --wallet <name>", "Keystore wallet to trade with")
+  .option("--dry-run", "Simulate the transaction without sending it")
+  .option("--logs", "Print the simulation's program logs")
+  .action(async (mintAddress: string, amountInput: string, options) => {
+    const solAmount = parseBuyInput(amountInput);
+    if (solAmount === null) return;
+    const prepared = await prepareOneOffTrade(mintAddress, options);
+    if (!prepared) return;
+    const { trader, token } = prepared;
+
+    const spinner = ora(
+      `${options.dryRun ? "Simulating" : "Buying"} ${token.symbol} for ${solAmount} SOL...`
+    ).start();
+    const result = await trader.buyToken(token, solAmount, {
+      dryRun: options.dryRun,
+    });
+    spinner.stop();
+    printTradeResult("buy", result, options.logs);
+  });
+
+program
+  .command("sell <mintAddress> <amount>")
+  .description("Sell tokens: an amount, a percentage like 50%, all, or a SOL target like 0.5sol")
+  .option("-p, --paper", "Trade against the paper wallet")
+  .option("-w, --wallet <name>", "Keystore wallet to trade with")
+  .option("--dry-run", "Simulate the transaction without sending it")
+  .option("--logs", "Print the simulation's program logs")
+  .action(async (mintAddress: string, amountInput: string, options) => {
+    const prepared = await prepareOneOffTrade(mintAddress, options);
+    if (!prepared) return;
+    const { trader, token } = prepared;
+
+    const tokenAmount = await resolveSellInput(trader, token, amountInput);
+    if (tokenAmount === null) return;
+
+    const spinner = ora(
+      `${options.dryRun ? "Simulating" : "Selling"} ${tokenAmount} ${token.symbol}...`
+    ).start();
+    const result = await trader.sellToken(token, tokenAmount, {
+      dryRun: options.dryRun,
+    });
+    spinner.stop();
+    printTradeResult("sell", result, options.logs);
+  });
+
+// Reclaim command - close empty token accounts for their rent
+program
+  .command("reclaim")
+  .description("Close every empty token account in the wallet to recover rent")
+  .option("-w, --wallet <name>", "Keystore wallet to sweep")
+  .option("--dry-run", "Simulate the closes without sending them")
+  .action(async (options) => {
+    const walletName = selectWallet(options);
+    if (!walletName && !config.solanaPrivateKey) {
+      console.log(chalk.red("A wallet is required: create one with `wallet create`"));
+      return;
+    }
+    const trader = new SolanaTrader({ wallet: walletName });
+    await initializeTraderWallet(trader, walletName);
+
+    const spinner = ora("Finding empty token accounts...").start();
+    let result;
+    try {
+      result = await trader.reclaimRent({ dryRun: options.dryRun });
+    } catch (error) {
+      spinner.fail("Could not reclaim rent");
+      console.error(error instanceof Error ? error.message : error);
+      return;
+    }
+    spinner.stop();
+
+    if (result.emptyAccounts === 0) {
+      console.log(chalk.yellow("No empty token accounts to close"));
+      return;
+    }
+    console.log(
+      chalk.green(
+        `✅ ${result.dryRun ? "Simulated closing" : "Closed"} ${result.closed}/${result.emptyAccounts} empty accounts, ${result.dryRun ? "would reclaim" : "reclaimed"} ${result.rentSol.toFixed(6)} SOL`
+      )
+    );
+    result.signatures.forEach((signature) =>
+      console.log(chalk.gray(`   Signature: ${signature}`))
+    );
+    result.errors.forEach((error) => console.log(chalk.red(`   Failed batch: ${error}`)));
+  });
+
 // Trade command
 program
   .command("trade")
   .description("Interactive trading mode")
-  .action(async () => {
-    validateTradingConfig();
+  .option("-p, --paper", "Paper trade against a simulated wallet")
+  .option("--paper-reset [sol]", "Reset the paper wallet before trading")
+  .option("-w, --wallet <name>", "Keystore wallet to trade with")
+  .option("--dry-run", "Simulate buys and sells without sending them")
+  .action(async (options) => {
+    const walletName = selectWallet(options);
+    if (options.paper) {
+      validateConfig();
+    } else {
+      validateTradingConfig(walletName);
+    }
 
-    const trader = new SolanaTrader();
+    const trader = new SolanaTrader({ paper: options.paper, wallet: walletName });
     const api = new PumpFunAPI();
     const analyzer = new ClaudeAnalyzer();
 
-    trader.initializeWallet();
+    await initializeTraderWallet(trader, walletName);
+
+    if (options.paper && options.paperReset) {
+      trader.resetPaperWallet(
+        typeof options.paperReset === "string"
+          ? parseFloat(options.paperReset)
+          : undefined
+      );
+      console.log(chalk.yellow("Paper wallet reset"));
+    }
+
+    if (trader.isPaper) {
+      console.log(chalk.magenta("\n📝 PAPER TRADING - no real transactions will be sent"));
+    }
+    if (options.dryRun) {
+      console.log(chalk.magenta("\n🧪 DRY RUN - trades stop after simulation"));
+    }
 
     const balance = await trader.getBalance();
     console.log(chalk.cyan(`\n💰 Wallet Balance: ${balance.toFixed(4)} SOL\n`));
@@ -269,44 +690,40 @@ program
               console.log(chalk.red("Usage: buy <mintAddress> <solAmount>"));
               break;
             }
-            const [mint, amount] = args;
+            const [mint, amountInput] = args;
+            const amount = parseBuyInput(amountInput);
+            if (amount === null) break;
             const token = await api.getToken(mint);
             if (!token) {
               console.log(chalk.red("Token not found"));
               break;
             }
             console.log(chalk.yellow(`\nBuying ${token.name} for ${amount} SOL...`));
-            const result = await trader.buyToken(token, parseFloat(amount));
-            if (result.success) {
-              console.log(chalk.green(`✅ Buy successful!`));
-              console.log(chalk.gray(`   Signature: ${result.signature}`));
-              console.log(chalk.gray(`   Tokens received: ~${result.amountOut?.toFixed(2)}M`));
-            } else {
-              console.log(chalk.red(`❌ Buy failed: ${result.error}`));
-            }
+            const result = await trader.buyToken(token, amount, {
+              dryRun: options.dryRun,
+            });
+            printTradeResult("buy", result);
             break;
           }
 
           case "sell": {
             if (args.length < 2) {
-              console.log(chalk.red("Usage: sell <mintAddress> <tokenAmount>"));
+              console.log(chalk.red("Usage: sell <mintAddress> <tokens|50%|all|0.5sol>"));
               break;
             }
-            const [mintAddr, tokenAmt] = args;
+            const [mintAddr, amountInput] = args;
             const tokenData = await api.getToken(mintAddr);
             if (!tokenData) {
               console.log(chalk.red("Token not found"));
               break;
             }
+            const tokenAmt = await resolveSellInput(trader, tokenData, amountInput);
+            if (tokenAmt === null) break;
             console.log(chalk.yellow(`\nSelling ${tokenAmt} ${tokenData.symbol}...`));
-            const sellResult = await trader.sellToken(tokenData, parseFloat(tokenAmt));
-            if (sellResult.success) {
-              console.log(chalk.green(`✅ Sell successful!`));
-              console.log(chalk.gray(`   Signature: ${sellResult.signature}`));
-              console.log(chalk.gray(`   SOL received: ~${sellResult.amountOut?.toFixed(4)}`));
-            } else {
-              console.log(chalk.red(`❌ Sell failed: ${sellResult.error}`));
-            }
+            const sellResult = await trader.sellToken(tokenData, tokenAmt, {
+              dryRun: options.dryRun,
+            });
+            printTradeResult("sell", sellResult);
             break;
           }
 
@@ -322,6 +739,10 @@ program
             }
             const spinner = ora("Analyzing...").start();
             const analysis = await analyzer.analyzeToken(tokenInfo);
+            if (analysis.status === "failed") {
+              spinner.fail(`Analysis failed: ${analysis.error}`);
+              break;
+            }
             spinner.stop();
             console.log(chalk.cyan(`\nAnalysis for ${tokenInfo.name}:`));
             console.log(chalk.white(`Risk Score: ${getRiskColor(analysis.riskScore)}`));
@@ -341,6 +762,7 @@ program
             console.log(chalk.yellow("Goodbye!"));
             rl.close();
             process.exit(0);
+            break;
 
           default:
             console.log(chalk.gray("Commands: buy, sell, analyze, balance, quit"));
@@ -353,6 +775,329 @@ program
     prompt();
   });
 
+// Autotrade command - analyze new launches and buy the ones that pass the rules
+withFeedOptions(
+  withExitRuleOptions(
+    program
+      .command("autotrade")
+      .description("Automatically analyze new tokens and buy those matching entry rules")
+  )
+)
+  .option("-p, --paper", "Paper trade against a simulated wallet")
+  .option("-w, --wallet <name>", "Keystore wallet to trade with")
+  .option("-x, --exits", "Manage exits for bought tokens with the exit rules")
+  .option("--account-updates", "With --exits, also price positions from bonding curve account changes")
+  .option("-s, --strategy <file>", "JSON file with entry rules")
+  .option("--max-risk <score>", "Maximum Claude risk score to buy")
+  .option("--sentiment <list>", "Allowed sentiments, comma separated")
+  .option("--min-mcap <sol>", "Minimum market cap in SOL")
+  .option("--max-mcap <sol>", "Maximum market cap in SOL")
+  .option("--max-creator-launches <n>", "Maximum prior launches by the token's creator")
+  .option("--alerts <file>", "JSON file with alert sinks and rules")
+  .action(async (options) => {
+    if (options.replay && !options.paper) {
+      console.log(chalk.red("Replaying a recording requires --paper"));
+      return;
+    }
+    const walletName = selectWallet(options);
+    if (options.paper) {
+      validateConfig();
+    } else {
+      validateTradingConfig(walletName);
+    }
+
+    const rules: EntryRules = loadEntryRules(options.strategy);
+    if (options.maxRisk) rules.maxRiskScore = parseFloat(options.maxRisk);
+    if (options.sentiment) {
+      rules.sentiments = options.sentiment
+        .split(",")
+        .map((s: string) => s.trim()) as EntryRules["sentiments"];
+    }
+    if (options.minMcap) rules.minMarketCapSol = parseFloat(options.minMcap);
+    if (options.maxMcap) rules.maxMarketCapSol = parseFloat(options.maxMcap);
+    if (options.maxCreatorLaunches) {
+      rules.maxCreatorLaunches = parseInt(options.maxCreatorLaunches);
+    }
+
+    const alerts = createAlerts(options);
+    // A replay trades a throwaway paper wallet and ledger, so it never
+    // touches the paper session's positions, logs or risk state
+    const replayDir = options.replay
+      ? fs.mkdtempSync(path.join(os.tmpdir(), "pump-bot-replay-"))
+      : null;
+    const replayPath = (fileName: string) =>
+      replayDir ? path.join(replayDir, fileName) : undefined;
+    const replayLedger = replayDir
+      ? new PositionLedger({ filePath: path.join(replayDir, "ledger.json") })
+      : undefined;
+    const trader = new SolanaTrader({
+      paper: options.paper,
+      paperWalletPath: replayPath("paper-wallet.json"),
+      wallet: walletName,
+      ledger: replayLedger,
+      risk: replayLedger
+        ? new RiskManager(replayLedger, { killSwitchPath: replayPath("kill-switch.json") })
+        : undefined,
+      onFill: alerts ? (fill) => alerts.fill(fill) : undefined,
+    });
+    await initializeTraderWallet(trader, walletName);
+
+    console.log(chalk.cyan("\n🤖 Starting autotrader...\n"));
+    if (trader.isPaper) {
+      console.log(chalk.magenta("📝 PAPER TRADING - no real transactions will be sent"));
+    }
+    if (replayDir) {
+      console.log(chalk.gray(`   Replay wallet, ledger and logs: ${replayDir}`));
+    }
+    console.log(chalk.gray(`   Max risk: ${rules.maxRiskScore}`));
+    console.log(chalk.gray(`   Sentiments: ${rules.sentiments.join(", ")}`));
+    console.log(
+      chalk.gray(`   Flags: >= ${rules.minGreenFlags} green, <= ${rules.maxRedFlags} red`)
+    );
+    console.log(
+      chalk.gray(
+        `   Market cap: ${rules.minMarketCapSol} - ${rules.maxMarketCapSol ?? "∞"} SOL`
+      )
+    );
+    if (rules.maxCreatorLaunches !== null) {
+      console.log(chalk.gray(`   Creator: <= ${rules.maxCreatorLaunches} prior launches`));
+    }
+    console.log(
+      chalk.gray(
+        `   Buy size: low ${rules.buySizeByRisk.low} / medium ${rules.buySizeByRisk.medium} / high ${rules.buySizeByRisk.high} SOL\n`
+      )
+    );
+
+    const ws = createFeed(options);
+    const api = new PumpFunAPI();
+    await ws.connect();
+
+    // A replay trades the tokens as recorded at launch, not as they are now
+    const replayTokens = new Map<string, PumpFunToken>();
+    if (options.replay) {
+      ws.subscribeToNewTokens((event) =>
+        replayTokens.set(event.mint, tokenFromCreateEvent(event, Date.now()))
+      );
+      if (rules.maxCreatorLaunches !== null) {
+        console.log(chalk.yellow("   Creator rules are not checked when replaying\n"));
+      }
+    }
+
+    const exitManager = options.exits
+      ? new ExitManager(ws, api, trader, buildExitRules(options), {
+          triggerLogPath: replayPath("exits.jsonl"),
+          // Live account changes would not match a replayed feed
+          accountUpdates:
+            options.accountUpdates && !options.replay ? trader.accounts : undefined,
+          getToken: options.replay
+            ? async (mint) => replayTokens.get(mint) ?? null
+            : undefined,
+          onTrigger: (trigger) => {
+            printExitTrigger(trigger);
+            alerts?.exit(trigger);
+          },
+        })
+      : null;
+    if (exitManager) {
+      console.log(chalk.gray(`   Exits: ${describeExitRules(buildExitRules(options))}\n`));
+    }
+
+    const analyzer = new ClaudeAnalyzer();
+    const autoTrader = new AutoTrader(
+      ws,
+      api,
+      analyzer,
+      trader,
+      rules,
+      {
+        decisionLogPath: replayPath("decisions.jsonl"),
+        onDecision: (decision) => {
+          const label = `${decision.symbol} (${decision.mint.slice(0, 8)}…)`;
+          if (decision.action === "buy") {
+            console.log(
+              chalk.green(`✅ BUY  ${label} ${decision.solAmount} SOL - ${decision.reason}`)
+            );
+            console.log(chalk.gray(`   Signature: ${decision.signature}`));
+            const position = trader.ledger.getPosition(decision.mint);
+            if (exitManager && position) {
+              exitManager.track(position).catch((error) =>
+                console.error(`Could not manage exits for ${decision.mint}:`, error)
+              );
+            }
+          } else {
+            console.log(chalk.gray(`⏭️  SKIP ${label} - ${decision.reason}`));
+          }
+        },
+        onAnalysis: alerts ? (analysis) => alerts.analysis(analysis) : undefined,
+        replay: Boolean(options.replay),
+      }
+    );
+    autoTrader.start();
+
+    console.log(chalk.gray("Press Ctrl+C to stop\n"));
+    startReplay(ws);
+
+    process.on("SIGINT", async () => {
+      console.log(chalk.yellow("\nStopping autotrader..."));
+      console.log(chalk.gray(`Claude usage this session: ${formatUsage(analyzer.usage.sessionTotals)}`));
+      exitManager?.stop();
+      await alerts?.flush();
+      ws.disconnect();
+      process.exit(0);
+    });
+  });
+
+// Manage command - watch held positions and exit them by rule
+withExitRuleOptions(
+  program
+    .command("manage")
+    .description("Watch open positions and sell on stop-loss, take-profit, trailing-stop or max hold")
+)
+  .option("-p, --paper", "Manage paper trading positions")
+  .option("-w, --wallet <name>", "Keystore wallet to sell from")
+  .option("--account-updates", "Also price positions from bonding curve account changes")
+  .option("--alerts <file>", "JSON file with alert sinks and rules")
+  .action(async (options) => {
+    const walletName = selectWallet(options);
+    if (!options.paper) {
+      validateWalletConfig(walletName);
+    }
+
+    const rules = buildExitRules(options);
+    const alerts = createAlerts(options);
+    const trader = new SolanaTrader({
+      paper: options.paper,
+      wallet: walletName,
+      onFill: alerts ? (fill) => alerts.fill(fill) : undefined,
+    });
+    await initializeTraderWallet(trader, walletName);
+
+    const positions = trader.ledger.getOpenPositions();
+    if (positions.length === 0) {
+      console.log(chalk.yellow("No open positions to manage"));
+      return;
+    }
+
+    const ws = new PumpFunWebSocket();
+    const api = new PumpFunAPI();
+    showConnectionState(ws);
+    await ws.connect();
+
+    const exitManager = new ExitManager(ws, api, trader, rules, {
+      accountUpdates: options.accountUpdates ? trader.accounts : undefined,
+      onTrigger: (trigger) => {
+        printExitTrigger(trigger);
+        alerts?.exit(trigger);
+      },
+    });
+
+    console.log(chalk.cyan("\n🛡️  Managing exits...\n"));
+    console.log(chalk.gray(`   Rules: ${describeExitRules(rules)}\n`));
+
+    for (const position of positions) {
+      const tracked = await exitManager.track(position);
+      console.log(
+        tracked
+          ? chalk.white(`   Watching ${position.symbol} (${position.tokenAmount.toFixed(2)} tokens)`)
+          : chalk.red(`   Could not load ${position.symbol} (${position.mint})`)
+      );
+    }
+
+    console.log(chalk.gray("\nPress Ctrl+C to stop\n"));
+
+    process.on("SIGINT", async () => {
+      console.log(chalk.yellow("\nStopping exit manager..."));
+      exitManager.stop();
+      await alerts?.flush();
+      ws.disconnect();
+      process.exit(0);
+    });
+  });
+
+// Backtest command - run entry and exit rules over a recorded feed
+withExitRuleOptions(
+  program
+    .command("backtest <recording>")
+    .description("Simulate a strategy over a recorded feed of launches and trades")
+)
+  .option("-s, --strategy <file>", "JSON file with entry rules")
+  .option(
+    "--analysis <mode>",
+    "Claude verdicts: none (market rules only), cached, or claude",
+    "none"
+  )
+  .option("--analysis-cache <file>", "Analysis cache file for cached/claude modes")
+  .option("--starting-sol <sol>", "Starting simulated SOL balance")
+  .option("--json", "Print the full report as JSON")
+  .action(async (recording: string, options) => {
+    const analysisMode = options.analysis as AnalysisMode;
+    if (!["none", "cached", "claude"].includes(analysisMode)) {
+      console.log(chalk.red(`Unknown analysis mode "${options.analysis}"`));
+      return;
+    }
+    if (analysisMode === "claude") {
+      validateConfig();
+    }
+
+    const spinner = ora("Loading recording...").start();
+    const records = await readRecording(recording);
+    spinner.text = `Simulating ${records.length} events...`;
+
+    const backtester = new Backtester({
+      entryRules: loadEntryRules(options.strategy),
+      exitRules: buildExitRules(options),
+      analysisMode,
+      analysisCachePath:
+        options.analysisCache ?? dataPath("backtest-analyses.json"),
+      // The backtest keeps its own verdict cache keyed by mint
+      analyzer: analysisMode === "claude" ? new ClaudeAnalyzer({ cache: null }) : undefined,
+      startingSol: options.startingSol ? parseFloat(options.startingSol) : undefined,
+    });
+    let report: BacktestReport;
+    try {
+      report = await backtester.run(records);
+    } catch (error) {
+      spinner.fail(error instanceof Error ? error.message : "Backtest failed");
+      return;
+    }
+    spinner.stop();
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(chalk.cyan("\n🧪 Backtest Results:\n"));
+    console.log(chalk.white(`   Events: ${report.events}`));
+    console.log(chalk.white(`   Tokens seen: ${report.tokensSeen}`));
+    console.log(chalk.white(`   Trades taken: ${report.tradesTaken} (${report.skipped} skipped)`));
+    console.log(
+      chalk.white(
+        `   Win rate: ${report.winRate.toFixed(1)}% (${report.wins} won / ${report.losses} lost)`
+      )
+    );
+    console.log(chalk.white(`   Closed PnL: ${formatPnl(report.closedPnlSol)}`));
+    console.log(chalk.white(`   Open PnL (marked): ${formatPnl(report.openPnlSol)}`));
+    console.log(chalk.white(`   Total PnL: ${formatPnl(report.totalPnlSol)}`));
+    console.log(
+      chalk.white(
+        `   Max drawdown: ${report.maxDrawdownSol.toFixed(4)} SOL (${report.maxDrawdownPct.toFixed(1)}%)`
+      )
+    );
+
+    if (report.outcomes.length > 0) {
+      console.log(chalk.cyan("\n   Per-token outcomes:\n"));
+      for (const outcome of report.outcomes) {
+        console.log(
+          chalk.white(
+            `   ${outcome.symbol.padEnd(10)} ${outcome.status.padEnd(6)} spent ${outcome.solSpent.toFixed(4)} SOL  PnL ${formatPnl(outcome.pnlSol)}`
+          )
+        );
+        outcome.exits.forEach((exit) => console.log(chalk.gray(`      - ${exit}`)));
+      }
+    }
+  });
+
 // King command - show king of the hill
 program
   .command("king")
@@ -376,16 +1121,695 @@ program
       validateConfig();
       const analyzer = new ClaudeAnalyzer();
       const analyzeSpinner = ora("Analyzing with Claude...").start();
-      const analysis = await analyzer.analyzeToken(token);
+      const creatorProfile = await new CreatorProfiler(api)
+        .getProfile(token.creator, token.mint)
+        .catch(() => undefined);
+      const analysis = await analyzer.analyzeToken(token, { creatorProfile });
+      if (analysis.status === "failed") {
+        analyzeSpinner.fail(`Analysis failed: ${analysis.error}`);
+        return;
+      }
       analyzeSpinner.stop();
-      console.log(chalk.cyan("\n🤖 Claude's Analysis:"));
+      console.log(chalk.cyan(`\n🤖 Claude's Analysis:${formatCachedAt(analysis.cachedAt)}`));
       console.log(chalk.white(`   Risk Score: ${getRiskColor(analysis.riskScore)}`));
       console.log(chalk.white(`   Summary: ${analysis.summary}`));
       console.log(chalk.white(`   Recommendation: ${analysis.recommendation}`));
     }
   });
 
+// Usage command - Claude token usage and spend
+program
+  .command("usage")
+  .description("Show Claude token usage and spend per day")
+  .option("-d, --days <number>", "Number of days to show", "7")
+  .action((options) => {
+    const usage = new UsageTracker();
+    const days = usage.getRecentDays(parseInt(options.days, 10));
+
+    console.log(chalk.cyan("\n💸 Claude Usage:\n"));
+    if (days.length === 0) {
+      console.log(chalk.yellow("No Claude calls recorded"));
+    }
+    days.forEach(({ day, totals }) =>
+      console.log(chalk.white(`   ${day}: ${formatUsage(totals)}`))
+    );
+
+    const today = usage.getDay();
+    if (config.anthropicDailyBudgetUsd > 0) {
+      const remaining = Math.max(0, config.anthropicDailyBudgetUsd - today.costUsd);
+      console.log(
+        chalk.yellow(
+          `\n   Daily budget: $${config.anthropicDailyBudgetUsd.toFixed(2)} ($${remaining.toFixed(4)} left today)`
+        )
+      );
+    } else {
+      console.log(chalk.gray("\n   No daily budget set (ANTHROPIC_DAILY_BUDGET_USD)"));
+    }
+  });
+
+// Positions command - open positions with cost basis
+program
+  .command("positions")
+  .description("Show open positions from the local trade ledger")
+  .option("-p, --paper", "Show the paper trading ledger")
+  .option("-w, --wallet <name>", "Show a keystore wallet's ledger")
+  .option("--all", "Include closed positions")
+  .action(async (options) => {
+    const ledger = new PositionLedger({
+      paper: options.paper,
+      wallet: selectWallet(options),
+    });
+    const positions = options.all
+      ? ledger.getPositions()
+      : ledger.getOpenPositions();
+
+    if (positions.length === 0) {
+      console.log(chalk.yellow("No positions recorded"));
+      return;
+    }
+
+    const spinner = ora("Pricing positions...").start();
+    const valuations = await ledger.valuePositions(
+      new PumpFunAPI(),
+      new SolanaTrader().pumpSwap,
+      positions
+    );
+    spinner.stop();
+
+    console.log(
+      chalk.cyan(`\n📂 ${options.paper ? "Paper " : ""}Positions (${positions.length}):\n`)
+    );
+
+    valuations.forEach(({ position, priceSol, marketValueSol, unrealizedPnlSol }, index) => {
+      console.log(chalk.white(`${index + 1}. ${position.symbol}`));
+      console.log(chalk.gray(`   Mint: ${position.mint}`));
+      console.log(chalk.white(`   Tokens: ${position.tokenAmount.toFixed(2)}`));
+      console.log(chalk.white(`   Cost Basis: ${position.costBasisSol.toFixed(4)} SOL`));
+      console.log(
+        chalk.white(`   Avg Cost: ${position.averageCostSol.toExponential(4)} SOL/token`)
+      );
+      if (priceSol !== null) {
+        console.log(chalk.white(`   Price: ${priceSol.toExponential(4)} SOL/token`));
+      }
+      if (marketValueSol !== null) {
+        console.log(chalk.white(`   Value: ${marketValueSol.toFixed(4)} SOL`));
+      }
+      console.log(chalk.white(`   Unrealized PnL: ${formatPnl(unrealizedPnlSol)}`));
+      console.log(chalk.white(`   Realized PnL: ${formatPnl(position.realizedPnlSol)}`));
+      console.log("");
+    });
+  });
+
+// PnL command - realized and unrealized profit and loss
+program
+  .command("pnl")
+  .description("Show realized and unrealized PnL from the local trade ledger")
+  .option("-p, --paper", "Show the paper trading ledger")
+  .option("-w, --wallet <name>", "Show a keystore wallet's ledger")
+  .action(async (options) => {
+    const ledger = new PositionLedger({
+      paper: options.paper,
+      wallet: selectWallet(options),
+    });
+    const positions = ledger.getPositions();
+
+    if (positions.length === 0) {
+      console.log(chalk.yellow("No trades recorded"));
+      return;
+    }
+
+    const spinner = ora("Pricing positions...").start();
+    const valuations = await ledger.valuePositions(
+      new PumpFunAPI(),
+      new SolanaTrader().pumpSwap,
+      positions
+    );
+    spinner.stop();
+
+    console.log(chalk.cyan(`\n📈 ${options.paper ? "Paper " : ""}PnL by Token:\n`));
+
+    let totalRealized = 0;
+    let totalUnrealized = 0;
+    let unpriced = 0;
+
+    valuations.forEach(({ position, unrealizedPnlSol }) => {
+      totalRealized += position.realizedPnlSol;
+      if (unrealizedPnlSol === null) {
+        unpriced++;
+      } else {
+        totalUnrealized += unrealizedPnlSol;
+      }
+      console.log(
+        chalk.white(
+          `   ${position.symbol.padEnd(10)} realized ${formatPnl(position.realizedPnlSol)}  unrealized ${formatPnl(unrealizedPnlSol)}`
+        )
+      );
+    });
+
+    console.log(chalk.cyan("\n   Totals:"));
+    console.log(chalk.white(`   Realized: ${formatPnl(totalRealized)}`));
+    console.log(chalk.white(`   Unrealized: ${formatPnl(totalUnrealized)}`));
+    console.log(chalk.white(`   Net: ${formatPnl(totalRealized + totalUnrealized)}`));
+    if (unpriced > 0) {
+      console.log(chalk.gray(`   (${unpriced} open position(s) could not be priced)`));
+    }
+  });
+
+// Portfolio command - every token in the wallet, valued at its sell price
+program
+  .command("portfolio")
+  .description("Value every token the wallet holds in SOL and USD")
+  .option("-p, --paper", "Value the paper wallet")
+  .option("-w, --wallet <name>", "Value a keystore wallet")
+  .option("--address <pubkey>", "Value any wallet address")
+  .option("--watch [seconds]", "Refresh continuously, every 15 seconds by default")
+  .action(async (options) => {
+    const trader = new SolanaTrader({ paper: options.paper });
+    let owner: PublicKey | null = null;
+    if (options.paper) {
+      trader.initializeWallet();
+    } else {
+      owner = walletAddress(options);
+      if (!owner) {
+        console.log(chalk.red("No wallet: create one with `wallet create` or pass --address"));
+        return;
+      }
+    }
+    const tracker = new PortfolioTracker(trader, new PumpFunAPI(), owner);
+
+    if (!options.watch) {
+      const spinner = ora("Valuing holdings...").start();
+      const snapshot = await tracker.snapshot();
+      spinner.stop();
+      printPortfolio(snapshot);
+      return;
+    }
+
+    const intervalSeconds =
+      typeof options.watch === "string" ? parseFloat(options.watch) : 15;
+    const refresh = async () => {
+      try {
+        const snapshot = await tracker.snapshot();
+        console.clear();
+        printPortfolio(snapshot);
+        console.log(
+          chalk.gray(`\n   Refreshing every ${intervalSeconds}s, press Ctrl+C to stop`)
+        );
+      } catch (error) {
+        console.error(chalk.red(`Refresh failed: ${error instanceof Error ? error.message : error}`));
+      }
+      timer = setTimeout(refresh, intervalSeconds * 1000);
+    };
+    let timer = setTimeout(refresh, 0);
+
+    process.on("SIGINT", () => {
+      clearTimeout(timer);
+      process.exit(0);
+    });
+  });
+
+// Serve command - local HTTP API and event stream for other tools
+program
+  .command("serve")
+  .description("Run a local HTTP API with a live Server-Sent Events stream")
+  .option("--host <host>", "Interface to listen on", config.apiHost)
+  .option("--port <port>", "Port to listen on", String(config.apiPort))
+  .option("-p, --paper", "Trade against the paper wallet")
+  .option("-w, --wallet <name>", "Keystore wallet to trade with")
+  .option("-a, --analyze", "Analyze every new token and stream the verdicts")
+  .option("--alerts <file>", "JSON file with alert sinks and rules")
+  .action(async (options) => {
+    if (options.analyze) {
+      validateConfig();
+    }
+
+    const alerts = createAlerts(options);
+    const walletName = selectWallet(options);
+    const trader = new SolanaTrader({
+      paper: options.paper,
+      wallet: walletName,
+      onFill: alerts ? (fill) => alerts.fill(fill) : undefined,
+    });
+    // The wallet is only unlocked when the trade endpoint can be used
+    const tradingEnabled = Boolean(config.apiAuthToken);
+    if (tradingEnabled && (options.paper || walletName || config.solanaPrivateKey)) {
+      await initializeTraderWallet(trader, walletName);
+    }
+
+    const ws = new PumpFunWebSocket();
+    showConnectionState(ws);
+    await ws.connect();
+
+    const analyzer = config.anthropicApiKey ? new ClaudeAnalyzer() : null;
+    const server = new ApiServer(ws, new PumpFunAPI(), analyzer, trader, {
+      host: options.host,
+      port: parseInt(options.port, 10),
+      autoAnalyze: options.analyze,
+      onAnalysis: alerts ? (analysis) => alerts.analysis(analysis) : undefined,
+    });
+    await server.start();
+
+    console.log(chalk.cyan(`\n🌐 API listening on ${server.url}\n`));
+    console.log(
+      chalk.gray(
+        `   Stream: ${config.apiAuthToken || config.apiDashboardToken ? `${server.url}/api/events, bearer token required` : "disabled (set API_AUTH_TOKEN or API_DASHBOARD_TOKEN)"}`
+      )
+    );
+    console.log(
+      chalk.gray(
+        `   Trading: ${tradingEnabled ? (trader.isPaper ? "paper" : "live") + ", bearer token required" : "disabled (set API_AUTH_TOKEN)"}`
+      )
+    );
+    console.log(
+      chalk.gray(
+        `   Analysis: ${analyzer ? (options.analyze ? "on request and for every new token" : "on request") : "disabled (set ANTHROPIC_API_KEY)"}`
+      )
+    );
+    console.log(chalk.gray("\nPress Ctrl+C to stop\n"));
+
+    process.on("SIGINT", async () => {
+      console.log(chalk.yellow("\nStopping API server..."));
+      await server.stop();
+      await alerts?.flush();
+      if (analyzer) {
+        console.log(chalk.gray(`Claude usage this session: ${formatUsage(analyzer.usage.sessionTotals)}`));
+      }
+      ws.disconnect();
+      process.exit(0);
+    });
+  });
+
+// Risk command - limits, current usage and the kill switch
+const riskCommand = program
+  .command("risk")
+  .description("Show risk limits and control the kill switch");
+
+riskCommand
+  .command("status")
+  .description("Show risk limits against current exposure and losses")
+  .option("-p, --paper", "Check the paper trading ledger")
+  .option("-w, --wallet <name>", "Check a keystore wallet's ledger")
+  .action((options) => {
+    const risk = new RiskManager(
+      new PositionLedger({ paper: options.paper, wallet: selectWallet(options) })
+    );
+    const status = risk.getStatus();
+    const { limits } = risk;
+    const show = (value: number | null, unit = "") =>
+      value === null ? chalk.gray("off") : `${value}${unit}`;
+
+    console.log(chalk.cyan("\n🛡️  Risk Limits:\n"));
+    if (status.killSwitch) {
+      console.log(
+        chalk.red(
+          `   KILL SWITCH ENGAGED ${new Date(status.killSwitch.engagedAt).toLocaleString()}${status.killSwitch.reason ? `: ${status.killSwitch.reason}` : ""}`
+        )
+      );
+    } else {
+      console.log(chalk.green("   Kill switch: off"));
+    }
+    console.log(chalk.white(`   Max order: ${limits.maxOrderSol} SOL`));
+    console.log(
+      chalk.white(
+        `   Realized (24h): ${formatPnl(status.realizedTodaySol)} / loss limit ${show(limits.dailyLossLimitSol, " SOL")}`
+      )
+    );
+    console.log(
+      chalk.white(
+        `   Exposure: ${status.totalExposureSol.toFixed(4)} SOL / ${show(limits.maxTotalExposureSol, " SOL")} total, ${show(limits.maxMintExposureSol, " SOL")} per mint`
+      )
+    );
+    console.log(
+      chalk.white(
+        `   Open positions: ${status.openPositions} / ${show(limits.maxOpenPositions)}`
+      )
+    );
+    console.log(
+      chalk.white(
+        `   Per creator: ${show(limits.maxCreatorExposureSol, " SOL")}, ${show(limits.maxPositionsPerCreator)} positions`
+      )
+    );
+    console.log(chalk.white(`   SOL reserve: ${limits.minSolReserve} SOL`));
+    console.log(
+      chalk.white(
+        `   Loss cooldown: ${show(limits.lossCooldownMinutes, "m")}${status.cooldownUntil ? chalk.yellow(` (active until ${new Date(status.cooldownUntil).toLocaleTimeString()})`) : ""}`
+      )
+    );
+  });
+
+riskCommand
+  .command("kill [reason...]")
+  .description("Stop all new buys in every running bot")
+  .action((reason: string[] = []) => {
+    new RiskManager(new PositionLedger()).engageKillSwitch(reason.join(" "));
+    console.log(chalk.red("🛑 Kill switch engaged: no new buys until `risk resume`"));
+  });
+
+riskCommand
+  .command("resume")
+  .description("Release the kill switch")
+  .action(() => {
+    const released = new RiskManager(new PositionLedger()).releaseKillSwitch();
+    console.log(
+      released
+        ? chalk.green("✅ Kill switch released, buys are allowed again")
+        : chalk.yellow("Kill switch was not engaged")
+    );
+  });
+
+// Wallet commands - encrypted keystore for live trading wallets
+const walletCommand = program
+  .command("wallet")
+  .description("Manage encrypted trading wallets");
+
+walletCommand
+  .command("create <name>")
+  .description("Generate a new wallet and store it encrypted")
+  .option("--default", "Make it the default trading wallet")
+  .action(async (name: string, options) => {
+    const keystore = new Keystore();
+    const password = await promptNewPassword();
+    const keypair = keystore.create(name, password);
+    if (options.default) keystore.setDefault(name);
+    console.log(chalk.green(`✅ Created wallet "${name}"`));
+    console.log(chalk.white(`   Address: ${keypair.publicKey.toBase58()}`));
+    console.log(chalk.gray(`   Default: ${keystore.defaultWallet === name ? "yes" : "no"}`));
+  });
+
+walletCommand
+  .command("import <name>")
+  .description("Encrypt an existing private key into the keystore")
+  .option("--from-env", "Import SOLANA_PRIVATE_KEY instead of prompting for the key")
+  .option("--default", "Make it the default trading wallet")
+  .action(async (name: string, options) => {
+    if (options.fromEnv && !config.solanaPrivateKey) {
+      console.log(chalk.red("SOLANA_PRIVATE_KEY is not set"));
+      return;
+    }
+    const secretKey = options.fromEnv
+      ? config.solanaPrivateKey
+      : await promptHidden("Private key (base58 or JSON byte array): ");
+    const keystore = new Keystore();
+    const password = await promptNewPassword();
+    const keypair = keystore.import(name, secretKey, password);
+    if (options.default) keystore.setDefault(name);
+    console.log(chalk.green(`✅ Imported wallet "${name}"`));
+    console.log(chalk.white(`   Address: ${keypair.publicKey.toBase58()}`));
+    if (options.fromEnv) {
+      console.log(chalk.yellow("   Remove SOLANA_PRIVATE_KEY from .env to stop storing it in plaintext"));
+    }
+  });
+
+walletCommand
+  .command("list")
+  .description("List keystore wallets")
+  .action(() => {
+    const wallets = new Keystore().list();
+    if (wallets.length === 0) {
+      console.log(chalk.yellow("No wallets in the keystore, create one with `wallet create <name>`"));
+      return;
+    }
+    console.log(chalk.cyan(`\n🔐 Wallets (${wallets.length}):\n`));
+    for (const wallet of wallets) {
+      console.log(
+        chalk.white(
+          `   ${wallet.isDefault ? "*" : " "} ${wallet.name.padEnd(16)} ${wallet.publicKey}`
+        )
+      );
+    }
+  });
+
+walletCommand
+  .command("set-default <name>")
+  .description("Use a wallet when trading commands get no --wallet")
+  .action((name: string) => {
+    new Keystore().setDefault(name);
+    console.log(chalk.green(`✅ "${name}" is now the default wallet`));
+  });
+
+walletCommand
+  .command("export-public <name>")
+  .description("Print a wallet's public address")
+  .action((name: string) => {
+    console.log(new Keystore().getPublicKey(name));
+  });
+
+// Watch commands - follow tokens' trades without holding them
+const watchCommand = program
+  .command("watch")
+  .description("Keep a watchlist of tokens and alert on their trades");
+
+watchCommand
+  .command("add <mints...>")
+  .description("Add tokens to the watchlist")
+  .action(async (mints: string[]) => {
+    const api = new PumpFunAPI();
+    const watchlist = new Watchlist();
+    for (const mint of mints) {
+      if (watchlist.has(mint)) {
+        console.log(chalk.yellow(`Already watching ${mint}`));
+        continue;
+      }
+      const token = await api.getToken(mint);
+      if (!token) {
+        console.log(chalk.red(`Token not found: ${mint}`));
+        continue;
+      }
+      watchlist.add({
+        mint,
+        symbol: token.symbol,
+        name: token.name,
+        creator: token.creator || null,
+        addedAt: Date.now(),
+      });
+      console.log(chalk.green(`✅ Watching ${token.symbol} (${token.name})`));
+    }
+  });
+
+watchCommand
+  .command("remove <mints...>")
+  .description("Remove tokens from the watchlist")
+  .action((mints: string[]) => {
+    const watchlist = new Watchlist();
+    for (const mint of mints) {
+      console.log(
+        watchlist.remove(mint)
+          ? chalk.green(`✅ Stopped watching ${mint}`)
+          : chalk.yellow(`Not on the watchlist: ${mint}`)
+      );
+    }
+  });
+
+watchCommand
+  .command("list")
+  .description("List watched tokens")
+  .action(() => {
+    const entries = new Watchlist().list();
+    if (entries.length === 0) {
+      console.log(chalk.yellow("The watchlist is empty, add tokens with `watch add <mint>`"));
+      return;
+    }
+    console.log(chalk.cyan(`\n👀 Watchlist (${entries.length}):\n`));
+    for (const entry of entries) {
+      console.log(
+        chalk.white(
+          `   ${entry.symbol.padEnd(10)} ${entry.mint}  ${chalk.gray(`added ${new Date(entry.addedAt).toLocaleString()}`)}`
+        )
+      );
+    }
+  });
+
+withFeedOptions(
+  watchCommand
+    .command("run")
+    .description("Stream watched tokens' trades with status lines and alerts")
+)
+  .option("--whale <sol>", "Alert on buys of at least this many SOL", String(config.watchWhaleBuySol))
+  .option("--move <pct>", "Alert on price moves of this percent within 5 minutes", String(config.watchPriceMovePct))
+  .option("--graduation <pct>", "Alert when the bonding curve reaches this percent", String(config.watchGraduationPct))
+  .option("-i, --interval <seconds>", "Seconds between status lines", "30")
+  .option("--alerts <file>", "JSON file with alert sinks and rules")
+  .action(async (options) => {
+    const entries = new Watchlist().list();
+    if (entries.length === 0) {
+      console.log(chalk.yellow("The watchlist is empty, add tokens with `watch add <mint>`"));
+      return;
+    }
+    const alerts = createAlerts(options);
+
+    const feed = createFeed(options);
+    const api = new PumpFunAPI();
+    const monitor = new WatchMonitor(feed, {
+      whaleBuySol: parseFloat(options.whale),
+      priceMovePct: parseFloat(options.move),
+      graduationPct: parseFloat(options.graduation),
+      onAlert: (alert) => {
+        const color = alert.kind === "creatorSell" ? chalk.red : chalk.yellow;
+        console.log(color(`🔔 ${alert.symbol}: ${alert.message}`));
+        alerts?.watch(alert);
+      },
+    });
+
+    await feed.connect();
+
+    const spinner = ora(`Loading ${entries.length} watched tokens...`).start();
+    const tokens = await Promise.all(entries.map((entry) => api.getToken(entry.mint)));
+    spinner.stop();
+    entries.forEach((entry, i) => {
+      // Entries added before the creator was known pick it up here
+      monitor.watch({ ...entry, creator: entry.creator ?? tokens[i]?.creator ?? null }, tokens[i]);
+    });
+
+    printWatchStatus(monitor.statuses());
+    const timer = setInterval(
+      () => printWatchStatus(monitor.statuses()),
+      parseFloat(options.interval) * 1000
+    );
+
+    console.log(chalk.gray("Press Ctrl+C to stop watching\n"));
+    startReplay(feed);
+
+    process.on("SIGINT", async () => {
+      console.log(chalk.yellow("\nStopping watchlist..."));
+      clearInterval(timer);
+      monitor.stop();
+      await alerts?.flush();
+      feed.disconnect();
+      process.exit(0);
+    });
+  });
+
 // Helper functions
+function withFeedOptions(command: Command): Command {
+  return command
+    .option("--record [file]", "Record the raw feed to a JSONL file")
+    .option("--replay <file>", "Replay a recorded feed instead of the live WebSocket")
+    .option("--speed <speed>", "Replay speed: real, max or a multiplier like 10x", "real");
+}
+
+function createFeed(options: { record?: string | boolean; replay?: string; speed: string }): TokenFeed {
+  if (options.replay) {
+    return new ReplayFeed(options.replay, parseReplaySpeed(options.speed));
+  }
+  const ws = new PumpFunWebSocket();
+  showConnectionState(ws);
+  if (options.record) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    ws.startCapture(
+      typeof options.record === "string"
+        ? options.record
+        : dataPath(`recordings/feed-${timestamp}.jsonl`)
+    );
+  }
+  return ws;
+}
+
+// Alerts come from --alerts, else ALERTS_FILE; null when neither is set
+function createAlerts(options: { alerts?: string }): AlertManager | null {
+  const filePath = options.alerts ?? (config.alertsFile || null);
+  if (!filePath) return null;
+  const alerts = new AlertManager(loadAlertConfig(filePath));
+  console.log(chalk.gray(`🔔 Alerts to ${alerts.sinkNames.join(", ")}`));
+  return alerts;
+}
+
+function printWatchStatus(statuses: WatchStatus[]): void {
+  console.log(chalk.cyan(`\n👀 Watchlist at ${new Date().toLocaleTimeString()} (last 5m):`));
+  for (const status of statuses) {
+    const price =
+      status.priceSol === null ? chalk.gray("no price") : `${status.priceSol.toExponential(4)} SOL`;
+    const change =
+      status.changePct === null
+        ? ""
+        : (status.changePct >= 0 ? chalk.green : chalk.red)(
+            ` ${status.changePct >= 0 ? "+" : ""}${status.changePct.toFixed(1)}%`
+          );
+    const curve =
+      status.graduationPct === null ? "" : chalk.gray(`  curve ${status.graduationPct.toFixed(1)}%`);
+    console.log(
+      chalk.white(
+        `   ${status.symbol.padEnd(10)} ${price}${change}  vol ${status.volumeSol.toFixed(2)} SOL  ${status.buys} buys / ${status.sells} sells${curve}`
+      )
+    );
+  }
+}
+
+function showConnectionState(ws: PumpFunWebSocket): void {
+  const labels: Record<ConnectionState, string> = {
+    connecting: chalk.gray("🔌 Connecting to pump.fun WebSocket..."),
+    open: chalk.green("🟢 Connected to pump.fun WebSocket"),
+    reconnecting: chalk.yellow("🟡 Connection lost, reconnecting..."),
+    stale: chalk.yellow("⚠️  Feed went quiet, forcing reconnect"),
+    closed: chalk.gray("🔌 WebSocket closed"),
+  };
+  ws.on("state", (state) => console.log(labels[state]));
+}
+
+function startReplay(feed: TokenFeed): void {
+  if (!(feed instanceof ReplayFeed)) return;
+  feed
+    .start()
+    .then((count) => console.log(chalk.cyan(`\n⏹️  Replay finished (${count} events)`)))
+    .catch((error) => {
+      console.error(chalk.red(`Replay failed: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    });
+}
+
+function withExitRuleOptions(command: Command): Command {
+  return command
+    .option("--exit-rules <file>", "JSON file with exit rules")
+    .option("--stop-loss <pct>", "Sell all when price falls this % below entry ('off' to disable)")
+    .option("--take-profit <ladder>", "Take-profit ladder, e.g. 50:25,100:50 ('off' to disable)")
+    .option("--trailing-stop <pct>", "Sell all when price falls this % below its peak")
+    .option("--max-hold <minutes>", "Sell all after holding this many minutes");
+}
+
+function buildExitRules(options: Record<string, string | undefined>): ExitRules {
+  const rules = loadExitRules(options.exitRules);
+  const parseLimit = (value: string) => (value === "off" ? null : parseFloat(value));
+  if (options.stopLoss) rules.stopLossPct = parseLimit(options.stopLoss);
+  if (options.takeProfit) {
+    rules.takeProfitLadder =
+      options.takeProfit === "off" ? [] : parseTakeProfitLadder(options.takeProfit);
+  }
+  if (options.trailingStop) rules.trailingStopPct = parseLimit(options.trailingStop);
+  if (options.maxHold) rules.maxHoldMinutes = parseLimit(options.maxHold);
+  return rules;
+}
+
+function describeExitRules(rules: ExitRules): string {
+  const parts: string[] = [];
+  if (rules.stopLossPct !== null) parts.push(`stop-loss -${rules.stopLossPct}%`);
+  if (rules.takeProfitLadder.length > 0) {
+    parts.push(
+      `take-profit ${rules.takeProfitLadder.map((s) => `+${s.gainPct}%→${s.sellPct}%`).join(", ")}`
+    );
+  }
+  if (rules.trailingStopPct !== null) parts.push(`trailing -${rules.trailingStopPct}%`);
+  if (rules.maxHoldMinutes !== null) parts.push(`max hold ${rules.maxHoldMinutes}m`);
+  return parts.length > 0 ? parts.join(" | ") : "none";
+}
+
+function printExitTrigger(trigger: ExitTrigger): void {
+  const label = `${trigger.symbol} (${trigger.mint.slice(0, 8)}…)`;
+  if (trigger.success) {
+    console.log(
+      chalk.yellow(`🚪 ${trigger.rule.toUpperCase()} ${label} - ${trigger.reason}`)
+    );
+    console.log(
+      chalk.gray(
+        `   Sold ${trigger.tokenAmount.toFixed(2)} tokens for ~${trigger.solReceived?.toFixed(4)} SOL`
+      )
+    );
+    console.log(chalk.gray(`   Signature: ${trigger.signature}`));
+  } else {
+    console.log(
+      chalk.red(`❌ ${trigger.rule.toUpperCase()} ${label} - ${trigger.reason}: ${trigger.error}`)
+    );
+  }
+}
+
 function printTokenInfo(token: PumpFunToken): void {
   const age = Math.floor((Date.now() - token.created_timestamp) / 60000);
   console.log(chalk.white(`   Name: ${token.name}`));
@@ -400,6 +1824,327 @@ function printTokenInfo(token: PumpFunToken): void {
   console.log(chalk.gray(`   Website: ${token.website || "None"}`));
 }
 
+function describeCreatorProfile(profile: CreatorProfile): string {
+  const launches = `${profile.priorLaunches}${profile.truncated ? "+" : ""}`;
+  return `${launches} prior launches, ${profile.graduated} graduated`;
+}
+
+function printCreatorProfile(profile?: CreatorProfile): void {
+  if (!profile) return;
+  const formatMinutes = (value: number | null) =>
+    value === null ? "n/a" : `${value.toFixed(0)}m`;
+
+  console.log(chalk.cyan("\n👤 Creator History:"));
+  console.log(chalk.gray(`   Creator: ${profile.creator}`));
+  const launchColor =
+    profile.priorLaunches >= 5 && profile.graduated === 0 ? chalk.red : chalk.white;
+  console.log(launchColor(`   Prior Launches: ${describeCreatorProfile(profile)}`));
+  if (profile.priorLaunches === 0) return;
+  console.log(
+    chalk.white(
+      `   Typical Market Cap: $${(profile.medianMarketCapUsd ?? 0).toFixed(0)} (best $${(profile.bestMarketCapUsd ?? 0).toFixed(0)})`
+    )
+  );
+  if (profile.launchesPerDay !== null) {
+    console.log(
+      chalk.white(
+        `   Launch Frequency: ${profile.launchesPerDay.toFixed(1)}/day, every ${formatMinutes(profile.medianMinutesBetweenLaunches)}`
+      )
+    );
+  }
+  console.log(
+    chalk.white(`   Typical Lifetime: ${formatMinutes(profile.medianActiveMinutes)} until activity stopped`)
+  );
+}
+
+function printHolderDistribution(holders?: HolderDistribution): void {
+  if (!holders) return;
+  const concentrationColor = holders.top10Pct >= 30 ? chalk.red : chalk.white;
+
+  console.log(chalk.cyan("\n🧮 Holder Distribution:"));
+  console.log(chalk.gray(`   Bonding Curve: ${holders.bondingCurvePct.toFixed(2)}%`));
+  console.log(concentrationColor(`   Top 10 Holders: ${holders.top10Pct.toFixed(2)}%`));
+  console.log(
+    (holders.creatorPct >= 5 ? chalk.red : chalk.white)(
+      `   Creator Holding: ${holders.creatorPct.toFixed(2)}%`
+    )
+  );
+  console.log(
+    chalk.white(
+      `   Fresh Wallets: ${holders.freshWallets} of top ${holders.topHolders.length}`
+    )
+  );
+  holders.topHolders.forEach((holder, i) => {
+    const tags = [
+      holder.isCreator ? chalk.yellow("creator") : null,
+      holder.freshWallet ? chalk.red("fresh") : null,
+    ].filter(Boolean);
+    console.log(
+      chalk.gray(
+        `      ${i + 1}. ${holder.owner.slice(0, 8)}… ${holder.pct.toFixed(2)}%${tags.length > 0 ? ` ${tags.join(" ")}` : ""}`
+      )
+    );
+  });
+}
+
+async function prepareOneOffTrade(
+  mintAddress: string,
+  options: { paper?: boolean; wallet?: string }
+): Promise<{ trader: SolanaTrader; token: PumpFunToken } | null> {
+  const walletName = selectWallet(options);
+  if (!options.paper && !walletName && !config.solanaPrivateKey) {
+    console.log(chalk.red("A wallet is required for trading: create one with `wallet create`"));
+    return null;
+  }
+  const trader = new SolanaTrader({ paper: options.paper, wallet: walletName });
+  await initializeTraderWallet(trader, walletName);
+
+  const token = await new PumpFunAPI().getToken(mintAddress);
+  if (!token) {
+    console.log(chalk.red("Token not found"));
+    return null;
+  }
+  return { trader, token };
+}
+
+// Live trades sign with the --wallet keystore wallet, else the keystore's
+// default, else SOLANA_PRIVATE_KEY. Paper trading needs none of them.
+// The keystore wallet to use, or null for SOLANA_PRIVATE_KEY. The two keep
+// separate ledgers, so when both are configured one has to be picked.
+function selectWallet(options: { paper?: boolean; wallet?: string }): string | null {
+  if (options.paper) return null;
+  if (options.wallet === ENV_WALLET_NAME) {
+    if (!config.solanaPrivateKey) {
+      throw new Error(`--wallet ${ENV_WALLET_NAME} needs SOLANA_PRIVATE_KEY`);
+    }
+    return null;
+  }
+  const keystore = new Keystore();
+  if (options.wallet) {
+    if (!keystore.has(options.wallet)) {
+      throw new Error(`No wallet named "${options.wallet}" in the keystore`);
+    }
+    return options.wallet;
+  }
+  const defaultWallet = keystore.defaultWallet;
+  if (defaultWallet && config.solanaPrivateKey) {
+    throw new Error(
+      `Both the keystore's default wallet "${defaultWallet}" and SOLANA_PRIVATE_KEY are set: ` +
+        `pick one with --wallet ${defaultWallet} or --wallet ${ENV_WALLET_NAME}`
+    );
+  }
+  return defaultWallet;
+}
+
+async function initializeTraderWallet(
+  trader: SolanaTrader,
+  walletName: string | null
+): Promise<void> {
+  if (!walletName) {
+    trader.initializeWallet();
+    return;
+  }
+  const password =
+    config.keystorePassword || (await promptHidden(`Password for wallet "${walletName}": `));
+  trader.initializeWallet(new Keystore().unlock(walletName, password));
+}
+
+async function promptNewPassword(): Promise<string> {
+  if (config.keystorePassword) return config.keystorePassword;
+  const password = await promptHidden("New wallet password: ");
+  if ((await promptHidden("Repeat password: ")) !== password) {
+    throw new Error("Passwords do not match");
+  }
+  return password;
+}
+
+// Reads a line without echoing what is typed
+function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(
+      new Error("KEYSTORE_PASSWORD is required when not running in a terminal")
+    );
+  }
+  let muted = false;
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      if (!muted) process.stdout.write(chunk);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+// The address to value: --address, the selected keystore wallet, or the
+// key in SOLANA_PRIVATE_KEY. Nothing is unlocked.
+function walletAddress(options: { address?: string; wallet?: string }): PublicKey | null {
+  if (options.address) return new PublicKey(options.address);
+  const walletName = selectWallet(options);
+  if (walletName) return new PublicKey(new Keystore().getPublicKey(walletName));
+  return config.solanaPrivateKey ? parseSecretKey(config.solanaPrivateKey).publicKey : null;
+}
+
+function printPortfolio(snapshot: PortfolioSnapshot): void {
+  const usd = (value: number | null) => (value === null ? "" : chalk.gray(` ($${value.toFixed(2)})`));
+
+  console.log(
+    chalk.cyan(
+      `\n💼 Portfolio ${snapshot.owner === "paper" ? "(paper)" : snapshot.owner} at ${new Date(snapshot.fetchedAt).toLocaleTimeString()}:\n`
+    )
+  );
+  console.log(
+    chalk.white(
+      `   SOL: ${snapshot.solBalance.toFixed(4)}${usd(snapshot.solPriceUsd !== null ? snapshot.solBalance * snapshot.solPriceUsd : null)}`
+    )
+  );
+
+  if (snapshot.holdings.length === 0) {
+    console.log(chalk.gray("   No tokens held"));
+  }
+  snapshot.holdings.forEach((holding) => {
+    const statusColor =
+      holding.status === "ok" ? chalk.green : holding.status === "unknown" ? chalk.gray : chalk.red;
+    const value =
+      holding.valueSol === null
+        ? chalk.gray("n/a")
+        : `${holding.valueSol.toFixed(4)} SOL${usd(holding.valueUsd)}`;
+    console.log(
+      chalk.white(
+        `   ${holding.symbol.padEnd(10)} ${holding.amount.toFixed(2).padStart(18)}  ${value}  ${statusColor(holding.status)}${holding.venue ? chalk.gray(` via ${holding.venue}`) : ""}`
+      )
+    );
+    console.log(
+      chalk.gray(`      ${holding.mint}${holding.note ? ` - ${holding.note}` : ""}`)
+    );
+  });
+
+  console.log(
+    chalk.cyan(
+      `\n   Total: ${snapshot.totalSol.toFixed(4)} SOL${snapshot.totalUsd !== null ? ` ($${snapshot.totalUsd.toFixed(2)})` : ""}`
+    )
+  );
+  const unpriced = snapshot.holdings.filter((h) => h.valueSol === null).length;
+  if (unpriced > 0) {
+    console.log(chalk.gray(`   (${unpriced} holding(s) could not be valued)`));
+  }
+  if (snapshot.emptyAccounts > 0) {
+    console.log(
+      chalk.gray(`   ${snapshot.emptyAccounts} empty token account(s), run \`reclaim\` to recover their rent`)
+    );
+  }
+}
+
+// Prints the problem and returns null when the amount cannot be resolved
+function parseBuyInput(input: string): number | null {
+  try {
+    return parseBuyAmount(input);
+  } catch (error) {
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+    return null;
+  }
+}
+
+async function resolveSellInput(
+  trader: SolanaTrader,
+  token: PumpFunToken,
+  input: string
+): Promise<number | null> {
+  try {
+    return await trader.resolveSellAmount(token, parseSellAmount(input));
+  } catch (error) {
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+    return null;
+  }
+}
+
+function printTradeResult(
+  side: "buy" | "sell",
+  result: TradeResult,
+  showLogs = false
+): void {
+  const label = side === "buy" ? "Buy" : "Sell";
+  if (result.rejection) {
+    console.log(
+      chalk.red(`🛑 ${label} blocked by risk limit ${result.rejection.rule}: ${result.error}`)
+    );
+  } else if (!result.success) {
+    console.log(chalk.red(`❌ ${label} failed: ${result.error}`));
+  } else if (result.dryRun) {
+    console.log(chalk.magenta(`🧪 ${label} simulated, nothing was sent`));
+  } else {
+    console.log(chalk.green(`✅ ${label} successful!`));
+    console.log(chalk.gray(`   Signature: ${result.signature}`));
+  }
+
+  if (result.success) {
+    console.log(
+      chalk.gray(
+        side === "buy"
+          ? `   Tokens ${result.dryRun ? "expected" : "received"}: ~${result.amountOut?.toFixed(2)}`
+          : `   SOL ${result.dryRun ? "expected" : "received"}: ~${result.amountOut?.toFixed(4)}`
+      )
+    );
+  }
+  if (result.closedTokenAccount) {
+    console.log(chalk.gray("   Token account closed, rent reclaimed"));
+  }
+
+  const simulation = result.simulation;
+  if (simulation) {
+    if (!simulation.error) {
+      const sign = (value: number) => (value >= 0 ? "+" : "");
+      console.log(
+        chalk.gray(
+          `   Simulated: ${sign(simulation.solChange)}${simulation.solChange.toFixed(6)} SOL, ${sign(simulation.tokenChange)}${simulation.tokenChange.toFixed(2)} tokens, ${simulation.unitsConsumed ?? "?"} CU`
+        )
+      );
+    }
+    // Failures always show the tail of the logs, where the program explains itself
+    const logs = showLogs ? simulation.logs : simulation.error ? simulation.logs.slice(-8) : [];
+    logs.forEach((line) => console.log(chalk.gray(`      ${line}`)));
+  }
+  printTradeTiming(result.timing);
+}
+
+function printTradeTiming(timing?: TradeTiming): void {
+  if (!timing) return;
+  const confirmed =
+    timing.confirmedMs !== undefined ? `confirmed ${timing.confirmedMs}ms` : "unconfirmed";
+  console.log(
+    chalk.gray(
+      `   Timing: built ${timing.buildMs}ms, ${confirmed}, ${timing.attempts} attempt(s), ${timing.rebroadcasts} rebroadcast(s)`
+    )
+  );
+  console.log(
+    chalk.gray(
+      `   Compute: ${timing.computeUnitLimit} CU at ${timing.priorityFeeMicroLamports} µlamports/CU`
+    )
+  );
+}
+
+function formatUsage(totals: UsageTotals): string {
+  return `${totals.calls} calls, ${totals.inputTokens} in / ${totals.outputTokens} out tokens, $${totals.costUsd.toFixed(4)}`;
+}
+
+function formatCachedAt(cachedAt?: number): string {
+  if (!cachedAt) return "";
+  return chalk.gray(` (cached ${Math.floor((Date.now() - cachedAt) / 60000)}m ago)`);
+}
+
+function formatPnl(pnlSol: number | null): string {
+  if (pnlSol === null) return chalk.gray("n/a");
+  const text = `${pnlSol >= 0 ? "+" : ""}${pnlSol.toFixed(4)} SOL`;
+  return pnlSol >= 0 ? chalk.green(text) : chalk.red(text);
+}
+
 function getRiskColor(score: number): string {
   if (score <= 3) return chalk.green(`${score}/10 (Low Risk)`);
   if (score <= 6) return chalk.yellow(`${score}/10 (Medium Risk)`);
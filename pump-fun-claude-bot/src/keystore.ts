@@ -0,0 +1,211 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+
+// scrypt cost parameters for new wallets. They are stored with each wallet,
+// so raising them later does not lock out existing ones.
+const SCRYPT_N = 2 ** 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 32;
+
+const WALLET_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+// `--wallet env` picks SOLANA_PRIVATE_KEY, so no keystore wallet may use it
+export const ENV_WALLET_NAME = "env";
+
+interface KeystoreWallet {
+  name: string;
+  publicKey: string;
+  createdAt: number;
+  kdf: { name: "scrypt"; salt: string; n: number; r: number; p: number };
+  cipher: { name: "aes-256-gcm"; iv: string; authTag: string };
+  // Encrypted 64-byte secret key, hex encoded
+  ciphertext: string;
+}
+
+interface KeystoreFile {
+  version: 1;
+  defaultWallet: string | null;
+  wallets: KeystoreWallet[];
+}
+
+export interface WalletSummary {
+  name: string;
+  publicKey: string;
+  createdAt: number;
+  isDefault: boolean;
+}
+
+function deriveKey(password: string, kdf: KeystoreWallet["kdf"]): Buffer {
+  return scryptSync(password, Buffer.from(kdf.salt, "hex"), KEY_LENGTH, {
+    N: kdf.n,
+    r: kdf.r,
+    p: kdf.p,
+    // Node's 32 MB default is exactly what N = 2^15, r = 8 needs, with no headroom
+    maxmem: 256 * kdf.n * kdf.r,
+  });
+}
+
+// Accepts a base58 secret key or a solana-keygen JSON byte array
+export function parseSecretKey(input: string): Keypair {
+  const trimmed = input.trim();
+  try {
+    const bytes = trimmed.startsWith("[")
+      ? Uint8Array.from(JSON.parse(trimmed) as number[])
+      : bs58.decode(trimmed);
+    return Keypair.fromSecretKey(bytes);
+  } catch {
+    throw new Error("Invalid private key format");
+  }
+}
+
+export class Keystore {
+  private filePath: string;
+
+  constructor(filePath: string = dataPath("keystore.json")) {
+    this.filePath = filePath;
+  }
+
+  get defaultWallet(): string | null {
+    return this.read().defaultWallet;
+  }
+
+  has(name: string): boolean {
+    return this.read().wallets.some((w) => w.name === name);
+  }
+
+  list(): WalletSummary[] {
+    const file = this.read();
+    return file.wallets.map((w) => ({
+      name: w.name,
+      publicKey: w.publicKey,
+      createdAt: w.createdAt,
+      isDefault: w.name === file.defaultWallet,
+    }));
+  }
+
+  getPublicKey(name: string): string {
+    return this.find(this.read(), name).publicKey;
+  }
+
+  create(name: string, password: string): Keypair {
+    const keypair = Keypair.generate();
+    this.add(name, keypair, password);
+    return keypair;
+  }
+
+  import(name: string, secretKey: string, password: string): Keypair {
+    const keypair = parseSecretKey(secretKey);
+    this.add(name, keypair, password);
+    return keypair;
+  }
+
+  setDefault(name: string): void {
+    const file = this.read();
+    this.find(file, name);
+    file.defaultWallet = name;
+    this.write(file);
+  }
+
+  unlock(name: string, password: string): Keypair {
+    const wallet = this.find(this.read(), name);
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(password, wallet.kdf),
+      Buffer.from(wallet.cipher.iv, "hex")
+    );
+    decipher.setAuthTag(Buffer.from(wallet.cipher.authTag, "hex"));
+
+    let secretKey: Buffer;
+    try {
+      secretKey = Buffer.concat([
+        decipher.update(Buffer.from(wallet.ciphertext, "hex")),
+        decipher.final(),
+      ]);
+    } catch {
+      throw new Error(`Wrong password for wallet "${name}"`);
+    }
+
+    const keypair = Keypair.fromSecretKey(secretKey);
+    if (keypair.publicKey.toBase58() !== wallet.publicKey) {
+      throw new Error(`Wallet "${name}" does not match its stored public key`);
+    }
+    return keypair;
+  }
+
+  private add(name: string, keypair: Keypair, password: string): void {
+    if (!WALLET_NAME_PATTERN.test(name)) {
+      throw new Error(
+        "Wallet names may only use letters, digits, '-' and '_' (up to 32 characters)"
+      );
+    }
+    if (name === ENV_WALLET_NAME) {
+      throw new Error(`"${ENV_WALLET_NAME}" is reserved for the SOLANA_PRIVATE_KEY wallet`);
+    }
+    if (!password) {
+      throw new Error("A password is required to encrypt the wallet");
+    }
+    const file = this.read();
+    if (file.wallets.some((w) => w.name === name)) {
+      throw new Error(`Wallet "${name}" already exists`);
+    }
+    const publicKey = keypair.publicKey.toBase58();
+    const existing = file.wallets.find((w) => w.publicKey === publicKey);
+    if (existing) {
+      throw new Error(`This key is already stored as wallet "${existing.name}"`);
+    }
+
+    const kdf: KeystoreWallet["kdf"] = {
+      name: "scrypt",
+      salt: randomBytes(16).toString("hex"),
+      n: SCRYPT_N,
+      r: SCRYPT_R,
+      p: SCRYPT_P,
+    };
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", deriveKey(password, kdf), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(Buffer.from(keypair.secretKey)),
+      cipher.final(),
+    ]);
+
+    file.wallets.push({
+      name,
+      publicKey,
+      createdAt: Date.now(),
+      kdf,
+      cipher: {
+        name: "aes-256-gcm",
+        iv: iv.toString("hex"),
+        authTag: cipher.getAuthTag().toString("hex"),
+      },
+      ciphertext: ciphertext.toString("hex"),
+    });
+    // The first wallet becomes the default
+    file.defaultWallet ??= name;
+    this.write(file);
+  }
+
+  private find(file: KeystoreFile, name: string): KeystoreWallet {
+    const wallet = file.wallets.find((w) => w.name === name);
+    if (!wallet) {
+      throw new Error(`No wallet named "${name}" in the keystore`);
+    }
+    return wallet;
+  }
+
+  private read(): KeystoreFile {
+    return readJsonFile<KeystoreFile>(this.filePath, {
+      version: 1,
+      defaultWallet: null,
+      wallets: [],
+    });
+  }
+
+  // Owner-only permissions: the keys are encrypted, but the file is still
+  // open to offline password guessing
+  private write(file: KeystoreFile): void {
+    writeJsonFile(this.filePath, file, { mode: 0o600 });
+  }
+}
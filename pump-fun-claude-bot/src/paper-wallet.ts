@@ -0,0 +1,71 @@
+import { randomBytes } from "crypto";
+import bs58 from "bs58";
+import { config } from "./config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+
+interface PaperWalletState {
+  solBalance: number;
+  tokens: Record<string, number>;
+  createdAt: number;
+}
+
+export class PaperWallet {
+  private filePath: string;
+  private state: PaperWalletState;
+
+  constructor(filePath: string = dataPath("paper-wallet.json")) {
+    this.filePath = filePath;
+    this.state = this.freshState();
+  }
+
+  load(): void {
+    this.state = readJsonFile(this.filePath, this.freshState());
+  }
+
+  reset(startingSol: number = config.paperStartingSol): void {
+    this.state = this.freshState(startingSol);
+    this.save();
+  }
+
+  get solBalance(): number {
+    return this.state.solBalance;
+  }
+
+  getTokenBalance(mintAddress: string): number {
+    return this.state.tokens[mintAddress] || 0;
+  }
+
+  getHoldings(): Record<string, number> {
+    return { ...this.state.tokens };
+  }
+
+  applyBuy(mintAddress: string, solSpent: number, tokensReceived: number): void {
+    this.state.solBalance -= solSpent;
+    this.state.tokens[mintAddress] =
+      this.getTokenBalance(mintAddress) + tokensReceived;
+    this.save();
+  }
+
+  applySell(mintAddress: string, tokensSold: number, solReceived: number): void {
+    const remaining = this.getTokenBalance(mintAddress) - tokensSold;
+    if (remaining > 0) {
+      this.state.tokens[mintAddress] = remaining;
+    } else {
+      delete this.state.tokens[mintAddress];
+    }
+    this.state.solBalance += solReceived;
+    this.save();
+  }
+
+  createSignature(): string {
+    return `paper-${bs58.encode(randomBytes(64))}`;
+  }
+
+  private save(): void {
+    writeJsonFile(this.filePath, this.state);
+  }
+
+  private freshState(startingSol: number = config.paperStartingSol): PaperWalletState {
+    return { solBalance: startingSol, tokens: {}, createdAt: Date.now() };
+  }
+}
@@ -0,0 +1,207 @@
+import { LAMPORTS_PER_SOL, type PublicKey } from "@solana/web3.js";
+import {
+  curveFromToken,
+  fromBaseUnits,
+  graduationProgressPct,
+  quoteSell,
+  spotPriceSol,
+  toBaseUnits,
+  TOKEN_DECIMALS,
+} from "./bonding-curve.js";
+import { curveFromState } from "./pump-accounts.js";
+import { poolSpotPriceSol, quotePoolSell } from "./pump-swap.js";
+import { getWalletTokenAccounts, isReclaimable } from "./token-accounts.js";
+import type { PumpFunAPI } from "./pumpfun-api.js";
+import type { SolanaTrader } from "./solana-trader.js";
+import type { PortfolioHolding, PortfolioSnapshot, PumpFunToken } from "./types.js";
+
+// Holdings worth less than this when sold are flagged as dead
+const DEAD_VALUE_SOL = 0.0001;
+// A curve sold back to within this much of its launch state has no buyers left
+const DEAD_CURVE_PROGRESS_PCT = 0.5;
+
+interface HeldAmount {
+  mint: string;
+  tokenAccount: string | null;
+  amount: bigint;
+  decimals: number;
+  frozen: boolean;
+}
+
+// Values every token the wallet holds at what it would fetch if sold now.
+// Only the owner's address is needed, so no key has to be unlocked. Token
+// metadata is cached between snapshots; reserves are always re-read.
+export class PortfolioTracker {
+  private trader: SolanaTrader;
+  private api: PumpFunAPI;
+  // Null values the trader's paper wallet
+  private owner: PublicKey | null;
+  private tokens: Map<string, PumpFunToken | null> = new Map();
+
+  constructor(trader: SolanaTrader, api: PumpFunAPI, owner: PublicKey | null) {
+    this.trader = trader;
+    this.api = api;
+    this.owner = owner;
+  }
+
+  async snapshot(): Promise<PortfolioSnapshot> {
+    const [held, emptyAccounts] = await this.getHeldAmounts();
+    const [solBalance, apiSolPrice, holdings] = await Promise.all([
+      this.owner
+        ? this.trader.connection
+            .getBalance(this.owner)
+            .then((lamports) => lamports / LAMPORTS_PER_SOL)
+        : this.trader.getBalance(),
+      this.api.getSolPrice(),
+      Promise.all(held.map((h) => this.valueHolding(h))),
+    ]);
+
+    // Fall back to the SOL price implied by pump.fun's own market caps
+    const priced = holdings.find((h) => h.token && h.token.market_cap > 0);
+    const solPriceUsd =
+      apiSolPrice ??
+      (priced?.token ? priced.token.usd_market_cap / priced.token.market_cap : null);
+
+    for (const holding of holdings) {
+      holding.valueUsd =
+        holding.valueSol !== null && solPriceUsd !== null
+          ? holding.valueSol * solPriceUsd
+          : null;
+    }
+    holdings.sort((a, b) => (b.valueSol ?? -1) - (a.valueSol ?? -1));
+
+    const totalSol =
+      solBalance + holdings.reduce((sum, h) => sum + (h.valueSol ?? 0), 0);
+    return {
+      owner: this.owner?.toBase58() ?? "paper",
+      solBalance,
+      solPriceUsd,
+      holdings,
+      totalSol,
+      totalUsd: solPriceUsd !== null ? totalSol * solPriceUsd : null,
+      emptyAccounts,
+      fetchedAt: Date.now(),
+    };
+  }
+
+  private async getHeldAmounts(): Promise<[HeldAmount[], number]> {
+    if (!this.owner) {
+      const holdings = Object.entries(this.trader.getPaperHoldings()).map(
+        ([mint, amount]) => ({
+          mint,
+          tokenAccount: null,
+          amount: toBaseUnits(amount, TOKEN_DECIMALS),
+          decimals: TOKEN_DECIMALS,
+          frozen: false,
+        })
+      );
+      return [holdings, 0];
+    }
+
+    const accounts = await getWalletTokenAccounts(this.trader.connection, this.owner);
+    const held = accounts
+      .filter((a) => a.amount > 0n)
+      .map((a) => ({
+        mint: a.mint,
+        tokenAccount: a.address.toBase58(),
+        amount: a.amount,
+        decimals: a.decimals,
+        frozen: a.frozen,
+      }));
+    return [held, accounts.filter(isReclaimable).length];
+  }
+
+  private async valueHolding(held: HeldAmount): Promise<PortfolioHolding> {
+    const token = await this.getToken(held.mint);
+    const holding: PortfolioHolding = {
+      mint: held.mint,
+      symbol: token?.symbol ?? "?",
+      name: token?.name ?? "Unknown token",
+      tokenAccount: held.tokenAccount,
+      amount: fromBaseUnits(held.amount, held.decimals),
+      token,
+      venue: null,
+      priceSol: null,
+      valueSol: null,
+      valueUsd: null,
+      status: "unknown",
+    };
+
+    if (!token) {
+      holding.note = "not a pump.fun token";
+      return holding;
+    }
+    if (held.frozen) {
+      holding.status = "unsellable";
+      holding.note = "token account is frozen";
+      return holding;
+    }
+
+    try {
+      await this.price(holding, token, held.amount);
+    } catch (error) {
+      holding.status = "unsellable";
+      holding.note = error instanceof Error ? error.message : String(error);
+      return holding;
+    }
+
+    // price() has already flagged drained curves and empty pools
+    if (holding.status === "unknown") {
+      if (holding.valueSol !== null && holding.valueSol < DEAD_VALUE_SOL) {
+        holding.status = "dead";
+        holding.note = `worth less than ${DEAD_VALUE_SOL} SOL`;
+      } else {
+        holding.status = "ok";
+      }
+    }
+    return holding;
+  }
+
+  // Graduated tokens are priced from their pool, the rest from the live
+  // curve, or the API's reserves when the curve cannot be read
+  private async price(
+    holding: PortfolioHolding,
+    token: PumpFunToken,
+    amount: bigint
+  ): Promise<void> {
+    let complete = token.complete;
+    let curve = curveFromToken(token);
+    if (!complete) {
+      try {
+        const state = await this.trader.accounts.getBondingCurve(token.bonding_curve);
+        curve = curveFromState(state);
+        complete = state.complete;
+      } catch {
+        // Keep the API's reserves
+      }
+    }
+
+    if (complete) {
+      const market = await this.trader.pumpSwap.loadMarket(token);
+      const quote = quotePoolSell(market, amount, 0);
+      holding.venue = "pool";
+      holding.priceSol = poolSpotPriceSol(market.reserves);
+      holding.valueSol = fromBaseUnits(quote.solOut, 9);
+      if (quote.solOut === 0n) {
+        holding.status = "unsellable";
+        holding.note = "pool returns no SOL for this amount";
+      }
+      return;
+    }
+
+    holding.venue = "curve";
+    holding.priceSol = spotPriceSol(curve);
+    holding.valueSol = fromBaseUnits(quoteSell(curve, amount, 0).solOut, 9);
+    if (graduationProgressPct(curve) < DEAD_CURVE_PROGRESS_PCT) {
+      holding.status = "dead";
+      holding.note = "curve is back at its launch reserves";
+    }
+  }
+
+  private async getToken(mint: string): Promise<PumpFunToken | null> {
+    if (!this.tokens.has(mint)) {
+      this.tokens.set(mint, await this.api.getToken(mint));
+    }
+    return this.tokens.get(mint) ?? null;
+  }
+}
@@ -0,0 +1,174 @@
+import { readJsonFile, walletDataPath, writeJsonFile } from "./storage.js";
+import type { PumpFunAPI } from "./pumpfun-api.js";
+import type { PumpSwap } from "./pump-swap.js";
+import type {
+  LedgerEntry,
+  Position,
+  PositionValuation,
+  PumpFunToken,
+  RealizedSell,
+  TradeResult,
+} from "./types.js";
+
+const DUST_TOKENS = 1e-6;
+
+interface LedgerFile {
+  entries: LedgerEntry[];
+}
+
+export class PositionLedger {
+  private filePath: string;
+
+  // Each keystore wallet keeps its own ledger, so positions are only
+  // managed from the wallet that holds them
+  constructor(
+    options: { paper?: boolean; wallet?: string | null; filePath?: string } = {}
+  ) {
+    this.filePath = options.filePath ?? walletDataPath("ledger.json", options);
+  }
+
+  getEntries(): LedgerEntry[] {
+    return readJsonFile<LedgerFile>(this.filePath, { entries: [] }).entries;
+  }
+
+  recordTrade(
+    side: LedgerEntry["side"],
+    token: PumpFunToken,
+    result: TradeResult
+  ): LedgerEntry | null {
+    if (!result.success || !result.signature || result.amountOut === undefined) {
+      return null;
+    }
+
+    const entry: LedgerEntry = {
+      side,
+      mint: token.mint,
+      symbol: token.symbol,
+      creator: token.creator,
+      signature: result.signature,
+      solAmount: side === "buy" ? result.amountIn : result.amountOut,
+      tokenAmount: side === "buy" ? result.amountOut : result.amountIn,
+      timestamp: Date.now(),
+    };
+
+    const entries = this.getEntries();
+    entries.push(entry);
+    writeJsonFile(this.filePath, { entries });
+    return entry;
+  }
+
+  // Average cost method: sells release cost at the running average price.
+  getPositions(): Position[] {
+    return this.replay().positions;
+  }
+
+  getRealizedSells(): RealizedSell[] {
+    return this.replay().sells;
+  }
+
+  getOpenPositions(): Position[] {
+    return this.getPositions().filter((p) => p.tokenAmount > 0);
+  }
+
+  getPosition(mintAddress: string): Position | null {
+    return this.getPositions().find((p) => p.mint === mintAddress) ?? null;
+  }
+
+  // Graduated tokens are priced from their pool, the rest from the curve
+  async valuePositions(
+    api: PumpFunAPI,
+    pumpSwap: PumpSwap,
+    positions: Position[] = this.getPositions()
+  ): Promise<PositionValuation[]> {
+    return Promise.all(
+      positions.map(async (position) => {
+        if (position.tokenAmount === 0) {
+          return {
+            position,
+            priceSol: null,
+            marketValueSol: 0,
+            unrealizedPnlSol: 0,
+          };
+        }
+
+        const token = await api.getToken(position.mint);
+        const priceSol = token
+          ? await pumpSwap.tokenPriceSol(token).catch(() => null)
+          : null;
+        if (priceSol === null) {
+          return {
+            position,
+            priceSol: null,
+            marketValueSol: null,
+            unrealizedPnlSol: null,
+          };
+        }
+
+        const marketValueSol = priceSol * position.tokenAmount;
+        return {
+          position,
+          priceSol,
+          marketValueSol,
+          unrealizedPnlSol: marketValueSol - position.costBasisSol,
+        };
+      })
+    );
+  }
+
+  private replay(): { positions: Position[]; sells: RealizedSell[] } {
+    const positions = new Map<string, Position>();
+    const sells: RealizedSell[] = [];
+
+    for (const entry of this.getEntries()) {
+      let position = positions.get(entry.mint);
+      if (!position) {
+        position = {
+          mint: entry.mint,
+          symbol: entry.symbol,
+          creator: entry.creator,
+          tokenAmount: 0,
+          costBasisSol: 0,
+          averageCostSol: 0,
+          realizedPnlSol: 0,
+          totalBoughtSol: 0,
+          totalSoldSol: 0,
+          openedAt: entry.timestamp,
+          lastTradeAt: entry.timestamp,
+        };
+        positions.set(entry.mint, position);
+      }
+
+      if (entry.side === "buy") {
+        if (position.tokenAmount <= DUST_TOKENS) {
+          position.openedAt = entry.timestamp;
+        }
+        position.tokenAmount += entry.tokenAmount;
+        position.costBasisSol += entry.solAmount;
+        position.totalBoughtSol += entry.solAmount;
+      } else {
+        // Tokens the ledger never saw bought have no cost basis, so only the
+        // share of the proceeds for the tokens it holds is realized here
+        const sold = Math.min(entry.tokenAmount, position.tokenAmount);
+        const proceedsSol =
+          entry.tokenAmount > 0 ? (entry.solAmount * sold) / entry.tokenAmount : 0;
+        const releasedCost = position.averageCostSol * sold;
+        const pnlSol = proceedsSol - releasedCost;
+        position.realizedPnlSol += pnlSol;
+        sells.push({ mint: entry.mint, pnlSol, timestamp: entry.timestamp });
+        position.tokenAmount -= sold;
+        position.costBasisSol -= releasedCost;
+        position.totalSoldSol += proceedsSol;
+        if (position.tokenAmount <= DUST_TOKENS) {
+          position.tokenAmount = 0;
+          position.costBasisSol = 0;
+        }
+      }
+
+      position.averageCostSol =
+        position.tokenAmount > 0 ? position.costBasisSol / position.tokenAmount : 0;
+      position.lastTradeAt = entry.timestamp;
+    }
+
+    return { positions: [...positions.values()], sells };
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+  type TransactionError,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { PUMP_FUN_PROGRAM_ID } from "./pump-accounts.js";
+import { PUMP_SWAP_PROGRAM_ID } from "./pump-swap.js";
+
+// Custom error codes from the pump.fun program IDL
+const PUMP_FUN_ERRORS: Record<number, string> = {
+  6000: "Not authorized to execute this instruction",
+  6001: "Program is already initialized",
+  6002: "Slippage exceeded: buying these tokens needs more SOL than the max cost allows",
+  6003: "Slippage exceeded: selling these tokens returns less SOL than the minimum",
+  6004: "Mint does not match the bonding curve",
+  6005: "Bonding curve is complete, the token has graduated",
+  6006: "Bonding curve is not complete yet",
+  6007: "Program is not initialized",
+};
+
+// Custom error codes from the PumpSwap (pump_amm) program IDL
+const PUMP_SWAP_ERRORS: Record<number, string> = {
+  6000: "Fee basis points exceed the maximum",
+  6001: "Base token amount is zero",
+  6002: "Quote token amount is zero",
+  6003: "Too little pool token liquidity",
+  6004: "Slippage exceeded: the swap falls outside the max cost or minimum out",
+  6005: "Not authorized to execute this instruction",
+  6006: "Base mint is not supported",
+  6007: "Quote mint is not supported",
+  6008: "Invalid base mint",
+  6009: "Invalid quote mint",
+  6010: "Invalid LP mint",
+  6011: "Protocol fee recipients must all be set",
+  6012: "Protocol fee recipients must be sorted and unique",
+  6013: "Invalid protocol fee recipient",
+  6014: "Invalid pool base token account",
+  6015: "Invalid pool quote token account",
+  6016: "Insufficient liquidity: buying more tokens than the pool holds",
+  6017: "Pool creation is disabled",
+  6018: "Deposits are disabled",
+  6019: "Withdrawals are disabled",
+  6020: "Buying is disabled",
+  6021: "Selling is disabled",
+  6022: "Base and quote mints are the same",
+  6023: "Arithmetic overflow",
+  6024: "Arithmetic truncation",
+  6025: "Division by zero",
+};
+
+// spl-token TokenError, in declaration order
+const TOKEN_ERRORS: Record<number, string> = {
+  0: "Token account is not rent exempt",
+  1: "Insufficient token balance",
+  2: "Invalid mint",
+  3: "Token account does not belong to this mint",
+  4: "Token account owner does not match",
+  5: "Token supply is fixed",
+  6: "Token account is already in use",
+  7: "Invalid number of provided signers",
+  8: "Invalid number of required signers",
+  9: "Token account is not initialized",
+  10: "Instruction does not support native tokens",
+  11: "Non-native account can only be closed with a zero balance",
+  12: "Invalid token instruction",
+  13: "Token account is in an invalid state",
+  14: "Token amount overflow",
+  15: "Authority type not supported",
+  16: "Mint cannot freeze accounts",
+  17: "Token account is frozen",
+  18: "Mint decimals mismatch",
+  19: "Instruction does not support non-native tokens",
+};
+
+const SYSTEM_ERRORS: Record<number, string> = {
+  0: "Account already exists",
+  1: "Insufficient SOL balance",
+  2: "Cannot assign account to this program",
+  3: "Account data size is invalid",
+};
+
+const ASSOCIATED_TOKEN_ERRORS: Record<number, string> = {
+  0: "Associated token account owner does not match the address derivation",
+};
+
+const PROGRAM_ERRORS: { programId: PublicKey; name: string; errors: Record<number, string> }[] = [
+  { programId: PUMP_FUN_PROGRAM_ID, name: "pump.fun", errors: PUMP_FUN_ERRORS },
+  { programId: PUMP_SWAP_PROGRAM_ID, name: "PumpSwap", errors: PUMP_SWAP_ERRORS },
+  { programId: TOKEN_PROGRAM_ID, name: "SPL Token", errors: TOKEN_ERRORS },
+  { programId: SystemProgram.programId, name: "System", errors: SYSTEM_ERRORS },
+  {
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    name: "Associated Token",
+    errors: ASSOCIATED_TOKEN_ERRORS,
+  },
+  { programId: ComputeBudgetProgram.programId, name: "Compute Budget", errors: {} },
+];
+
+const TRANSACTION_ERRORS: Record<string, string> = {
+  InsufficientFundsForFee: "Not enough SOL to pay the transaction fee",
+  BlockhashNotFound: "Blockhash not found or expired",
+  AccountNotFound: "Fee payer account not found, fund the wallet first",
+  AlreadyProcessed: "Transaction was already processed",
+  InsufficientFundsForRent: "Not enough SOL to keep an account rent exempt",
+};
+
+// Turns the structured error from a simulation or signature status into a
+// readable message. programIds lists each instruction's program, in order,
+// so custom codes can be resolved against the program that raised them.
+export function describeTransactionError(
+  error: TransactionError | string | null | undefined,
+  programIds: PublicKey[]
+): string {
+  if (!error) return "Unknown transaction error";
+  if (typeof error === "string") {
+    return TRANSACTION_ERRORS[error] ?? error;
+  }
+
+  const instructionError = (error as { InstructionError?: [number, unknown] })
+    .InstructionError;
+  if (!instructionError) {
+    return JSON.stringify(error);
+  }
+
+  const [index, detail] = instructionError;
+  const programId = programIds[index];
+  const program = programId
+    ? PROGRAM_ERRORS.find((p) => p.programId.equals(programId))
+    : undefined;
+  const where = program ? `${program.name} instruction ${index}` : `instruction ${index}`;
+
+  if (typeof detail === "string") {
+    if (detail === "ComputationalBudgetExceeded") {
+      return `Ran out of compute units in ${where}, raise COMPUTE_UNIT_LIMIT`;
+    }
+    return `${detail} in ${where}`;
+  }
+
+  const code = (detail as { Custom?: number }).Custom;
+  if (code === undefined) {
+    return `${JSON.stringify(detail)} in ${where}`;
+  }
+  const message = program?.errors[code];
+  return message
+    ? `${message} (${where}, code ${code})`
+    : `Custom program error ${code} in ${where}`;
+}
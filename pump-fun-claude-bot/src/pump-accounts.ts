@@ -0,0 +1,154 @@
+import { Connection, PublicKey, type Commitment } from "@solana/web3.js";
+import { curveFromReserves, type CurveReserves } from "./bonding-curve.js";
+
+export const PUMP_FUN_PROGRAM_ID = new PublicKey(
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
+);
+export const PUMP_GLOBAL_STATE = new PublicKey(
+  "4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf"
+);
+
+// Anchor accounts start with an 8-byte discriminator
+const DISCRIMINATOR_SIZE = 8;
+// Fee parameters change rarely, so the global account is read at most this often
+const GLOBAL_TTL_MS = 5 * 60 * 1000;
+
+export interface BondingCurveState {
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint;
+  realTokenReserves: bigint;
+  realSolReserves: bigint;
+  tokenTotalSupply: bigint;
+  complete: boolean;
+}
+
+export interface PumpGlobalState {
+  initialized: boolean;
+  authority: PublicKey;
+  feeRecipient: PublicKey;
+  initialVirtualTokenReserves: bigint;
+  initialVirtualSolReserves: bigint;
+  initialRealTokenReserves: bigint;
+  tokenTotalSupply: bigint;
+  feeBasisPoints: bigint;
+}
+
+// Later program versions append fields; only the leading layout is read.
+export function decodeBondingCurve(data: Buffer): BondingCurveState {
+  if (data.length < DISCRIMINATOR_SIZE + 41) {
+    throw new Error(`Bonding curve account too short: ${data.length} bytes`);
+  }
+  let offset = DISCRIMINATOR_SIZE;
+  const readU64 = () => {
+    const value = data.readBigUInt64LE(offset);
+    offset += 8;
+    return value;
+  };
+  return {
+    virtualTokenReserves: readU64(),
+    virtualSolReserves: readU64(),
+    realTokenReserves: readU64(),
+    realSolReserves: readU64(),
+    tokenTotalSupply: readU64(),
+    complete: data[offset] === 1,
+  };
+}
+
+export function decodeGlobal(data: Buffer): PumpGlobalState {
+  if (data.length < DISCRIMINATOR_SIZE + 105) {
+    throw new Error(`Global account too short: ${data.length} bytes`);
+  }
+  let offset = DISCRIMINATOR_SIZE;
+  const initialized = data[offset] === 1;
+  offset += 1;
+  const readKey = () => {
+    const key = new PublicKey(data.subarray(offset, offset + 32));
+    offset += 32;
+    return key;
+  };
+  const readU64 = () => {
+    const value = data.readBigUInt64LE(offset);
+    offset += 8;
+    return value;
+  };
+  return {
+    initialized,
+    authority: readKey(),
+    feeRecipient: readKey(),
+    initialVirtualTokenReserves: readU64(),
+    initialVirtualSolReserves: readU64(),
+    initialRealTokenReserves: readU64(),
+    tokenTotalSupply: readU64(),
+    feeBasisPoints: readU64(),
+  };
+}
+
+// Uses the decoded real reserves instead of deriving them from the virtual ones
+export function curveFromState(state: BondingCurveState): CurveReserves {
+  return {
+    ...curveFromReserves(state.virtualSolReserves, state.virtualTokenReserves),
+    realTokenReserves: state.realTokenReserves,
+  };
+}
+
+export class PumpAccounts {
+  private connection: Connection;
+  private commitment: Commitment;
+  private global: { state: PumpGlobalState; fetchedAt: number } | null = null;
+
+  constructor(connection: Connection, commitment: Commitment = "confirmed") {
+    this.connection = connection;
+    this.commitment = commitment;
+  }
+
+  async getBondingCurve(address: string): Promise<BondingCurveState> {
+    const info = await this.connection.getAccountInfo(
+      new PublicKey(address),
+      this.commitment
+    );
+    if (!info) {
+      throw new Error(`Bonding curve account not found: ${address}`);
+    }
+    if (!info.owner.equals(PUMP_FUN_PROGRAM_ID)) {
+      throw new Error(`Account ${address} is not owned by the pump.fun program`);
+    }
+    return decodeBondingCurve(info.data);
+  }
+
+  async getGlobal(): Promise<PumpGlobalState> {
+    if (this.global && Date.now() - this.global.fetchedAt < GLOBAL_TTL_MS) {
+      return this.global.state;
+    }
+    const info = await this.connection.getAccountInfo(
+      PUMP_GLOBAL_STATE,
+      this.commitment
+    );
+    if (!info) {
+      throw new Error("pump.fun global account not found");
+    }
+    const state = decodeGlobal(info.data);
+    this.global = { state, fetchedAt: Date.now() };
+    return state;
+  }
+
+  // Streams every change to the curve account. Returns an unsubscribe function.
+  subscribeBondingCurve(
+    address: string,
+    callback: (state: BondingCurveState) => void
+  ): () => void {
+    const subscriptionId = this.connection.onAccountChange(
+      new PublicKey(address),
+      (info) => {
+        try {
+          callback(decodeBondingCurve(info.data));
+        } catch (error) {
+          console.error(`Could not decode bonding curve ${address}:`, error);
+        }
+      },
+      { commitment: this.commitment }
+    );
+    return () => {
+      this.connection.removeAccountChangeListener(subscriptionId).catch(() => undefined);
+    };
+  }
+}
@@ -0,0 +1,446 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  applySlippage,
+  ceilDiv,
+  curveFromToken,
+  spotPriceSol,
+  TOKEN_DECIMALS,
+  type BuyQuote,
+  type SellQuote,
+} from "./bonding-curve.js";
+import { PUMP_FUN_PROGRAM_ID } from "./pump-accounts.js";
+import type { PumpFunToken } from "./types.js";
+
+// Graduated pump.fun tokens migrate to a PumpSwap pool that pairs the token
+// (base) with wrapped SOL (quote). Older tokens went to Raydium AMM v4.
+export const PUMP_SWAP_PROGRAM_ID = new PublicKey(
+  "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA"
+);
+const RAYDIUM_AMM_V4_PROGRAM_ID = new PublicKey(
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8"
+);
+
+const DISCRIMINATOR_SIZE = 8;
+const BUY_DISCRIMINATOR = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]);
+const SELL_DISCRIMINATOR = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]);
+
+const [GLOBAL_CONFIG] = PublicKey.findProgramAddressSync(
+  [Buffer.from("global_config")],
+  PUMP_SWAP_PROGRAM_ID
+);
+const [EVENT_AUTHORITY] = PublicKey.findProgramAddressSync(
+  [Buffer.from("__event_authority")],
+  PUMP_SWAP_PROGRAM_ID
+);
+
+export interface PumpSwapPool {
+  address: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  poolBaseTokenAccount: PublicKey;
+  poolQuoteTokenAccount: PublicKey;
+  // Only present on pools created after creator fees were introduced
+  coinCreator: PublicKey | null;
+}
+
+export interface PumpSwapGlobalConfig {
+  lpFeeBps: bigint;
+  protocolFeeBps: bigint;
+  coinCreatorFeeBps: bigint;
+  protocolFeeRecipients: PublicKey[];
+}
+
+export interface PoolReserves {
+  base: bigint;
+  quote: bigint;
+}
+
+// Everything needed to quote and build a swap
+export interface PumpSwapMarket {
+  pool: PumpSwapPool;
+  config: PumpSwapGlobalConfig;
+  reserves: PoolReserves;
+  baseTokenProgram: PublicKey;
+}
+
+export function decodePool(address: PublicKey, data: Buffer): PumpSwapPool {
+  // bump (u8) and index (u16) precede the keys
+  let offset = DISCRIMINATOR_SIZE + 3;
+  if (data.length < offset + 32 * 6 + 8) {
+    throw new Error(`PumpSwap pool account too short: ${data.length} bytes`);
+  }
+  const readKey = () => {
+    const key = new PublicKey(data.subarray(offset, offset + 32));
+    offset += 32;
+    return key;
+  };
+  readKey(); // pool creator
+  const baseMint = readKey();
+  const quoteMint = readKey();
+  readKey(); // lp mint
+  const poolBaseTokenAccount = readKey();
+  const poolQuoteTokenAccount = readKey();
+  offset += 8; // lp supply
+  const coinCreator = data.length >= offset + 32 ? readKey() : null;
+
+  return {
+    address,
+    baseMint,
+    quoteMint,
+    poolBaseTokenAccount,
+    poolQuoteTokenAccount,
+    coinCreator: coinCreator && !coinCreator.equals(PublicKey.default) ? coinCreator : null,
+  };
+}
+
+export function decodeGlobalConfig(data: Buffer): PumpSwapGlobalConfig {
+  let offset = DISCRIMINATOR_SIZE + 32; // admin
+  if (data.length < offset + 8 + 8 + 1 + 32 * 8) {
+    throw new Error(`PumpSwap global config too short: ${data.length} bytes`);
+  }
+  const lpFeeBps = data.readBigUInt64LE(offset);
+  const protocolFeeBps = data.readBigUInt64LE(offset + 8);
+  offset += 8 + 8 + 1; // fees and disable flags
+  const protocolFeeRecipients: PublicKey[] = [];
+  for (let i = 0; i < 8; i++) {
+    const key = new PublicKey(data.subarray(offset, offset + 32));
+    offset += 32;
+    if (!key.equals(PublicKey.default)) protocolFeeRecipients.push(key);
+  }
+  const coinCreatorFeeBps =
+    data.length >= offset + 8 ? data.readBigUInt64LE(offset) : 0n;
+
+  return { lpFeeBps, protocolFeeBps, coinCreatorFeeBps, protocolFeeRecipients };
+}
+
+// Pools created by the pump.fun migration are owned by a per-mint authority
+// of the bonding curve program, at index 0
+export function derivePumpSwapPool(mint: PublicKey): PublicKey {
+  const [poolAuthority] = PublicKey.findProgramAddressSync(
+    [Buffer.from("pool-authority"), mint.toBuffer()],
+    PUMP_FUN_PROGRAM_ID
+  );
+  const index = Buffer.alloc(2);
+  const [pool] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("pool"),
+      index,
+      poolAuthority.toBuffer(),
+      mint.toBuffer(),
+      NATIVE_MINT.toBuffer(),
+    ],
+    PUMP_SWAP_PROGRAM_ID
+  );
+  return pool;
+}
+
+function totalFeeBps(config: PumpSwapGlobalConfig): bigint {
+  return config.lpFeeBps + config.protocolFeeBps + config.coinCreatorFeeBps;
+}
+
+// Each fee is rounded up on-chain separately
+function poolFees(amount: bigint, config: PumpSwapGlobalConfig): bigint {
+  return [config.lpFeeBps, config.protocolFeeBps, config.coinCreatorFeeBps].reduce(
+    (sum, bps) => sum + ceilDiv(amount * bps, 10000n),
+    0n
+  );
+}
+
+function poolPriceImpactPct(
+  reserves: PoolReserves,
+  quoteAmount: bigint,
+  baseAmount: bigint
+): number {
+  if (baseAmount <= 0n || reserves.base === 0n) return 0;
+  const spot = Number(reserves.quote) / Number(reserves.base);
+  const fill = Number(quoteAmount) / Number(baseAmount);
+  return Math.abs(fill / spot - 1) * 100;
+}
+
+// SOL per whole token at the pool's current reserves
+export function poolSpotPriceSol(reserves: PoolReserves): number {
+  if (reserves.base === 0n) return 0;
+  return (Number(reserves.quote) / Number(reserves.base)) * (10 ** TOKEN_DECIMALS / 1e9);
+}
+
+export function quotePoolBuy(
+  market: PumpSwapMarket,
+  solIn: bigint,
+  slippageBps: number
+): BuyQuote {
+  const { reserves, config } = market;
+  // Leave room for the fees, which are charged on top of the swap amount.
+  // Per-fee rounding can push the total a few lamports over the budget.
+  let netSol = (solIn * 10000n) / (10000n + totalFeeBps(config));
+  while (netSol > 0n && netSol + poolFees(netSol, config) > solIn) {
+    netSol--;
+  }
+  const tokensOut = (reserves.base * netSol) / (reserves.quote + netSol);
+  return {
+    solIn,
+    fee: solIn - netSol,
+    tokensOut,
+    minTokensOut: applySlippage(tokensOut, slippageBps, "down"),
+    maxSolCost: applySlippage(solIn, slippageBps, "up"),
+    priceImpactPct: poolPriceImpactPct(reserves, netSol, tokensOut),
+  };
+}
+
+export function quotePoolSell(
+  market: PumpSwapMarket,
+  tokensIn: bigint,
+  slippageBps: number
+): SellQuote {
+  const { reserves, config } = market;
+  const grossSol = (reserves.quote * tokensIn) / (reserves.base + tokensIn);
+  const fee = poolFees(grossSol, config);
+  const solOut = grossSol > fee ? grossSol - fee : 0n;
+  return {
+    tokensIn,
+    fee,
+    solOut,
+    minSolOut: applySlippage(solOut, slippageBps, "down"),
+    priceImpactPct: poolPriceImpactPct(reserves, grossSol, tokensIn),
+  };
+}
+
+// Tokens to sell to receive at least solOut after fees
+export function poolTokensForSol(market: PumpSwapMarket, solOut: bigint): bigint {
+  const { reserves, config } = market;
+  if (solOut <= 0n) return 0n;
+  let grossSol = ceilDiv(solOut * 10000n, 10000n - totalFeeBps(config));
+  while (grossSol - poolFees(grossSol, config) < solOut) {
+    grossSol++;
+  }
+  if (grossSol >= reserves.quote) {
+    throw new Error("The pool does not hold enough SOL for this sale");
+  }
+  return ceilDiv(grossSol * reserves.base, reserves.quote - grossSol);
+}
+
+export class PumpSwap {
+  private connection: Connection;
+  private config: { value: PumpSwapGlobalConfig; fetchedAt: number } | null = null;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  // SOL per token at spot: from the pool once the token has graduated,
+  // from the API's curve reserves before
+  async tokenPriceSol(token: PumpFunToken): Promise<number> {
+    if (!token.complete) return spotPriceSol(curveFromToken(token));
+    return poolSpotPriceSol((await this.loadMarket(token)).reserves);
+  }
+
+  // The API's raydium_pool is used when it points at a PumpSwap pool;
+  // otherwise the canonical migration pool is derived from the mint.
+  async loadMarket(token: PumpFunToken): Promise<PumpSwapMarket> {
+    const mint = new PublicKey(token.mint);
+    let address = derivePumpSwapPool(mint);
+
+    if (token.raydium_pool) {
+      const listed = new PublicKey(token.raydium_pool);
+      const info = await this.connection.getAccountInfo(listed);
+      if (info?.owner.equals(RAYDIUM_AMM_V4_PROGRAM_ID)) {
+        throw new Error(
+          `${token.symbol} migrated to a Raydium AMM v4 pool, which is not supported`
+        );
+      }
+      if (info?.owner.equals(PUMP_SWAP_PROGRAM_ID)) {
+        address = listed;
+      }
+    }
+
+    const poolInfo = await this.connection.getAccountInfo(address);
+    if (!poolInfo || !poolInfo.owner.equals(PUMP_SWAP_PROGRAM_ID)) {
+      throw new Error(`No PumpSwap pool found for ${token.symbol}`);
+    }
+    const pool = decodePool(address, poolInfo.data);
+    if (!pool.baseMint.equals(mint) || !pool.quoteMint.equals(NATIVE_MINT)) {
+      throw new Error(`Pool ${address.toBase58()} does not pair ${token.symbol} with SOL`);
+    }
+
+    const [config, accounts] = await Promise.all([
+      this.getGlobalConfig(),
+      this.connection.getMultipleAccountsInfo([
+        pool.poolBaseTokenAccount,
+        pool.poolQuoteTokenAccount,
+        pool.baseMint,
+      ]),
+    ]);
+    const [baseAccount, quoteAccount, mintAccount] = accounts;
+    if (!baseAccount || !quoteAccount || !mintAccount) {
+      throw new Error(`Pool ${address.toBase58()} token accounts not found`);
+    }
+
+    return {
+      pool,
+      config,
+      // Token account amount follows the mint and owner keys
+      reserves: {
+        base: baseAccount.data.readBigUInt64LE(64),
+        quote: quoteAccount.data.readBigUInt64LE(64),
+      },
+      baseTokenProgram: mintAccount.owner,
+    };
+  }
+
+  async getGlobalConfig(): Promise<PumpSwapGlobalConfig> {
+    if (this.config && Date.now() - this.config.fetchedAt < 5 * 60 * 1000) {
+      return this.config.value;
+    }
+    const info = await this.connection.getAccountInfo(GLOBAL_CONFIG);
+    if (!info) {
+      throw new Error("PumpSwap global config not found");
+    }
+    const value = decodeGlobalConfig(info.data);
+    this.config = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  // SOL is wrapped into a temporary WSOL account for the swap and the
+  // account is closed afterwards, returning any unspent SOL
+  buildBuyInstructions(
+    user: PublicKey,
+    market: PumpSwapMarket,
+    tokensOut: bigint,
+    maxSolCost: bigint
+  ): TransactionInstruction[] {
+    const { userBaseAccount, userQuoteAccount } = this.userAccounts(user, market);
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(
+        user,
+        userBaseAccount,
+        user,
+        market.pool.baseMint,
+        market.baseTokenProgram
+      ),
+      createAssociatedTokenAccountIdempotentInstruction(
+        user,
+        userQuoteAccount,
+        user,
+        NATIVE_MINT
+      ),
+      SystemProgram.transfer({
+        fromPubkey: user,
+        toPubkey: userQuoteAccount,
+        lamports: maxSolCost,
+      }),
+      createSyncNativeInstruction(userQuoteAccount),
+      this.buildSwapInstruction(BUY_DISCRIMINATOR, user, market, tokensOut, maxSolCost),
+      createCloseAccountInstruction(userQuoteAccount, user, user),
+    ];
+  }
+
+  buildSellInstructions(
+    user: PublicKey,
+    market: PumpSwapMarket,
+    tokensIn: bigint,
+    minSolOut: bigint
+  ): TransactionInstruction[] {
+    const { userQuoteAccount } = this.userAccounts(user, market);
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(
+        user,
+        userQuoteAccount,
+        user,
+        NATIVE_MINT
+      ),
+      this.buildSwapInstruction(SELL_DISCRIMINATOR, user, market, tokensIn, minSolOut),
+      createCloseAccountInstruction(userQuoteAccount, user, user),
+    ];
+  }
+
+  userAccounts(
+    user: PublicKey,
+    market: PumpSwapMarket
+  ): { userBaseAccount: PublicKey; userQuoteAccount: PublicKey } {
+    return {
+      userBaseAccount: getAssociatedTokenAddressSync(
+        market.pool.baseMint,
+        user,
+        false,
+        market.baseTokenProgram
+      ),
+      userQuoteAccount: getAssociatedTokenAddressSync(NATIVE_MINT, user),
+    };
+  }
+
+  // Buy and sell share an account layout; the two u64 arguments are
+  // (base out, max quote in) for buys and (base in, min quote out) for sells
+  private buildSwapInstruction(
+    discriminator: Buffer,
+    user: PublicKey,
+    market: PumpSwapMarket,
+    baseAmount: bigint,
+    quoteLimit: bigint
+  ): TransactionInstruction {
+    const { pool, config, baseTokenProgram } = market;
+    const { userBaseAccount, userQuoteAccount } = this.userAccounts(user, market);
+    const protocolFeeRecipient = config.protocolFeeRecipients[0];
+    if (!protocolFeeRecipient) {
+      throw new Error("PumpSwap global config has no protocol fee recipient");
+    }
+
+    const data = Buffer.alloc(24);
+    discriminator.copy(data, 0);
+    data.writeBigUInt64LE(baseAmount, 8);
+    data.writeBigUInt64LE(quoteLimit, 16);
+
+    const keys = [
+      { pubkey: pool.address, isSigner: false, isWritable: true },
+      { pubkey: user, isSigner: true, isWritable: true },
+      { pubkey: GLOBAL_CONFIG, isSigner: false, isWritable: false },
+      { pubkey: pool.baseMint, isSigner: false, isWritable: false },
+      { pubkey: pool.quoteMint, isSigner: false, isWritable: false },
+      { pubkey: userBaseAccount, isSigner: false, isWritable: true },
+      { pubkey: userQuoteAccount, isSigner: false, isWritable: true },
+      { pubkey: pool.poolBaseTokenAccount, isSigner: false, isWritable: true },
+      { pubkey: pool.poolQuoteTokenAccount, isSigner: false, isWritable: true },
+      { pubkey: protocolFeeRecipient, isSigner: false, isWritable: false },
+      {
+        pubkey: getAssociatedTokenAddressSync(NATIVE_MINT, protocolFeeRecipient, true),
+        isSigner: false,
+        isWritable: true,
+      },
+      { pubkey: baseTokenProgram, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: EVENT_AUTHORITY, isSigner: false, isWritable: false },
+      { pubkey: PUMP_SWAP_PROGRAM_ID, isSigner: false, isWritable: false },
+    ];
+
+    if (pool.coinCreator) {
+      const [vaultAuthority] = PublicKey.findProgramAddressSync(
+        [Buffer.from("creator_vault"), pool.coinCreator.toBuffer()],
+        PUMP_SWAP_PROGRAM_ID
+      );
+      keys.push(
+        {
+          pubkey: getAssociatedTokenAddressSync(NATIVE_MINT, vaultAuthority, true),
+          isSigner: false,
+          isWritable: true,
+        },
+        { pubkey: vaultAuthority, isSigner: false, isWritable: false }
+      );
+    }
+
+    return new TransactionInstruction({ programId: PUMP_SWAP_PROGRAM_ID, keys, data });
+  }
+}
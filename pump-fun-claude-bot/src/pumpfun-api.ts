@@ -68,22 +68,18 @@ export class PumpFunAPI {
     }
   }
 
+  // Throws rather than returning an empty list: a failed lookup must not
+  // make a serial launcher look like a first-time creator
   async getTokensByCreator(creatorAddress: string): Promise<PumpFunToken[]> {
-    try {
-      const response = await fetch(
-        `${this.baseUrl}/coins?creator=${creatorAddress}&limit=50`
+    const response = await fetch(
+      `${this.baseUrl}/coins?creator=${creatorAddress}&limit=50`
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Creator history for ${creatorAddress}: HTTP ${response.status} ${response.statusText}`
       );
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      return (await response.json()) as PumpFunToken[];
-    } catch (error) {
-      console.error(
-        `Error fetching tokens by creator ${creatorAddress}:`,
-        error
-      );
-      return [];
     }
+    return (await response.json()) as PumpFunToken[];
   }
 
   async getGraduatedTokens(limit: number = 20): Promise<PumpFunToken[]> {
@@ -101,13 +97,18 @@ export class PumpFunAPI {
     }
   }
 
-  calculatePrice(token: PumpFunToken): number {
-    if (token.virtual_token_reserves === 0) return 0;
-    return token.virtual_sol_reserves / token.virtual_token_reserves;
-  }
-
-  calculateMarketCapSol(token: PumpFunToken): number {
-    const price = this.calculatePrice(token);
-    return price * token.total_supply;
+  // USD per SOL, as used by pump.fun for its USD market caps
+  async getSolPrice(): Promise<number | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/sol-price`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const body = (await response.json()) as { solPrice?: number };
+      return typeof body.solPrice === "number" ? body.solPrice : null;
+    } catch (error) {
+      console.error("Error fetching SOL price:", error);
+      return null;
+    }
   }
 }
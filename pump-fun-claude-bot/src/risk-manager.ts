@@ -0,0 +1,274 @@
+import * as fs from "fs";
+import { config } from "./config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { PositionLedger } from "./position-ledger.js";
+import type {
+  KillSwitchState,
+  PumpFunToken,
+  RiskLimits,
+  RiskRejection,
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function limit(value: number): number | null {
+  return value > 0 ? value : null;
+}
+
+export const defaultRiskLimits: RiskLimits = {
+  maxOrderSol: config.maxBuyAmount,
+  dailyLossLimitSol: limit(config.riskDailyLossLimitSol),
+  maxMintExposureSol: limit(config.riskMaxMintExposureSol),
+  maxTotalExposureSol: limit(config.riskMaxTotalExposureSol),
+  maxOpenPositions: limit(config.riskMaxOpenPositions),
+  minSolReserve: config.riskMinSolReserve,
+  maxCreatorExposureSol: limit(config.riskMaxCreatorExposureSol),
+  maxPositionsPerCreator: limit(config.riskMaxPositionsPerCreator),
+  lossCooldownMinutes: limit(config.riskLossCooldownMinutes),
+};
+
+export interface RiskStatus {
+  killSwitch: KillSwitchState | null;
+  realizedTodaySol: number;
+  cooldownUntil: number | null;
+  openPositions: number;
+  totalExposureSol: number;
+}
+
+export interface RiskManagerOptions {
+  limits?: RiskLimits;
+  killSwitchPath?: string;
+}
+
+// Buys that passed the checks but have not reached the ledger yet
+interface PendingBuy {
+  mint: string;
+  creator: string;
+  solAmount: number;
+}
+
+// Exposure is the open cost basis from the trade ledger, so it covers
+// positions opened by any process that shares the ledger. The kill switch
+// is a file for the same reason: engaging it stops every running bot.
+export class RiskManager {
+  private ledger: PositionLedger;
+  readonly limits: RiskLimits;
+  private killSwitchPath: string;
+  private pending: PendingBuy[] = [];
+
+  constructor(ledger: PositionLedger, options: RiskManagerOptions = {}) {
+    this.ledger = ledger;
+    this.limits = options.limits ?? defaultRiskLimits;
+    this.killSwitchPath = options.killSwitchPath ?? dataPath("kill-switch.json");
+  }
+
+  get killSwitch(): KillSwitchState | null {
+    return readJsonFile<KillSwitchState | null>(this.killSwitchPath, null);
+  }
+
+  engageKillSwitch(reason: string): KillSwitchState {
+    const state: KillSwitchState = { engagedAt: Date.now(), reason };
+    writeJsonFile(this.killSwitchPath, state);
+    return state;
+  }
+
+  releaseKillSwitch(): boolean {
+    if (!fs.existsSync(this.killSwitchPath)) return false;
+    fs.unlinkSync(this.killSwitchPath);
+    return true;
+  }
+
+  // solBalance is null when it could not be read; the reserve check is
+  // then left to the transaction itself
+  checkBuy(
+    token: PumpFunToken,
+    solAmount: number,
+    solBalance: number | null
+  ): RiskRejection | null {
+    const limits = this.limits;
+
+    // NaN would pass every comparison below, and a negative buy would
+    // add SOL to a paper wallet
+    if (!(solAmount > 0) || !Number.isFinite(solAmount)) {
+      return {
+        rule: "invalid-amount",
+        message: `Invalid buy amount: ${solAmount} SOL`,
+        current: solAmount,
+      };
+    }
+
+    const killSwitch = this.killSwitch;
+    if (killSwitch) {
+      return {
+        rule: "kill-switch",
+        message: `Kill switch engaged${killSwitch.reason ? `: ${killSwitch.reason}` : ""}`,
+      };
+    }
+
+    if (solAmount > limits.maxOrderSol) {
+      return {
+        rule: "max-order",
+        message: `Amount exceeds max buy limit of ${limits.maxOrderSol} SOL`,
+        limit: limits.maxOrderSol,
+        current: solAmount,
+      };
+    }
+
+    const realizedToday = this.realizedSince(Date.now() - DAY_MS);
+    if (limits.dailyLossLimitSol !== null && -realizedToday >= limits.dailyLossLimitSol) {
+      return {
+        rule: "daily-loss",
+        message: `Daily loss limit of ${limits.dailyLossLimitSol} SOL reached (${realizedToday.toFixed(4)} SOL in the last 24h)`,
+        limit: limits.dailyLossLimitSol,
+        current: -realizedToday,
+      };
+    }
+
+    const cooldownUntil = this.cooldownUntil();
+    if (cooldownUntil !== null && cooldownUntil > Date.now()) {
+      const minutes = Math.ceil((cooldownUntil - Date.now()) / 60000);
+      return {
+        rule: "loss-cooldown",
+        message: `Cooling down after a losing exit, ${minutes}m left`,
+        limit: limits.lossCooldownMinutes ?? undefined,
+        current: minutes,
+      };
+    }
+
+    const open = this.openExposure();
+    const mintExposure = open
+      .filter((p) => p.mint === token.mint)
+      .reduce((sum, p) => sum + p.solAmount, 0);
+    if (
+      limits.maxMintExposureSol !== null &&
+      mintExposure + solAmount > limits.maxMintExposureSol
+    ) {
+      return {
+        rule: "mint-exposure",
+        message: `${token.symbol} exposure would reach ${(mintExposure + solAmount).toFixed(4)} SOL, above the ${limits.maxMintExposureSol} SOL limit`,
+        limit: limits.maxMintExposureSol,
+        current: mintExposure,
+      };
+    }
+
+    const totalExposure = open.reduce((sum, p) => sum + p.solAmount, 0);
+    if (
+      limits.maxTotalExposureSol !== null &&
+      totalExposure + solAmount > limits.maxTotalExposureSol
+    ) {
+      return {
+        rule: "total-exposure",
+        message: `Total exposure would reach ${(totalExposure + solAmount).toFixed(4)} SOL, above the ${limits.maxTotalExposureSol} SOL limit`,
+        limit: limits.maxTotalExposureSol,
+        current: totalExposure,
+      };
+    }
+
+    const openMints = new Set(open.map((p) => p.mint));
+    if (
+      limits.maxOpenPositions !== null &&
+      !openMints.has(token.mint) &&
+      openMints.size >= limits.maxOpenPositions
+    ) {
+      return {
+        rule: "open-positions",
+        message: `Already holding ${openMints.size} positions, the limit is ${limits.maxOpenPositions}`,
+        limit: limits.maxOpenPositions,
+        current: openMints.size,
+      };
+    }
+
+    const creatorOpen = open.filter((p) => p.creator === token.creator);
+    const creatorExposure = creatorOpen.reduce((sum, p) => sum + p.solAmount, 0);
+    if (
+      limits.maxCreatorExposureSol !== null &&
+      creatorExposure + solAmount > limits.maxCreatorExposureSol
+    ) {
+      return {
+        rule: "creator-exposure",
+        message: `Exposure to creator ${token.creator.slice(0, 8)}… would reach ${(creatorExposure + solAmount).toFixed(4)} SOL, above the ${limits.maxCreatorExposureSol} SOL limit`,
+        limit: limits.maxCreatorExposureSol,
+        current: creatorExposure,
+      };
+    }
+
+    const creatorMints = new Set(creatorOpen.map((p) => p.mint));
+    if (
+      limits.maxPositionsPerCreator !== null &&
+      !creatorMints.has(token.mint) &&
+      creatorMints.size >= limits.maxPositionsPerCreator
+    ) {
+      return {
+        rule: "creator-positions",
+        message: `Already holding ${creatorMints.size} tokens from creator ${token.creator.slice(0, 8)}…, the limit is ${limits.maxPositionsPerCreator}`,
+        limit: limits.maxPositionsPerCreator,
+        current: creatorMints.size,
+      };
+    }
+
+    if (solBalance !== null) {
+      const available = solBalance - this.pendingSol();
+      if (available - solAmount < limits.minSolReserve) {
+        return {
+          rule: "sol-reserve",
+          message: `Buying would leave ${(available - solAmount).toFixed(4)} SOL, below the ${limits.minSolReserve} SOL reserve`,
+          limit: limits.minSolReserve,
+          current: available,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // Counts a buy against the limits until it settles. Returns the release
+  // function to call once the result is in the ledger.
+  hold(token: PumpFunToken, solAmount: number): () => void {
+    const pending: PendingBuy = { mint: token.mint, creator: token.creator, solAmount };
+    this.pending.push(pending);
+    return () => {
+      this.pending = this.pending.filter((p) => p !== pending);
+    };
+  }
+
+  getStatus(): RiskStatus {
+    const open = this.ledger.getOpenPositions();
+    const cooldownUntil = this.cooldownUntil();
+    return {
+      killSwitch: this.killSwitch,
+      realizedTodaySol: this.realizedSince(Date.now() - DAY_MS),
+      cooldownUntil: cooldownUntil !== null && cooldownUntil > Date.now() ? cooldownUntil : null,
+      openPositions: open.length,
+      totalExposureSol: open.reduce((sum, p) => sum + p.costBasisSol, 0),
+    };
+  }
+
+  private realizedSince(since: number): number {
+    return this.ledger
+      .getRealizedSells()
+      .filter((sell) => sell.timestamp >= since)
+      .reduce((sum, sell) => sum + sell.pnlSol, 0);
+  }
+
+  private cooldownUntil(): number | null {
+    if (this.limits.lossCooldownMinutes === null) return null;
+    const losses = this.ledger.getRealizedSells().filter((sell) => sell.pnlSol < 0);
+    const lastLoss = losses[losses.length - 1];
+    return lastLoss ? lastLoss.timestamp + this.limits.lossCooldownMinutes * 60000 : null;
+  }
+
+  private openExposure(): PendingBuy[] {
+    return [
+      ...this.ledger.getOpenPositions().map((p) => ({
+        mint: p.mint,
+        creator: p.creator ?? "",
+        solAmount: p.costBasisSol,
+      })),
+      ...this.pending,
+    ];
+  }
+
+  private pendingSol(): number {
+    return this.pending.reduce((sum, p) => sum + p.solAmount, 0);
+  }
+}
@@ -2,11 +2,9 @@ import {
   Connection,
   Keypair,
   PublicKey,
-  Transaction,
   TransactionInstruction,
   SystemProgram,
   LAMPORTS_PER_SOL,
-  sendAndConfirmTransaction,
 } from "@solana/web3.js";
 import {
   getAssociatedTokenAddress,
@@ -15,28 +13,185 @@ import {
 } from "@solana/spl-token";
 import bs58 from "bs58";
 import { config } from "./config.js";
-import type { TradeResult, PumpFunToken } from "./types.js";
-
-// Pump.fun program constants
-const PUMP_FUN_PROGRAM_ID = new PublicKey(
-  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
-);
-const PUMP_FUN_FEE_RECIPIENT = new PublicKey(
-  "CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbCJtGpGYKLXYi"
-);
-const PUMP_GLOBAL_STATE = new PublicKey(
-  "4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf"
-);
+import {
+  applySlippage,
+  curveFromToken,
+  fromBaseUnits,
+  getSellTokensForSol,
+  quoteBuy,
+  quoteSell,
+  toBaseUnits,
+  TOKEN_DECIMALS,
+  type BuyQuote,
+  type CurveReserves,
+  type SellQuote,
+} from "./bonding-curve.js";
+import { PaperWallet } from "./paper-wallet.js";
+import {
+  curveFromState,
+  PumpAccounts,
+  PUMP_FUN_PROGRAM_ID,
+  PUMP_GLOBAL_STATE,
+} from "./pump-accounts.js";
+import { PositionLedger } from "./position-ledger.js";
+import {
+  PumpSwap,
+  poolTokensForSol,
+  quotePoolBuy,
+  quotePoolSell,
+} from "./pump-swap.js";
+import { RiskManager } from "./risk-manager.js";
+import {
+  buildCloseInstruction,
+  getWalletTokenAccounts,
+  isReclaimable,
+} from "./token-accounts.js";
+import { TransactionSender } from "./transaction-sender.js";
+import type {
+  PumpFunToken,
+  ReclaimResult,
+  SellAmount,
+  TradeFill,
+  TradeResult,
+} from "./types.js";
+
+// Close instructions per reclaim transaction, well inside the size limit
+const CLOSE_BATCH_SIZE = 10;
+
+// Accepts a token amount, a percentage of the balance ("50%"), "all", or
+// the SOL to receive ("0.5sol")
+export function parseSellAmount(input: string): SellAmount {
+  const value = input.trim().toLowerCase();
+  if (value === "all") return { kind: "all" };
+  const match = /^(\d+(?:\.\d+)?|\.\d+)(%|sol)?$/.exec(value);
+  const amount = match ? parseFloat(match[1]) : NaN;
+  if (!match || !(amount > 0)) {
+    throw new Error(
+      `Invalid sell amount "${input}": use a token amount, a percentage like 50%, "all" or a SOL target like 0.5sol`
+    );
+  }
+  if (match[2] === "%") {
+    if (amount > 100) {
+      throw new Error("Cannot sell more than 100% of a balance");
+    }
+    return { kind: "percent", percent: amount };
+  }
+  if (match[2] === "sol") return { kind: "sol", sol: amount };
+  return { kind: "tokens", tokens: amount };
+}
+
+// A positive SOL amount, e.g. "0.1"
+export function parseBuyAmount(input: string): number {
+  const value = input.trim();
+  const amount = /^(\d+(?:\.\d+)?|\.\d+)$/.test(value) ? parseFloat(value) : NaN;
+  if (!(amount > 0)) {
+    throw new Error(`Invalid buy amount "${input}": use a positive SOL amount like 0.1`);
+  }
+  return amount;
+}
+
+
+// Simulated fills (paper trading, backtests) use the same quotes as live
+// orders, then apply a simulated adverse move. A fill below the
+// slippage-protected minimum would be rejected on-chain.
+function fillBuyQuote(quote: BuyQuote): { filledTokens: bigint; minTokens: bigint } {
+  return {
+    filledTokens: applySlippage(quote.tokensOut, config.paperSlippageBps, "down"),
+    minTokens: quote.minTokensOut,
+  };
+}
+
+function fillSellQuote(quote: SellQuote): { filledSol: bigint; minSol: bigint } {
+  return {
+    filledSol: applySlippage(quote.solOut, config.paperSlippageBps, "down"),
+    minSol: quote.minSolOut,
+  };
+}
+
+export function simulateBuyFill(
+  curve: CurveReserves,
+  solLamports: bigint
+): { filledTokens: bigint; minTokens: bigint } {
+  return fillBuyQuote(quoteBuy(curve, solLamports, config.slippageBps));
+}
+
+export function simulateSellFill(
+  curve: CurveReserves,
+  tokenAmount: bigint
+): { filledSol: bigint; minSol: bigint } {
+  return fillSellQuote(quoteSell(curve, tokenAmount, config.slippageBps));
+}
+
+export interface TradeOptions {
+  // Simulate only: nothing is sent and the paper wallet is left unchanged
+  dryRun?: boolean;
+}
+
+export interface SolanaTraderOptions {
+  paper?: boolean;
+  // Paper wallet file, DATA_DIR/paper-wallet.json by default
+  paperWalletPath?: string;
+  // Keystore wallet the trades are recorded under
+  wallet?: string | null;
+  ledger?: PositionLedger;
+  risk?: RiskManager;
+  // Called after every successful trade that was not a dry run
+  onFill?: (fill: TradeFill) => void;
+}
 
 export class SolanaTrader {
-  private connection: Connection;
+  readonly connection: Connection;
+  readonly accounts: PumpAccounts;
+  readonly pumpSwap: PumpSwap;
+  private sender: TransactionSender;
   private wallet: Keypair | null = null;
+  private paperWallet: PaperWallet | null;
+  readonly ledger: PositionLedger;
+  readonly risk: RiskManager;
+  readonly walletName: string | null;
+  private onFill: ((fill: TradeFill) => void) | null;
 
-  constructor() {
+  constructor(options: SolanaTraderOptions = {}) {
     this.connection = new Connection(config.solanaRpcUrl, "confirmed");
+    this.accounts = new PumpAccounts(this.connection);
+    this.pumpSwap = new PumpSwap(this.connection);
+    this.sender = new TransactionSender(this.connection);
+    this.paperWallet = options.paper ? new PaperWallet(options.paperWalletPath) : null;
+    this.walletName = options.wallet ?? null;
+    this.ledger =
+      options.ledger ??
+      new PositionLedger({ paper: options.paper, wallet: options.wallet });
+    this.risk = options.risk ?? new RiskManager(this.ledger);
+    this.onFill = options.onFill ?? null;
   }
 
-  initializeWallet(): void {
+  get isPaper(): boolean {
+    return this.paperWallet !== null;
+  }
+
+  // Paper balances by mint, in whole tokens
+  getPaperHoldings(): Record<string, number> {
+    if (!this.paperWallet) {
+      throw new Error("Paper trading is not enabled");
+    }
+    return this.paperWallet.getHoldings();
+  }
+
+  // Uses the given keypair (from the keystore) or falls back to
+  // SOLANA_PRIVATE_KEY
+  initializeWallet(keypair?: Keypair): void {
+    if (this.paperWallet) {
+      this.paperWallet.load();
+      console.log(
+        `Paper wallet initialized: ${this.paperWallet.solBalance.toFixed(4)} SOL`
+      );
+      return;
+    }
+    if (keypair) {
+      this.wallet = keypair;
+      console.log(`Wallet initialized: ${keypair.publicKey.toBase58()}`);
+      return;
+    }
     if (!config.solanaPrivateKey) {
       throw new Error("SOLANA_PRIVATE_KEY not configured");
     }
@@ -49,7 +204,17 @@ export class SolanaTrader {
     }
   }
 
+  resetPaperWallet(startingSol?: number): void {
+    if (!this.paperWallet) {
+      throw new Error("Paper trading is not enabled");
+    }
+    this.paperWallet.reset(startingSol);
+  }
+
   async getBalance(): Promise<number> {
+    if (this.paperWallet) {
+      return this.paperWallet.solBalance;
+    }
     if (!this.wallet) {
       throw new Error("Wallet not initialized");
     }
@@ -58,6 +223,20 @@ export class SolanaTrader {
   }
 
   async getTokenBalance(mintAddress: string): Promise<number> {
+    const { amount, decimals } = await this.getTokenHolding(mintAddress);
+    return fromBaseUnits(amount, decimals);
+  }
+
+  // Raw balance and decimals as the token account reports them
+  async getTokenHolding(
+    mintAddress: string
+  ): Promise<{ amount: bigint; decimals: number }> {
+    if (this.paperWallet) {
+      return {
+        amount: toBaseUnits(this.paperWallet.getTokenBalance(mintAddress), TOKEN_DECIMALS),
+        decimals: TOKEN_DECIMALS,
+      };
+    }
     if (!this.wallet) {
       throw new Error("Wallet not initialized");
     }
@@ -65,29 +244,138 @@ export class SolanaTrader {
       const mint = new PublicKey(mintAddress);
       const ata = await getAssociatedTokenAddress(mint, this.wallet.publicKey);
       const balance = await this.connection.getTokenAccountBalance(ata);
-      return parseFloat(balance.value.uiAmountString || "0");
+      return { amount: BigInt(balance.value.amount), decimals: balance.value.decimals };
     } catch {
-      return 0;
+      return { amount: 0n, decimals: TOKEN_DECIMALS };
+    }
+  }
+
+  // Turns "50%", "all" or a SOL target into the token amount to sell
+  async resolveSellAmount(token: PumpFunToken, spec: SellAmount): Promise<number> {
+    if (spec.kind === "tokens") return spec.tokens;
+
+    const { amount: held, decimals } = await this.getTokenHolding(token.mint);
+    if (held === 0n) {
+      throw new Error(`No ${token.symbol} balance to sell`);
+    }
+    if (spec.kind === "all") return fromBaseUnits(held, decimals);
+    if (spec.kind === "percent") {
+      const raw = (held * BigInt(Math.round(spec.percent * 100))) / 10000n;
+      return fromBaseUnits(raw, decimals);
+    }
+
+    const needed = await this.tokensForSol(token, toBaseUnits(spec.sol, 9));
+    if (needed > held) {
+      throw new Error(
+        `Receiving ${spec.sol} SOL needs ${fromBaseUnits(needed, decimals)} ${token.symbol}, more than the ${fromBaseUnits(held, decimals)} held`
+      );
     }
+    return fromBaseUnits(needed, decimals);
   }
 
+  // Closes every empty token account in the wallet to recover its rent
+  async reclaimRent(options: TradeOptions = {}): Promise<ReclaimResult> {
+    if (this.paperWallet) {
+      throw new Error("Paper wallets have no token accounts to reclaim");
+    }
+    if (!this.wallet) {
+      throw new Error("Wallet not initialized");
+    }
+    const owner = this.wallet.publicKey;
+    const empty = (await getWalletTokenAccounts(this.connection, owner)).filter(
+      isReclaimable
+    );
+
+    const result: ReclaimResult = {
+      emptyAccounts: empty.length,
+      closed: 0,
+      rentSol: 0,
+      signatures: [],
+      errors: [],
+      dryRun: options.dryRun,
+    };
+    for (let i = 0; i < empty.length; i += CLOSE_BATCH_SIZE) {
+      const batch = empty.slice(i, i + CLOSE_BATCH_SIZE);
+      let sent;
+      try {
+        sent = await this.sender.send(
+          batch.map((account) => buildCloseInstruction(account, owner)),
+          this.wallet,
+          { dryRun: options.dryRun }
+        );
+      } catch (error) {
+        // e.g. the blockhash fetch failed; later batches may still go through
+        result.errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+      if (!sent.success) {
+        result.errors.push(sent.error ?? "Unknown error");
+        continue;
+      }
+      result.closed += batch.length;
+      result.rentSol += batch.reduce((sum, a) => sum + a.lamports, 0) / LAMPORTS_PER_SOL;
+      if (sent.signature) result.signatures.push(sent.signature);
+    }
+    return result;
+  }
+
+  // Every buy passes the risk manager first; sells are never blocked
   async buyToken(
     token: PumpFunToken,
-    solAmount: number
+    solAmount: number,
+    options: TradeOptions = {}
   ): Promise<TradeResult> {
-    if (!this.wallet) {
-      return { success: false, error: "Wallet not initialized", amountIn: solAmount };
+    const balance = await this.getBalance().catch(() => null);
+    const rejection = this.risk.checkBuy(token, solAmount, balance);
+    if (rejection) {
+      return { success: false, error: rejection.message, amountIn: solAmount, rejection };
     }
 
-    if (solAmount > config.maxBuyAmount) {
-      return {
-        success: false,
-        error: `Amount exceeds max buy limit of ${config.maxBuyAmount} SOL`,
-        amountIn: solAmount,
-      };
+    const release = this.risk.hold(token, solAmount);
+    try {
+      const result = await this.executeBuy(token, solAmount, options);
+      this.ledger.recordTrade("buy", token, result);
+      this.notifyFill("buy", token, result);
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  async sellToken(
+    token: PumpFunToken,
+    tokenAmount: number,
+    options: TradeOptions = {}
+  ): Promise<TradeResult> {
+    const result = await this.executeSell(token, tokenAmount, options);
+    this.ledger.recordTrade("sell", token, result);
+    this.notifyFill("sell", token, result);
+    return result;
+  }
+
+  private notifyFill(side: TradeFill["side"], token: PumpFunToken, result: TradeResult): void {
+    if (!this.onFill || !result.success || result.dryRun) return;
+    this.onFill({ side, mint: token.mint, symbol: token.symbol, result, timestamp: Date.now() });
+  }
+
+  private async executeBuy(
+    token: PumpFunToken,
+    solAmount: number,
+    options: TradeOptions
+  ): Promise<TradeResult> {
+    if (this.paperWallet) {
+      return this.paperBuy(this.paperWallet, token, solAmount, options);
+    }
+
+    if (!this.wallet) {
+      return { success: false, error: "Wallet not initialized", amountIn: solAmount };
     }
 
     try {
+      if (token.complete) {
+        return await this.poolBuy(this.wallet, token, solAmount, options);
+      }
+
       const mint = new PublicKey(token.mint);
       const bondingCurve = new PublicKey(token.bonding_curve);
       const associatedBondingCurve = new PublicKey(
@@ -112,49 +400,46 @@ export class SolanaTrader {
         );
       }
 
-      // Calculate expected tokens with slippage
-      const lamports = Math.floor(solAmount * LAMPORTS_PER_SOL);
-      const expectedTokens = this.calculateExpectedTokens(
-        lamports,
-        token.virtual_sol_reserves,
-        token.virtual_token_reserves
-      );
-      const minTokens = Math.floor(
-        expectedTokens * (1 - config.slippageBps / 10000)
+      // Size from the live curve account, not the API's cached reserves
+      const [curveState, global] = await Promise.all([
+        this.accounts.getBondingCurve(token.bonding_curve),
+        this.accounts.getGlobal(),
+      ]);
+      // The API can lag behind a migration that just happened
+      if (curveState.complete) {
+        return await this.poolBuy(this.wallet, token, solAmount, options);
+      }
+
+      // The program buys an exact token amount and caps what it may spend
+      const quote = quoteBuy(
+        curveFromState(curveState),
+        toBaseUnits(solAmount, 9),
+        config.slippageBps,
+        global.feeBasisPoints
       );
 
       // Build buy instruction
       const buyInstruction = this.buildBuyInstruction(
         this.wallet.publicKey,
+        global.feeRecipient,
         mint,
         bondingCurve,
         associatedBondingCurve,
         ata,
-        lamports,
-        minTokens
+        quote.tokensOut,
+        quote.maxSolCost
       );
       instructions.push(buyInstruction);
 
-      // Create and send transaction
-      const transaction = new Transaction().add(...instructions);
-      const { blockhash, lastValidBlockHeight } =
-        await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = this.wallet.publicKey;
-
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [this.wallet],
-        { commitment: "confirmed" }
+      return await this.sendTrade(
+        this.wallet,
+        "buy",
+        instructions,
+        ata,
+        solAmount,
+        fromBaseUnits(quote.tokensOut, TOKEN_DECIMALS),
+        options
       );
-
-      return {
-        success: true,
-        signature,
-        amountIn: solAmount,
-        amountOut: expectedTokens / 1e6,
-      };
     } catch (error) {
       return {
         success: false,
@@ -164,15 +449,24 @@ export class SolanaTrader {
     }
   }
 
-  async sellToken(
+  private async executeSell(
     token: PumpFunToken,
-    tokenAmount: number
+    tokenAmount: number,
+    options: TradeOptions
   ): Promise<TradeResult> {
+    if (this.paperWallet) {
+      return this.paperSell(this.paperWallet, token, tokenAmount, options);
+    }
+
     if (!this.wallet) {
       return { success: false, error: "Wallet not initialized", amountIn: tokenAmount };
     }
 
     try {
+      if (token.complete) {
+        return await this.poolSell(this.wallet, token, tokenAmount, options);
+      }
+
       const mint = new PublicKey(token.mint);
       const bondingCurve = new PublicKey(token.bonding_curve);
       const associatedBondingCurve = new PublicKey(
@@ -180,44 +474,300 @@ export class SolanaTrader {
       );
       const ata = await getAssociatedTokenAddress(mint, this.wallet.publicKey);
 
-      // Calculate expected SOL with slippage
-      const tokenLamports = Math.floor(tokenAmount * 1e6);
-      const expectedSol = this.calculateExpectedSol(
-        tokenLamports,
-        token.virtual_sol_reserves,
-        token.virtual_token_reserves
+      const [curveState, global] = await Promise.all([
+        this.accounts.getBondingCurve(token.bonding_curve),
+        this.accounts.getGlobal(),
+      ]);
+      if (curveState.complete) {
+        return await this.poolSell(this.wallet, token, tokenAmount, options);
+      }
+
+      const quote = quoteSell(
+        curveFromState(curveState),
+        toBaseUnits(tokenAmount, TOKEN_DECIMALS),
+        config.slippageBps,
+        global.feeBasisPoints
       );
-      const minSol = Math.floor(expectedSol * (1 - config.slippageBps / 10000));
 
       // Build sell instruction
       const sellInstruction = this.buildSellInstruction(
         this.wallet.publicKey,
+        global.feeRecipient,
         mint,
         bondingCurve,
         associatedBondingCurve,
         ata,
-        tokenLamports,
-        minSol
+        quote.tokensIn,
+        quote.minSolOut
       );
 
-      const transaction = new Transaction().add(sellInstruction);
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = this.wallet.publicKey;
+      const instructions = [sellInstruction];
+      const close = await this.closeIfEmptied(
+        this.wallet.publicKey,
+        ata,
+        TOKEN_PROGRAM_ID,
+        quote.tokensIn
+      );
+      if (close) instructions.push(close);
 
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [this.wallet],
-        { commitment: "confirmed" }
+      const result = await this.sendTrade(
+        this.wallet,
+        "sell",
+        instructions,
+        ata,
+        tokenAmount,
+        fromBaseUnits(quote.solOut, 9),
+        options
       );
+      if (close && result.success && !result.dryRun) result.closedTokenAccount = true;
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        amountIn: tokenAmount,
+      };
+    }
+  }
+
+  // Graduated tokens trade against the PumpSwap pool they migrated to
+  private async poolBuy(
+    wallet: Keypair,
+    token: PumpFunToken,
+    solAmount: number,
+    options: TradeOptions
+  ): Promise<TradeResult> {
+    const market = await this.pumpSwap.loadMarket(token);
+    const quote = quotePoolBuy(market, toBaseUnits(solAmount, 9), config.slippageBps);
+    const instructions = this.pumpSwap.buildBuyInstructions(
+      wallet.publicKey,
+      market,
+      quote.tokensOut,
+      quote.maxSolCost
+    );
+    const { userBaseAccount } = this.pumpSwap.userAccounts(wallet.publicKey, market);
+    return this.sendTrade(
+      wallet,
+      "buy",
+      instructions,
+      userBaseAccount,
+      solAmount,
+      fromBaseUnits(quote.tokensOut, TOKEN_DECIMALS),
+      options
+    );
+  }
+
+  private async poolSell(
+    wallet: Keypair,
+    token: PumpFunToken,
+    tokenAmount: number,
+    options: TradeOptions
+  ): Promise<TradeResult> {
+    const market = await this.pumpSwap.loadMarket(token);
+    const quote = quotePoolSell(
+      market,
+      toBaseUnits(tokenAmount, TOKEN_DECIMALS),
+      config.slippageBps
+    );
+    const instructions = this.pumpSwap.buildSellInstructions(
+      wallet.publicKey,
+      market,
+      quote.tokensIn,
+      quote.minSolOut
+    );
+    const { userBaseAccount } = this.pumpSwap.userAccounts(wallet.publicKey, market);
+    const close = await this.closeIfEmptied(
+      wallet.publicKey,
+      userBaseAccount,
+      market.baseTokenProgram,
+      quote.tokensIn
+    );
+    if (close) instructions.push(close);
+
+    const result = await this.sendTrade(
+      wallet,
+      "sell",
+      instructions,
+      userBaseAccount,
+      tokenAmount,
+      fromBaseUnits(quote.solOut, 9),
+      options
+    );
+    if (close && result.success && !result.dryRun) result.closedTokenAccount = true;
+    return result;
+  }
+
+  private async sendTrade(
+    wallet: Keypair,
+    side: TradeFill["side"],
+    instructions: TransactionInstruction[],
+    tokenAccount: PublicKey,
+    amountIn: number,
+    amountOut: number,
+    options: TradeOptions
+  ): Promise<TradeResult> {
+    const sent = await this.sender.send(instructions, wallet, {
+      tokenAccount,
+      tokenDecimals: TOKEN_DECIMALS,
+      dryRun: options.dryRun,
+    });
+    if (!sent.success) {
+      return {
+        success: false,
+        signature: sent.signature,
+        error: sent.error,
+        amountIn,
+        timing: sent.timing,
+        simulation: sent.simulation,
+      };
+    }
+
+    // The ledger records what the wallet actually paid and received,
+    // including fees and token account rent, rather than the quote
+    const change = sent.balanceChange;
+    if (change) {
+      const spent = side === "buy" ? -change.solChange : -change.tokenChange;
+      const received = side === "buy" ? change.tokenChange : change.solChange;
+      if (spent > 0 && received > 0) {
+        amountIn = spent;
+        amountOut = received;
+      }
+    }
+
+    return {
+      success: true,
+      signature: sent.signature,
+      amountIn,
+      amountOut,
+      timing: sent.timing,
+      simulation: sent.simulation,
+      dryRun: options.dryRun,
+    };
+  }
+
+  // Graduated tokens are sized against their pool, the rest against the curve
+  private async tokensForSol(token: PumpFunToken, lamports: bigint): Promise<bigint> {
+    if (!token.complete) {
+      if (this.paperWallet) {
+        return getSellTokensForSol(curveFromToken(token), lamports);
+      }
+      const [curveState, global] = await Promise.all([
+        this.accounts.getBondingCurve(token.bonding_curve),
+        this.accounts.getGlobal(),
+      ]);
+      if (!curveState.complete) {
+        return getSellTokensForSol(
+          curveFromState(curveState),
+          lamports,
+          global.feeBasisPoints
+        );
+      }
+    }
+    return poolTokensForSol(await this.pumpSwap.loadMarket(token), lamports);
+  }
+
+  // A sell of the whole balance also closes the token account, returning
+  // its rent in the same transaction
+  private async closeIfEmptied(
+    owner: PublicKey,
+    tokenAccount: PublicKey,
+    programId: PublicKey,
+    tokensIn: bigint
+  ): Promise<TransactionInstruction | null> {
+    try {
+      const balance = await this.connection.getTokenAccountBalance(tokenAccount);
+      return BigInt(balance.value.amount) === tokensIn
+        ? buildCloseInstruction({ address: tokenAccount, programId }, owner)
+        : null;
+    } catch {
+      return null;
+    }
+  }
 
+  private async paperBuy(
+    wallet: PaperWallet,
+    token: PumpFunToken,
+    solAmount: number,
+    options: TradeOptions
+  ): Promise<TradeResult> {
+    if (!(solAmount > 0) || !Number.isFinite(solAmount)) {
+      return { success: false, error: `Invalid SOL amount: ${solAmount}`, amountIn: solAmount };
+    }
+    if (solAmount > wallet.solBalance) {
       return {
-        success: true,
-        signature,
+        success: false,
+        error: `Insufficient paper balance: ${wallet.solBalance.toFixed(4)} SOL`,
+        amountIn: solAmount,
+      };
+    }
+
+    const solLamports = toBaseUnits(solAmount, 9);
+    let quote: BuyQuote;
+    try {
+      quote = token.complete
+        ? quotePoolBuy(
+            await this.pumpSwap.loadMarket(token),
+            solLamports,
+            config.slippageBps
+          )
+        : quoteBuy(curveFromToken(token), solLamports, config.slippageBps);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        amountIn: solAmount,
+      };
+    }
+    const { filledTokens, minTokens } = fillBuyQuote(quote);
+
+    if (filledTokens < minTokens) {
+      return {
+        success: false,
+        error: "Slippage tolerance exceeded",
+        amountIn: solAmount,
+      };
+    }
+
+    const tokens = fromBaseUnits(filledTokens, TOKEN_DECIMALS);
+    if (options.dryRun) {
+      return { success: true, dryRun: true, amountIn: solAmount, amountOut: tokens };
+    }
+    wallet.applyBuy(token.mint, solAmount, tokens);
+    return {
+      success: true,
+      signature: wallet.createSignature(),
+      amountIn: solAmount,
+      amountOut: tokens,
+    };
+  }
+
+  private async paperSell(
+    wallet: PaperWallet,
+    token: PumpFunToken,
+    tokenAmount: number,
+    options: TradeOptions
+  ): Promise<TradeResult> {
+    if (!(tokenAmount > 0) || !Number.isFinite(tokenAmount)) {
+      return { success: false, error: `Invalid token amount: ${tokenAmount}`, amountIn: tokenAmount };
+    }
+    if (tokenAmount > wallet.getTokenBalance(token.mint)) {
+      return {
+        success: false,
+        error: `Insufficient paper token balance: ${wallet.getTokenBalance(token.mint)}`,
         amountIn: tokenAmount,
-        amountOut: expectedSol / LAMPORTS_PER_SOL,
       };
+    }
+
+    const tokensIn = toBaseUnits(tokenAmount, TOKEN_DECIMALS);
+    let quote: SellQuote;
+    try {
+      quote = token.complete
+        ? quotePoolSell(
+            await this.pumpSwap.loadMarket(token),
+            tokensIn,
+            config.slippageBps
+          )
+        : quoteSell(curveFromToken(token), tokensIn, config.slippageBps);
     } catch (error) {
       return {
         success: false,
@@ -225,53 +775,52 @@ export class SolanaTrader {
         amountIn: tokenAmount,
       };
     }
-  }
+    const { filledSol, minSol } = fillSellQuote(quote);
 
-  private calculateExpectedTokens(
-    solLamports: number,
-    virtualSolReserves: number,
-    virtualTokenReserves: number
-  ): number {
-    // Constant product formula: x * y = k
-    const k = virtualSolReserves * virtualTokenReserves;
-    const newSolReserves = virtualSolReserves + solLamports;
-    const newTokenReserves = k / newSolReserves;
-    return virtualTokenReserves - newTokenReserves;
-  }
+    if (filledSol < minSol) {
+      return {
+        success: false,
+        error: "Slippage tolerance exceeded",
+        amountIn: tokenAmount,
+      };
+    }
 
-  private calculateExpectedSol(
-    tokenLamports: number,
-    virtualSolReserves: number,
-    virtualTokenReserves: number
-  ): number {
-    const k = virtualSolReserves * virtualTokenReserves;
-    const newTokenReserves = virtualTokenReserves + tokenLamports;
-    const newSolReserves = k / newTokenReserves;
-    return virtualSolReserves - newSolReserves;
+    const solReceived = fromBaseUnits(filledSol, 9);
+    if (options.dryRun) {
+      return { success: true, dryRun: true, amountIn: tokenAmount, amountOut: solReceived };
+    }
+    wallet.applySell(token.mint, tokenAmount, solReceived);
+    return {
+      success: true,
+      signature: wallet.createSignature(),
+      amountIn: tokenAmount,
+      amountOut: solReceived,
+    };
   }
 
   private buildBuyInstruction(
     buyer: PublicKey,
+    feeRecipient: PublicKey,
     mint: PublicKey,
     bondingCurve: PublicKey,
     associatedBondingCurve: PublicKey,
     buyerAta: PublicKey,
-    solAmount: number,
-    minTokens: number
+    tokenAmount: bigint,
+    maxSolCost: bigint
   ): TransactionInstruction {
     // Pump.fun buy instruction discriminator
     const discriminator = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]);
 
     const data = Buffer.alloc(24);
     discriminator.copy(data, 0);
-    data.writeBigUInt64LE(BigInt(minTokens), 8);
-    data.writeBigUInt64LE(BigInt(solAmount), 16);
+    data.writeBigUInt64LE(tokenAmount, 8);
+    data.writeBigUInt64LE(maxSolCost, 16);
 
     return new TransactionInstruction({
       programId: PUMP_FUN_PROGRAM_ID,
       keys: [
         { pubkey: PUMP_GLOBAL_STATE, isSigner: false, isWritable: false },
-        { pubkey: PUMP_FUN_FEE_RECIPIENT, isSigner: false, isWritable: true },
+        { pubkey: feeRecipient, isSigner: false, isWritable: true },
         { pubkey: mint, isSigner: false, isWritable: false },
         { pubkey: bondingCurve, isSigner: false, isWritable: true },
         { pubkey: associatedBondingCurve, isSigner: false, isWritable: true },
@@ -286,26 +835,27 @@ export class SolanaTrader {
 
   private buildSellInstruction(
     seller: PublicKey,
+    feeRecipient: PublicKey,
     mint: PublicKey,
     bondingCurve: PublicKey,
     associatedBondingCurve: PublicKey,
     sellerAta: PublicKey,
-    tokenAmount: number,
-    minSol: number
+    tokenAmount: bigint,
+    minSolOut: bigint
   ): TransactionInstruction {
     // Pump.fun sell instruction discriminator
     const discriminator = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]);
 
     const data = Buffer.alloc(24);
     discriminator.copy(data, 0);
-    data.writeBigUInt64LE(BigInt(tokenAmount), 8);
-    data.writeBigUInt64LE(BigInt(minSol), 16);
+    data.writeBigUInt64LE(tokenAmount, 8);
+    data.writeBigUInt64LE(minSolOut, 16);
 
     return new TransactionInstruction({
       programId: PUMP_FUN_PROGRAM_ID,
       keys: [
         { pubkey: PUMP_GLOBAL_STATE, isSigner: false, isWritable: false },
-        { pubkey: PUMP_FUN_FEE_RECIPIENT, isSigner: false, isWritable: true },
+        { pubkey: feeRecipient, isSigner: false, isWritable: true },
         { pubkey: mint, isSigner: false, isWritable: false },
         { pubkey: bondingCurve, isSigner: false, isWritable: true },
         { pubkey: associatedBondingCurve, isSigner: false, isWritable: true },
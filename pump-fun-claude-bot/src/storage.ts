@@ -0,0 +1,69 @@
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "./config.js";
+
+export function dataPath(fileName: string): string {
+  return path.resolve(config.dataDir, fileName);
+}
+
+// Per-wallet files: "ledger.json" becomes ledger-paper.json for the paper
+// wallet, ledger-<name>.json for a keystore wallet, and stays ledger.json
+// for the SOLANA_PRIVATE_KEY wallet
+export function walletDataPath(
+  fileName: string,
+  owner: { paper?: boolean; wallet?: string | null }
+): string {
+  const suffix = owner.paper ? "-paper" : owner.wallet ? `-${owner.wallet}` : "";
+  const dot = fileName.indexOf(".");
+  return dataPath(`${fileName.slice(0, dot)}${suffix}${fileName.slice(dot)}`);
+}
+
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) return fallback;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+// mode applies from the moment the file exists: the tmp file is created
+// with it, so the contents are never readable under looser permissions
+export function writeJsonFile(
+  filePath: string,
+  data: unknown,
+  options: { mode?: number } = {}
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  // A tmp file left by a crash would keep its own permissions
+  fs.rmSync(tmpPath, { force: true });
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), {
+    mode: options.mode,
+    flag: "wx",
+  });
+  fs.renameSync(tmpPath, filePath);
+}
+
+export function appendJsonLine(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${JSON.stringify(data)}\n`);
+}
+
+// A line cut short by a crash mid-append is skipped rather than failing
+// the whole log
+export function readJsonLines<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+  const records: T[] = [];
+  for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      continue;
+    }
+  }
+  return records;
+}
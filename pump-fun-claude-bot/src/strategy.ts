@@ -0,0 +1,207 @@
+import { config } from "./config.js";
+import { readJsonFile } from "./storage.js";
+import type {
+  CreatorProfile,
+  EntryRules,
+  ExitDecision,
+  ExitRules,
+  ExitState,
+  TakeProfitStep,
+  TokenAnalysis,
+} from "./types.js";
+
+export const defaultEntryRules: EntryRules = {
+  maxRiskScore: 4,
+  sentiments: ["bullish"],
+  minGreenFlags: 2,
+  maxRedFlags: 2,
+  minMarketCapSol: 0,
+  maxMarketCapSol: null,
+  maxCreatorLaunches: null,
+  buySizeByRisk: {
+    low: config.maxBuyAmount,
+    medium: config.maxBuyAmount / 2,
+    high: 0,
+  },
+};
+
+export const defaultExitRules: ExitRules = {
+  stopLossPct: 30,
+  takeProfitLadder: [{ gainPct: 100, sellPct: 50 }],
+  trailingStopPct: null,
+  maxHoldMinutes: null,
+};
+
+export function loadEntryRules(filePath?: string): EntryRules {
+  if (!filePath) return { ...defaultEntryRules };
+  const fileRules = readJsonFile<Partial<EntryRules> | null>(filePath, null);
+  if (!fileRules) {
+    throw new Error(`Strategy file not found: ${filePath}`);
+  }
+  return {
+    ...defaultEntryRules,
+    ...fileRules,
+    buySizeByRisk: {
+      ...defaultEntryRules.buySizeByRisk,
+      ...fileRules.buySizeByRisk,
+    },
+  };
+}
+
+export function getRiskTier(riskScore: number): keyof EntryRules["buySizeByRisk"] {
+  if (riskScore <= 3) return "low";
+  if (riskScore <= 6) return "medium";
+  return "high";
+}
+
+// Market rules need no Claude call, so they run first.
+export function checkMarketRules(
+  marketCapSol: number,
+  rules: EntryRules
+): string | null {
+  if (marketCapSol < rules.minMarketCapSol) {
+    return `market cap ${marketCapSol.toFixed(2)} SOL below min ${rules.minMarketCapSol}`;
+  }
+  if (rules.maxMarketCapSol !== null && marketCapSol > rules.maxMarketCapSol) {
+    return `market cap ${marketCapSol.toFixed(2)} SOL above max ${rules.maxMarketCapSol}`;
+  }
+  return null;
+}
+
+// Serial launchers rarely hold a token past the first pump, so cap how many
+// prior launches a creator may have before the token is skipped unanalyzed.
+export function checkCreatorRules(
+  profile: CreatorProfile,
+  rules: EntryRules
+): string | null {
+  if (
+    rules.maxCreatorLaunches !== null &&
+    profile.priorLaunches > rules.maxCreatorLaunches
+  ) {
+    return `creator has ${profile.priorLaunches}${profile.truncated ? "+" : ""} prior launches, max ${rules.maxCreatorLaunches}`;
+  }
+  return null;
+}
+
+export function evaluateEntry(
+  analysis: Omit<TokenAnalysis, "token">,
+  marketCapSol: number,
+  rules: EntryRules
+): { buy: boolean; reason: string; solAmount: number } {
+  const skip = (reason: string) => ({ buy: false, reason, solAmount: 0 });
+
+  if (analysis.status !== "ok") {
+    return skip(`no verdict: ${analysis.error ?? "analysis failed"}`);
+  }
+
+  const marketRejection = checkMarketRules(marketCapSol, rules);
+  if (marketRejection) return skip(marketRejection);
+
+  if (analysis.riskScore > rules.maxRiskScore) {
+    return skip(`risk score ${analysis.riskScore} above max ${rules.maxRiskScore}`);
+  }
+  if (!rules.sentiments.includes(analysis.sentiment)) {
+    return skip(`sentiment ${analysis.sentiment} not in [${rules.sentiments.join(", ")}]`);
+  }
+  if (analysis.greenFlags.length < rules.minGreenFlags) {
+    return skip(
+      `${analysis.greenFlags.length} green flags, need at least ${rules.minGreenFlags}`
+    );
+  }
+  if (analysis.redFlags.length > rules.maxRedFlags) {
+    return skip(
+      `${analysis.redFlags.length} red flags, allowed at most ${rules.maxRedFlags}`
+    );
+  }
+
+  const tier = getRiskTier(analysis.riskScore);
+  const solAmount = rules.buySizeByRisk[tier];
+  if (solAmount <= 0) {
+    return skip(`no buy size configured for ${tier} risk tier`);
+  }
+
+  return {
+    buy: true,
+    reason: `risk ${analysis.riskScore} (${tier}), ${analysis.sentiment}, ${analysis.greenFlags.length} green / ${analysis.redFlags.length} red flags`,
+    solAmount,
+  };
+}
+
+export function loadExitRules(filePath?: string): ExitRules {
+  if (!filePath) return { ...defaultExitRules };
+  const fileRules = readJsonFile<Partial<ExitRules> | null>(filePath, null);
+  if (!fileRules) {
+    throw new Error(`Exit rules file not found: ${filePath}`);
+  }
+  return { ...defaultExitRules, ...fileRules };
+}
+
+// "50:25,100:50" -> at +50% sell 25% of the position, at +100% sell 50%
+export function parseTakeProfitLadder(input: string): TakeProfitStep[] {
+  return input
+    .split(",")
+    .filter((step) => step.trim())
+    .map((step) => {
+      const [gain, sell] = step.split(":").map((v) => parseFloat(v));
+      if (!(gain > 0) || !(sell > 0) || sell > 100) {
+        throw new Error(`Invalid take-profit step "${step}", expected <gain%>:<sell%>`);
+      }
+      return { gainPct: gain, sellPct: sell };
+    })
+    .sort((a, b) => a.gainPct - b.gainPct);
+}
+
+export function checkExitRules(
+  state: ExitState,
+  rules: ExitRules,
+  now: number
+): ExitDecision | null {
+  const { entryPriceSol, lastPriceSol } = state;
+
+  if (rules.maxHoldMinutes !== null) {
+    const heldMinutes = (now - state.openedAt) / 60000;
+    if (heldMinutes >= rules.maxHoldMinutes) {
+      return {
+        rule: "max-hold",
+        sellPct: 100,
+        reason: `held ${heldMinutes.toFixed(1)}m, limit ${rules.maxHoldMinutes}m`,
+      };
+    }
+  }
+
+  if (lastPriceSol === null || entryPriceSol <= 0) return null;
+  const changePct = (lastPriceSol / entryPriceSol - 1) * 100;
+
+  if (rules.stopLossPct !== null && changePct <= -rules.stopLossPct) {
+    return {
+      rule: "stop-loss",
+      sellPct: 100,
+      reason: `price ${changePct.toFixed(1)}% from entry, stop at -${rules.stopLossPct}%`,
+    };
+  }
+
+  if (rules.trailingStopPct !== null) {
+    const fromPeakPct = (lastPriceSol / state.peakPriceSol - 1) * 100;
+    if (fromPeakPct <= -rules.trailingStopPct) {
+      return {
+        rule: "trailing-stop",
+        sellPct: 100,
+        reason: `price ${fromPeakPct.toFixed(1)}% from peak, trail at -${rules.trailingStopPct}%`,
+      };
+    }
+  }
+
+  const step = rules.takeProfitLadder.find(
+    (s) => !state.laddersHit.has(s.gainPct) && changePct >= s.gainPct
+  );
+  if (step) {
+    return {
+      rule: "take-profit",
+      sellPct: step.sellPct,
+      reason: `price +${changePct.toFixed(1)}% from entry, step +${step.gainPct}% sells ${step.sellPct}%`,
+      ladderStep: step.gainPct,
+    };
+  }
+
+  return null;
+}
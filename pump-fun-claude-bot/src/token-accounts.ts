@@ -0,0 +1,97 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createCloseAccountInstruction,
+} from "@solana/spl-token";
+
+export interface WalletTokenAccount {
+  address: PublicKey;
+  mint: string;
+  programId: PublicKey;
+  // Raw base units
+  amount: bigint;
+  decimals: number;
+  // Rent held by the account, returned when it is closed
+  lamports: number;
+  // Frozen accounts cannot transfer, so their tokens cannot be sold
+  frozen: boolean;
+  // Token-2022 transfer fees held by the account until they are harvested
+  withheldAmount: bigint;
+}
+
+interface ParsedTokenAmount {
+  amount: string;
+  decimals: number;
+}
+
+interface ParsedExtension {
+  extension: string;
+  state?: { withheldAmount?: number | string };
+}
+
+// Every SPL Token and Token-2022 account the wallet owns
+export async function getWalletTokenAccounts(
+  connection: Connection,
+  owner: PublicKey
+): Promise<WalletTokenAccount[]> {
+  const programs = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+  const responses = await Promise.all(
+    programs.map((programId) =>
+      connection.getParsedTokenAccountsByOwner(owner, { programId })
+    )
+  );
+
+  return responses.flatMap((response, i) =>
+    response.value.map(({ pubkey, account }) => {
+      const info = account.data.parsed.info as {
+        mint: string;
+        state: string;
+        tokenAmount: ParsedTokenAmount;
+        extensions?: ParsedExtension[];
+      };
+      const transferFee = info.extensions?.find((e) => e.extension === "transferFeeAmount");
+      return {
+        address: pubkey,
+        mint: info.mint,
+        programId: programs[i],
+        amount: BigInt(info.tokenAmount.amount),
+        decimals: info.tokenAmount.decimals,
+        lamports: account.lamports,
+        frozen: info.state === "frozen",
+        withheldAmount: BigInt(transferFee?.state?.withheldAmount ?? 0),
+      };
+    })
+  );
+}
+
+// Empty accounts can be closed for their rent. Wrapped SOL accounts are
+// left alone since their lamports are the balance, not just rent. Frozen
+// accounts and ones still holding withheld transfer fees cannot be closed,
+// and one of them would fail its whole batch.
+export function isReclaimable(account: WalletTokenAccount): boolean {
+  return (
+    account.amount === 0n &&
+    account.mint !== NATIVE_MINT.toBase58() &&
+    !account.frozen &&
+    account.withheldAmount === 0n
+  );
+}
+
+export function buildCloseInstruction(
+  account: Pick<WalletTokenAccount, "address" | "programId">,
+  owner: PublicKey
+): TransactionInstruction {
+  return createCloseAccountInstruction(
+    account.address,
+    owner,
+    owner,
+    [],
+    account.programId
+  );
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { readJsonFile } from "./storage.js";
+import type {
+  NewTokenEvent,
+  NumberRange,
+  PumpFunToken,
+  TextMatch,
+  TokenFilterRule,
+} from "./types.js";
+
+export interface FilterInput {
+  event: NewTokenEvent;
+  // Needed for description, socials and age; see filterNeedsToken
+  token: PumpFunToken | null;
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const regexMatchSchema = z
+  .object({
+    include: z
+      .array(z.string().min(1).refine(isValidRegex, "Invalid regular expression"))
+      .optional(),
+    exclude: z
+      .array(z.string().min(1).refine(isValidRegex, "Invalid regular expression"))
+      .optional(),
+  })
+  .strict();
+
+const keywordMatchSchema = z
+  .object({
+    include: z.array(z.string().min(1)).optional(),
+    exclude: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const rangeSchema = z
+  .object({ min: z.number().min(0).optional(), max: z.number().min(0).optional() })
+  .strict()
+  .refine(
+    (range) => range.min === undefined || range.max === undefined || range.min <= range.max,
+    "min is above max"
+  );
+
+// Strict objects make a misspelled key an error instead of a rule that
+// silently matches everything
+const ruleSchema: z.ZodType<TokenFilterRule> = z.lazy(() =>
+  z
+    .object({
+      name: regexMatchSchema.optional(),
+      symbol: regexMatchSchema.optional(),
+      description: keywordMatchSchema.optional(),
+      socials: z.array(z.enum(["twitter", "telegram", "website"])).optional(),
+      initialBuySol: rangeSchema.optional(),
+      marketCapSol: rangeSchema.optional(),
+      ageMinutes: rangeSchema.optional(),
+      creator: z
+        .object({
+          allow: z.array(z.string().min(1)).optional(),
+          deny: z.array(z.string().min(1)).optional(),
+        })
+        .strict()
+        .optional(),
+      all: z.array(ruleSchema).min(1).optional(),
+      any: z.array(ruleSchema).min(1).optional(),
+      not: ruleSchema.optional(),
+    })
+    .strict()
+);
+
+export function loadTokenFilter(filePath: string): TokenFilterRule {
+  const raw = readJsonFile<unknown>(filePath, null);
+  if (raw === null) {
+    throw new Error(`Rules file not found: ${filePath}`);
+  }
+  const parsed = ruleSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid rules file ${filePath}:\n  ${problems.join("\n  ")}`);
+  }
+  return parsed.data;
+}
+
+// True when the rule looks at fields only the API has, so the caller knows
+// to fetch the token before filtering
+export function filterNeedsToken(rule: TokenFilterRule): boolean {
+  return (
+    rule.description !== undefined ||
+    rule.socials !== undefined ||
+    rule.ageMinutes !== undefined ||
+    [...(rule.all ?? []), ...(rule.any ?? [])].some(filterNeedsToken) ||
+    (rule.not !== undefined && filterNeedsToken(rule.not))
+  );
+}
+
+const regexCache: Map<string, RegExp> = new Map();
+
+function compile(pattern: string): RegExp {
+  let regex = regexCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, "i");
+    regexCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function checkRegex(field: string, value: string, match: TextMatch): string | null {
+  const excluded = match.exclude?.find((pattern) => compile(pattern).test(value));
+  if (excluded) {
+    return `${field} matches excluded /${excluded}/`;
+  }
+  if (match.include && !match.include.some((pattern) => compile(pattern).test(value))) {
+    return `${field} matches none of ${match.include.map((p) => `/${p}/`).join(", ")}`;
+  }
+  return null;
+}
+
+function checkKeywords(field: string, value: string, match: TextMatch): string | null {
+  const text = value.toLowerCase();
+  const excluded = match.exclude?.find((keyword) => text.includes(keyword.toLowerCase()));
+  if (excluded) {
+    return `${field} mentions "${excluded}"`;
+  }
+  if (match.include && !match.include.some((keyword) => text.includes(keyword.toLowerCase()))) {
+    return `${field} mentions none of ${match.include.map((k) => `"${k}"`).join(", ")}`;
+  }
+  return null;
+}
+
+function checkRange(field: string, value: number, range: NumberRange, unit: string): string | null {
+  if (range.min !== undefined && value < range.min) {
+    return `${field} ${value.toFixed(2)} ${unit} below min ${range.min}`;
+  }
+  if (range.max !== undefined && value > range.max) {
+    return `${field} ${value.toFixed(2)} ${unit} above max ${range.max}`;
+  }
+  return null;
+}
+
+// Checks only this rule's own token fields, not its children's
+function checkToken(rule: TokenFilterRule, token: PumpFunToken | null): string | null {
+  if (!rule.description && !rule.socials && !rule.ageMinutes) {
+    return null;
+  }
+  if (!token) {
+    return "token details unavailable";
+  }
+  if (rule.description) {
+    const rejection = checkKeywords("description", token.description ?? "", rule.description);
+    if (rejection) return rejection;
+  }
+  const missing = rule.socials?.filter((social) => !token[social]);
+  if (missing && missing.length > 0) {
+    return `no ${missing.join(", ")} link`;
+  }
+  if (rule.ageMinutes) {
+    const ageMinutes = Math.max(0, (Date.now() - token.created_timestamp) / 60000);
+    return checkRange("age", ageMinutes, rule.ageMinutes, "min");
+  }
+  return null;
+}
+
+// Like the strategy checks, returns why the launch was rejected or null when
+// it passes. Launch fields are checked before token details, and `any`
+// reports every branch that failed.
+export function checkTokenFilter(rule: TokenFilterRule, input: FilterInput): string | null {
+  const { event, token } = input;
+
+  if (rule.creator) {
+    const creator = event.traderPublicKey;
+    if (rule.creator.deny?.includes(creator)) {
+      return "creator is on the deny list";
+    }
+    if (rule.creator.allow && !rule.creator.allow.includes(creator)) {
+      return "creator is not on the allow list";
+    }
+  }
+  if (rule.name) {
+    const rejection = checkRegex("name", event.name, rule.name);
+    if (rejection) return rejection;
+  }
+  if (rule.symbol) {
+    const rejection = checkRegex("symbol", event.symbol, rule.symbol);
+    if (rejection) return rejection;
+  }
+  if (rule.initialBuySol) {
+    const rejection = checkRange("initial buy", event.solAmount, rule.initialBuySol, "SOL");
+    if (rejection) return rejection;
+  }
+  if (rule.marketCapSol) {
+    const rejection = checkRange("market cap", event.marketCapSol, rule.marketCapSol, "SOL");
+    if (rejection) return rejection;
+  }
+
+  const tokenRejection = checkToken(rule, token);
+  if (tokenRejection) return tokenRejection;
+
+  for (const child of rule.all ?? []) {
+    const rejection = checkTokenFilter(child, input);
+    if (rejection) return rejection;
+  }
+  if (rule.any) {
+    const rejections = rule.any.map((child) => checkTokenFilter(child, input));
+    if (rejections.every((rejection) => rejection !== null)) {
+      return `none of: ${rejections.join("; ")}`;
+    }
+  }
+  if (rule.not && !checkTokenFilter(rule.not, input)) {
+    return "matches a not rule";
+  }
+  return null;
+}
@@ -0,0 +1,373 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  type SimulatedTransactionAccountInfo,
+  type AccountInfo,
+  type TokenBalance,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { config } from "./config.js";
+import { describeTransactionError } from "./program-errors.js";
+import type { TradeSimulation, TradeTiming } from "./types.js";
+
+export interface SendOptions {
+  // Token account whose balance change the simulation reports
+  tokenAccount?: PublicKey;
+  tokenDecimals?: number;
+  // Stop after simulation without sending
+  dryRun?: boolean;
+}
+
+export interface SendResult {
+  success: boolean;
+  signature?: string;
+  error?: string;
+  timing: TradeTiming;
+  simulation?: TradeSimulation;
+  // What the confirmed transaction actually moved, falling back to the
+  // simulation when the transaction cannot be fetched
+  balanceChange?: BalanceChange;
+}
+
+export interface BalanceChange {
+  solChange: number;
+  tokenChange: number;
+}
+
+type ConfirmOutcome =
+  | { status: "confirmed" }
+  | { status: "pending" }
+  | { status: "expired" }
+  | { status: "failed"; error: string };
+
+// Consecutive failed status checks before an attempt is given up
+const MAX_CONFIRM_RPC_ERRORS = 5;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// The amount is the u64 after the mint and owner keys of a token account
+function tokenAccountAmount(
+  account: AccountInfo<Buffer> | SimulatedTransactionAccountInfo | null | undefined
+): bigint {
+  if (!account) return 0n;
+  const data = Buffer.isBuffer(account.data)
+    ? account.data
+    : Buffer.from(account.data[0], "base64");
+  return data.length >= 72 ? data.readBigUInt64LE(64) : 0n;
+}
+
+export class TransactionSender {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  // "auto" takes a percentile of recent fees paid to write the same
+  // accounts, so the price follows congestion on this curve
+  async getPriorityFee(writableAccounts: PublicKey[]): Promise<number> {
+    if (config.priorityFee !== "auto") {
+      return Math.max(0, parseInt(config.priorityFee, 10) || 0);
+    }
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts,
+      });
+      const fees = recent
+        .map((entry) => entry.prioritizationFee)
+        .filter((fee) => fee > 0)
+        .sort((a, b) => a - b);
+      if (fees.length === 0) return 0;
+      const index = Math.min(
+        fees.length - 1,
+        Math.floor((fees.length * config.priorityFeePercentile) / 100)
+      );
+      return Math.min(fees[index], config.priorityFeeMaxMicroLamports);
+    } catch {
+      return 0;
+    }
+  }
+
+  // Sends with compute budget instructions prepended, rebroadcasting until
+  // the transaction confirms. When its blockhash expires unconfirmed the
+  // transaction can no longer land, so it is re-signed with a fresh one.
+  // Every signed transaction is simulated first and only sent if it passes.
+  async send(
+    instructions: TransactionInstruction[],
+    payer: Keypair,
+    options: SendOptions = {}
+  ): Promise<SendResult> {
+    const startedAt = Date.now();
+    const elapsed = () => Date.now() - startedAt;
+
+    const priorityFee = await this.getPriorityFee(this.writableAccounts(instructions));
+    const budgetInstructions = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: config.computeUnitLimit }),
+    ];
+    if (priorityFee > 0) {
+      budgetInstructions.push(
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee })
+      );
+    }
+
+    const programIds = [...budgetInstructions, ...instructions].map((i) => i.programId);
+
+    const timing: TradeTiming = {
+      buildMs: 0,
+      totalMs: 0,
+      attempts: 0,
+      rebroadcasts: 0,
+      computeUnitLimit: config.computeUnitLimit,
+      priorityFeeMicroLamports: priorityFee,
+    };
+    const finish = (result: Omit<SendResult, "timing" | "simulation">): SendResult => {
+      timing.totalMs = elapsed();
+      return { ...result, timing, simulation };
+    };
+
+    let signature: string | undefined;
+    let simulation: TradeSimulation | undefined;
+    for (let attempt = 1; attempt <= config.sendMaxAttempts; attempt++) {
+      timing.attempts = attempt;
+
+      const { blockhash, lastValidBlockHeight } =
+        await this.connection.getLatestBlockhash("confirmed");
+      const transaction = new Transaction().add(...budgetInstructions, ...instructions);
+      transaction.recentBlockhash = blockhash;
+      transaction.feePayer = payer.publicKey;
+      transaction.sign(payer);
+      const raw = transaction.serialize();
+      signature = bs58.encode(transaction.signature!);
+      if (attempt === 1) timing.buildMs = elapsed();
+
+      // Retries re-simulate too, since the curve may have moved meanwhile
+      try {
+        simulation = await this.simulate(transaction, payer.publicKey, programIds, options);
+      } catch (error) {
+        return finish({
+          success: false,
+          error: `Simulation failed: ${error instanceof Error ? error.message : error}`,
+        });
+      }
+      if (simulation.error) {
+        return finish({ success: false, error: simulation.error });
+      }
+      if (options.dryRun) {
+        return finish({ success: true });
+      }
+
+      try {
+        // Simulation already covered preflight
+        await this.connection.sendRawTransaction(raw, {
+          skipPreflight: true,
+          maxRetries: 0,
+        });
+      } catch (error) {
+        return finish({
+          success: false,
+          signature,
+          error: error instanceof Error ? error.message : "Send failed",
+        });
+      }
+      timing.firstSentMs ??= elapsed();
+
+      const outcome = await this.confirm(
+        signature,
+        raw,
+        lastValidBlockHeight,
+        programIds,
+        timing
+      );
+      if (outcome.status === "confirmed") {
+        timing.confirmedMs = elapsed();
+        const balanceChange =
+          (await this.confirmedBalanceChange(signature, payer.publicKey, options)) ??
+          (simulation && { solChange: simulation.solChange, tokenChange: simulation.tokenChange });
+        return finish({ success: true, signature, balanceChange });
+      }
+      if (outcome.status === "failed") {
+        return finish({ success: false, signature, error: outcome.error });
+      }
+    }
+
+    return finish({
+      success: false,
+      signature,
+      error: `Blockhash expired before confirmation on all ${config.sendMaxAttempts} attempts`,
+    });
+  }
+
+  private async confirm(
+    signature: string,
+    raw: Buffer,
+    lastValidBlockHeight: number,
+    programIds: PublicKey[],
+    timing: TradeTiming
+  ): Promise<ConfirmOutcome> {
+    const deadline = Date.now() + config.confirmTimeoutMs;
+    let rpcErrors = 0;
+    for (;;) {
+      await sleep(config.rebroadcastIntervalMs);
+
+      try {
+        const outcome = await this.checkStatus(signature, programIds);
+        if (outcome && outcome.status !== "pending") return outcome;
+
+        // Checked for pending transactions too, which can still expire
+        const blockHeight = await this.connection.getBlockHeight("confirmed");
+        if (blockHeight > lastValidBlockHeight) {
+          // It may have landed in the last valid block since the check above
+          const final = await this.checkStatus(signature, programIds);
+          return final && final.status !== "pending" ? final : { status: "expired" };
+        }
+        rpcErrors = 0;
+
+        // Seen by the cluster but not yet confirmed: it can still land, so
+        // it is not rebroadcast
+        if (!outcome) {
+          await this.connection.sendRawTransaction(raw, {
+            skipPreflight: true,
+            maxRetries: 0,
+          });
+          timing.rebroadcasts++;
+        }
+      } catch (error) {
+        // RPC hiccups should not abandon a transaction that may still land,
+        // but an RPC that keeps failing cannot tell whether it did
+        const message = error instanceof Error ? error.message : String(error);
+        console.error("Confirmation check failed:", message);
+        if (++rpcErrors >= MAX_CONFIRM_RPC_ERRORS) {
+          return {
+            status: "failed",
+            error: `Could not confirm after ${rpcErrors} RPC errors (${message}); check the signature before retrying`,
+          };
+        }
+      }
+
+      // Not expired as far as we can tell, so it is not re-signed either
+      if (Date.now() >= deadline) {
+        return {
+          status: "failed",
+          error: `Not confirmed within ${config.confirmTimeoutMs / 1000}s; check the signature before retrying`,
+        };
+      }
+    }
+  }
+
+  private async checkStatus(
+    signature: string,
+    programIds: PublicKey[]
+  ): Promise<ConfirmOutcome | null> {
+    const { value } = await this.connection.getSignatureStatuses([signature]);
+    const status = value[0];
+    if (!status) return null;
+    if (status.err) {
+      return {
+        status: "failed",
+        error: `Transaction failed: ${describeTransactionError(status.err, programIds)}`,
+      };
+    }
+    if (
+      status.confirmationStatus === "confirmed" ||
+      status.confirmationStatus === "finalized"
+    ) {
+      return { status: "confirmed" };
+    }
+    return { status: "pending" };
+  }
+
+  // Reads the payer's and token account's balances before and after the
+  // landed transaction; null when the RPC cannot return it yet
+  private async confirmedBalanceChange(
+    signature: string,
+    payer: PublicKey,
+    options: SendOptions
+  ): Promise<BalanceChange | null> {
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      if (!tx?.meta) return null;
+      const keys = tx.transaction.message.staticAccountKeys;
+      const payerIndex = keys.findIndex((key) => key.equals(payer));
+      if (payerIndex < 0) return null;
+
+      const change: BalanceChange = {
+        solChange:
+          (tx.meta.postBalances[payerIndex] - tx.meta.preBalances[payerIndex]) /
+          LAMPORTS_PER_SOL,
+        tokenChange: 0,
+      };
+      if (options.tokenAccount) {
+        const index = keys.findIndex((key) => key.equals(options.tokenAccount!));
+        // A token account created or closed in the transaction is missing
+        // from one side, which counts as a zero balance
+        const amount = (balances: TokenBalance[] | null | undefined) =>
+          BigInt(balances?.find((b) => b.accountIndex === index)?.uiTokenAmount.amount ?? 0);
+        const raw = amount(tx.meta.postTokenBalances) - amount(tx.meta.preTokenBalances);
+        change.tokenChange = Number(raw) / 10 ** (options.tokenDecimals ?? 0);
+      }
+      return change;
+    } catch {
+      return null;
+    }
+  }
+
+  // Balance changes compare the simulated post-state of the payer and the
+  // token account against their current state
+  private async simulate(
+    transaction: Transaction,
+    payer: PublicKey,
+    programIds: PublicKey[],
+    options: SendOptions
+  ): Promise<TradeSimulation> {
+    const watched = options.tokenAccount ? [payer, options.tokenAccount] : [payer];
+    const before = await this.connection.getMultipleAccountsInfo(watched);
+    const { value } = await this.connection.simulateTransaction(
+      transaction,
+      undefined,
+      watched
+    );
+    const after = value.accounts ?? [];
+
+    const simulation: TradeSimulation = {
+      logs: value.logs ?? [],
+      unitsConsumed: value.unitsConsumed,
+      solChange: 0,
+      tokenChange: 0,
+    };
+    if (value.err) {
+      simulation.error = describeTransactionError(value.err, programIds);
+      return simulation;
+    }
+
+    const lamportsBefore = before[0]?.lamports ?? 0;
+    simulation.solChange =
+      ((after[0]?.lamports ?? lamportsBefore) - lamportsBefore) / LAMPORTS_PER_SOL;
+    if (options.tokenAccount) {
+      const change = tokenAccountAmount(after[1]) - tokenAccountAmount(before[1]);
+      simulation.tokenChange = Number(change) / 10 ** (options.tokenDecimals ?? 0);
+    }
+    return simulation;
+  }
+
+  private writableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+    const keys = new Map<string, PublicKey>();
+    for (const instruction of instructions) {
+      for (const meta of instruction.keys) {
+        if (meta.isWritable && !meta.isSigner) {
+          keys.set(meta.pubkey.toBase58(), meta.pubkey);
+        }
+      }
+    }
+    return [...keys.values()];
+  }
+}
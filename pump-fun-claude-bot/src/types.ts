@@ -27,6 +27,10 @@ export interface PumpFunToken {
 
 export interface TokenAnalysis {
   token: PumpFunToken;
+  // "failed" means no verdict was obtained and the fields below are placeholders
+  status: "ok" | "failed";
+  error?: string;
+  cachedAt?: number;
   riskScore: number;
   sentiment: "bullish" | "bearish" | "neutral";
   summary: string;
@@ -35,12 +39,99 @@ export interface TokenAnalysis {
   recommendation: string;
 }
 
+export interface CreatorProfile {
+  creator: string;
+  priorLaunches: number;
+  // The API returns at most one page of launches per creator
+  truncated: boolean;
+  graduated: number;
+  // Last-known market caps: dead tokens settle at roughly their final value
+  medianMarketCapUsd: number | null;
+  bestMarketCapUsd: number | null;
+  launchesPerDay: number | null;
+  medianMinutesBetweenLaunches: number | null;
+  // Minutes from creation to last reply, a proxy for how fast tokens died
+  medianActiveMinutes: number | null;
+  lastLaunchAt: number | null;
+}
+
+export interface TokenHolder {
+  owner: string;
+  tokenAccount: string;
+  amount: number;
+  pct: number;
+  freshWallet: boolean;
+  isCreator: boolean;
+}
+
+// Percentages are of total supply. The bonding curve's own account is
+// reported separately and left out of the top holders.
+export interface HolderDistribution {
+  mint: string;
+  bondingCurvePct: number;
+  top10Pct: number;
+  creatorPct: number;
+  freshWallets: number;
+  topHolders: TokenHolder[];
+  fetchedAt: number;
+}
+
+export interface AnalysisContext {
+  creatorProfile?: CreatorProfile;
+  holders?: HolderDistribution;
+}
+
+// Milliseconds from the start of the send, across every attempt
+export interface TradeTiming {
+  buildMs: number;
+  firstSentMs?: number;
+  confirmedMs?: number;
+  totalMs: number;
+  attempts: number;
+  rebroadcasts: number;
+  computeUnitLimit: number;
+  priorityFeeMicroLamports: number;
+}
+
+// Balance changes are for the trading wallet, in SOL and whole tokens
+export interface TradeSimulation {
+  logs: string[];
+  unitsConsumed?: number;
+  solChange: number;
+  tokenChange: number;
+  error?: string;
+}
+
 export interface TradeResult {
   success: boolean;
   signature?: string;
   error?: string;
   amountIn: number;
   amountOut?: number;
+  timing?: TradeTiming;
+  simulation?: TradeSimulation;
+  // Set when the trade stopped after simulation; nothing was sent
+  dryRun?: boolean;
+  // Set when the risk manager refused the order before it was built
+  rejection?: RiskRejection;
+  // Set when a sell emptied the token account and closed it for its rent
+  closedTokenAccount?: boolean;
+}
+
+export type SellAmount =
+  | { kind: "tokens"; tokens: number }
+  | { kind: "percent"; percent: number }
+  | { kind: "all" }
+  // Expected SOL out, after fees
+  | { kind: "sol"; sol: number };
+
+export interface ReclaimResult {
+  emptyAccounts: number;
+  closed: number;
+  rentSol: number;
+  signatures: string[];
+  errors: string[];
+  dryRun?: boolean;
 }
 
 export interface WebSocketMessage {
@@ -53,7 +144,9 @@ export interface NewTokenEvent {
   mint: string;
   traderPublicKey: string;
   txType: "create";
+  // Tokens the creator bought at launch, and the SOL spent on them
   initialBuy: number;
+  solAmount: number;
   bondingCurveKey: string;
   vTokensInBondingCurve: number;
   vSolInBondingCurve: number;
@@ -75,3 +168,365 @@ export interface TradeEvent {
   vSolInBondingCurve: number;
   marketCapSol: number;
 }
+
+export type ConnectionState =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "stale"
+  | "closed";
+
+// Subscribe calls add listeners and return a function that removes them.
+export interface TokenFeed {
+  connect(): Promise<void>;
+  subscribeToNewTokens(callback: (event: NewTokenEvent) => void): () => void;
+  subscribeToToken(
+    mintAddress: string,
+    callback?: (event: TradeEvent) => void
+  ): () => void;
+  unsubscribeFromToken(mintAddress: string): void;
+  disconnect(): void;
+}
+
+export interface RecordedFeedEvent {
+  receivedAt: number;
+  event: NewTokenEvent | TradeEvent;
+}
+
+// A buy or sell that was sent and confirmed, or filled on the paper wallet
+export interface TradeFill {
+  side: "buy" | "sell";
+  mint: string;
+  symbol: string;
+  result: TradeResult;
+  timestamp: number;
+}
+
+// Events on the API server's stream, sent as SSE event name and JSON data
+export type StreamEvent =
+  | { type: "newToken"; data: NewTokenEvent }
+  | { type: "trade"; data: TradeEvent }
+  | { type: "analysis"; data: TokenAnalysis }
+  | { type: "fill"; data: TradeFill }
+  | { type: "state"; data: ConnectionState };
+
+// Launches the API server has seen recently, for clients that connect late
+export interface FeedSnapshot {
+  launches: NewTokenEvent[];
+  analyses: TokenAnalysis[];
+}
+
+export interface PnlSummary {
+  paper: boolean;
+  positions: PositionValuation[];
+  realizedPnlSol: number;
+  unrealizedPnlSol: number;
+  // Open positions that could not be priced are left out of unrealizedPnlSol
+  unpriced: number;
+}
+
+export interface LedgerEntry {
+  side: "buy" | "sell";
+  mint: string;
+  symbol: string;
+  creator?: string;
+  signature: string;
+  solAmount: number;
+  tokenAmount: number;
+  timestamp: number;
+}
+
+export interface Position {
+  mint: string;
+  symbol: string;
+  creator?: string;
+  tokenAmount: number;
+  costBasisSol: number;
+  averageCostSol: number;
+  realizedPnlSol: number;
+  totalBoughtSol: number;
+  totalSoldSol: number;
+  openedAt: number;
+  lastTradeAt: number;
+}
+
+export interface PositionValuation {
+  position: Position;
+  priceSol: number | null;
+  marketValueSol: number | null;
+  unrealizedPnlSol: number | null;
+}
+
+export interface PortfolioHolding {
+  mint: string;
+  symbol: string;
+  name: string;
+  // Null for paper holdings
+  tokenAccount: string | null;
+  amount: number;
+  token: PumpFunToken | null;
+  venue: "curve" | "pool" | null;
+  priceSol: number | null;
+  // What selling the whole amount would return now, after fees and impact
+  valueSol: number | null;
+  valueUsd: number | null;
+  status: "ok" | "dead" | "unsellable" | "unknown";
+  note?: string;
+}
+
+export interface PortfolioSnapshot {
+  owner: string;
+  solBalance: number;
+  solPriceUsd: number | null;
+  holdings: PortfolioHolding[];
+  // SOL balance plus the value of every priced holding
+  totalSol: number;
+  totalUsd: number | null;
+  emptyAccounts: number;
+  fetchedAt: number;
+}
+
+export interface RealizedSell {
+  mint: string;
+  pnlSol: number;
+  timestamp: number;
+}
+
+// A zero or null limit is disabled
+export interface RiskLimits {
+  maxOrderSol: number;
+  dailyLossLimitSol: number | null;
+  maxMintExposureSol: number | null;
+  maxTotalExposureSol: number | null;
+  maxOpenPositions: number | null;
+  minSolReserve: number;
+  maxCreatorExposureSol: number | null;
+  maxPositionsPerCreator: number | null;
+  lossCooldownMinutes: number | null;
+}
+
+export interface RiskRejection {
+  rule:
+    | "invalid-amount"
+    | "kill-switch"
+    | "max-order"
+    | "daily-loss"
+    | "loss-cooldown"
+    | "mint-exposure"
+    | "total-exposure"
+    | "open-positions"
+    | "creator-exposure"
+    | "creator-positions"
+    | "sol-reserve";
+  message: string;
+  limit?: number;
+  current?: number;
+}
+
+export interface KillSwitchState {
+  engagedAt: number;
+  reason: string;
+}
+
+export interface TextMatch {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+// Launch filters for `monitor --rules`. Every key set on a rule must pass
+// (AND); `any` passes when one of its rules does (OR) and `not` inverts one.
+export interface TokenFilterRule {
+  // Case-insensitive regular expressions
+  name?: TextMatch;
+  symbol?: TextMatch;
+  // Case-insensitive keywords
+  description?: TextMatch;
+  // Every listed link must be set
+  socials?: ("twitter" | "telegram" | "website")[];
+  initialBuySol?: NumberRange;
+  marketCapSol?: NumberRange;
+  ageMinutes?: NumberRange;
+  creator?: { allow?: string[]; deny?: string[] };
+  all?: TokenFilterRule[];
+  any?: TokenFilterRule[];
+  not?: TokenFilterRule;
+}
+
+export interface EntryRules {
+  maxRiskScore: number;
+  sentiments: TokenAnalysis["sentiment"][];
+  minGreenFlags: number;
+  maxRedFlags: number;
+  minMarketCapSol: number;
+  maxMarketCapSol: number | null;
+  maxCreatorLaunches: number | null;
+  buySizeByRisk: {
+    low: number;
+    medium: number;
+    high: number;
+  };
+}
+
+export interface EntryDecision {
+  mint: string;
+  symbol: string;
+  action: "buy" | "skip";
+  reason: string;
+  riskScore?: number;
+  solAmount?: number;
+  signature?: string;
+  timestamp: number;
+}
+
+export interface TakeProfitStep {
+  gainPct: number;
+  sellPct: number;
+}
+
+export interface ExitRules {
+  stopLossPct: number | null;
+  takeProfitLadder: TakeProfitStep[];
+  trailingStopPct: number | null;
+  maxHoldMinutes: number | null;
+}
+
+export interface ExitState {
+  entryPriceSol: number;
+  openedAt: number;
+  lastPriceSol: number | null;
+  peakPriceSol: number;
+  laddersHit: Set<number>;
+}
+
+export interface ExitDecision {
+  rule: ExitTrigger["rule"];
+  sellPct: number;
+  reason: string;
+  ladderStep?: number;
+}
+
+export interface ExitTrigger {
+  mint: string;
+  symbol: string;
+  rule: "stop-loss" | "take-profit" | "trailing-stop" | "max-hold";
+  reason: string;
+  priceSol: number;
+  entryPriceSol: number;
+  tokenAmount: number;
+  // Gain step of a take-profit ladder, so a restart does not sell it twice
+  ladderStep?: number;
+  success: boolean;
+  signature?: string;
+  solReceived?: number;
+  error?: string;
+  timestamp: number;
+}
+
+export type AlertEvent = "newToken" | "analysis" | "fill" | "exit" | "watch";
+
+export type AlertSinkConfig =
+  | { type: "webhook"; name?: string; url: string; headers?: Record<string, string> }
+  | { type: "discord"; name?: string; url: string }
+  | { type: "telegram"; name?: string; botToken: string; chatId: string | number }
+  | { type: "command"; name?: string; command: string; args?: string[] };
+
+export interface AlertRule {
+  event: AlertEvent;
+  // {{variable}} placeholders; every event has a default template
+  template?: string;
+  // Sink names to send to; all sinks when omitted
+  sinks?: string[];
+  // analysis: alert when the risk score is at or below this
+  maxRiskScore?: number;
+  // fill: the sides to alert on
+  sides?: ("buy" | "sell")[];
+  // exit: the exit rules to alert on
+  exitRules?: ExitTrigger["rule"][];
+  // watch: the watchlist alerts to send
+  watchKinds?: WatchAlert["kind"][];
+}
+
+export interface AlertConfig {
+  sinks: AlertSinkConfig[];
+  rules: AlertRule[];
+  // Per sink; alerts over the limit are dropped and counted
+  maxPerMinute: number;
+  // The same alert is sent at most once per window
+  dedupMinutes: number;
+}
+
+export interface Alert {
+  event: AlertEvent;
+  mint: string;
+  message: string;
+  vars: Record<string, string>;
+  timestamp: number;
+}
+
+export interface WatchEntry {
+  mint: string;
+  symbol: string;
+  name: string;
+  // Sells by this wallet raise a creator-sell alert
+  creator: string | null;
+  addedAt: number;
+}
+
+// A watched token's activity over the rolling window
+export interface WatchStatus {
+  mint: string;
+  symbol: string;
+  priceSol: number | null;
+  // Price change since the first trade in the window
+  changePct: number | null;
+  volumeSol: number;
+  buys: number;
+  sells: number;
+  graduationPct: number | null;
+  lastTradeAt: number | null;
+}
+
+export interface WatchAlert {
+  kind: "whaleBuy" | "priceMove" | "creatorSell" | "graduation";
+  mint: string;
+  symbol: string;
+  message: string;
+  priceSol: number;
+  trade: TradeEvent;
+  timestamp: number;
+}
+
+export interface BacktestTokenOutcome {
+  mint: string;
+  symbol: string;
+  status: "open" | "closed";
+  entryAt: number;
+  riskScore?: number;
+  solSpent: number;
+  tokensBought: number;
+  solReceived: number;
+  markedValueSol: number;
+  pnlSol: number;
+  exits: string[];
+}
+
+export interface BacktestReport {
+  events: number;
+  tokensSeen: number;
+  tradesTaken: number;
+  skipped: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  closedPnlSol: number;
+  openPnlSol: number;
+  totalPnlSol: number;
+  maxDrawdownSol: number;
+  maxDrawdownPct: number;
+  outcomes: BacktestTokenOutcome[];
+}
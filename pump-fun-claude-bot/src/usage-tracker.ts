@@ -0,0 +1,83 @@
+import { config } from "./config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface UsageFile {
+  days: Record<string, UsageTotals>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+export class UsageTracker {
+  private filePath: string;
+  private session: UsageTotals = emptyTotals();
+
+  constructor(filePath: string = dataPath("usage.json")) {
+    this.filePath = filePath;
+  }
+
+  get sessionTotals(): UsageTotals {
+    return { ...this.session };
+  }
+
+  getDay(day: string = this.today()): UsageTotals {
+    return this.load().days[day] ?? emptyTotals();
+  }
+
+  getRecentDays(count: number): Array<{ day: string; totals: UsageTotals }> {
+    const days = this.load().days;
+    return Object.keys(days)
+      .sort()
+      .slice(-count)
+      .map((day) => ({ day, totals: days[day] }));
+  }
+
+  isOverBudget(): boolean {
+    return (
+      config.anthropicDailyBudgetUsd > 0 &&
+      this.getDay().costUsd >= config.anthropicDailyBudgetUsd
+    );
+  }
+
+  record(usage: { input_tokens: number; output_tokens: number }): void {
+    const costUsd =
+      (usage.input_tokens * config.anthropicInputCostPerMTok +
+        usage.output_tokens * config.anthropicOutputCostPerMTok) /
+      1_000_000;
+
+    this.add(this.session, usage, costUsd);
+
+    const file = this.load();
+    const day = this.today();
+    file.days[day] = file.days[day] ?? emptyTotals();
+    this.add(file.days[day], usage, costUsd);
+    writeJsonFile(this.filePath, file);
+  }
+
+  private add(
+    totals: UsageTotals,
+    usage: { input_tokens: number; output_tokens: number },
+    costUsd: number
+  ): void {
+    totals.calls++;
+    totals.inputTokens += usage.input_tokens;
+    totals.outputTokens += usage.output_tokens;
+    totals.costUsd += costUsd;
+  }
+
+  private load(): UsageFile {
+    return readJsonFile<UsageFile>(this.filePath, { days: {} });
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,217 @@
+import {
+  curveFromEvent,
+  curveFromToken,
+  graduationProgressPct,
+  spotPriceSol,
+} from "./bonding-curve.js";
+import type {
+  PumpFunToken,
+  TokenFeed,
+  TradeEvent,
+  WatchAlert,
+  WatchEntry,
+  WatchStatus,
+} from "./types.js";
+
+// Volume, counts and price moves are measured over this window
+const WINDOW_MS = 5 * 60000;
+
+interface WindowTrade {
+  timestamp: number;
+  side: "buy" | "sell";
+  solAmount: number;
+  priceSol: number;
+}
+
+interface WatchedToken {
+  entry: WatchEntry;
+  trades: WindowTrade[];
+  priceSol: number | null;
+  graduationPct: number | null;
+  // The trade that raised the last price move alert. Later moves are
+  // measured from it while it is in the window, so one move raises one alert.
+  moveBaseline: WindowTrade | null;
+  graduationAlerted: boolean;
+  lastTradeAt: number | null;
+  unsubscribe: () => void;
+}
+
+export interface WatchMonitorOptions {
+  // Buys of at least this many SOL
+  whaleBuySol?: number;
+  // Price change within the window, either way
+  priceMovePct?: number;
+  // Bonding curve progress towards graduation
+  graduationPct?: number;
+  onAlert?: (alert: WatchAlert) => void;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+// Follows the trade stream of watched mints without holding them. Keeps a
+// rolling window of trades per mint for status lines and raises alerts on
+// whale buys, sharp moves, creator sells and nearing graduation.
+export class WatchMonitor {
+  private feed: TokenFeed;
+  private whaleBuySol: number;
+  private priceMovePct: number;
+  private graduationPct: number;
+  private onAlert: ((alert: WatchAlert) => void) | null;
+  private tokens: Map<string, WatchedToken> = new Map();
+
+  constructor(feed: TokenFeed, options: WatchMonitorOptions = {}) {
+    this.feed = feed;
+    this.whaleBuySol = options.whaleBuySol ?? 5;
+    this.priceMovePct = options.priceMovePct ?? 20;
+    this.graduationPct = options.graduationPct ?? 90;
+    this.onAlert = options.onAlert ?? null;
+  }
+
+  // The token, when known, gives a price and curve progress before the
+  // first trade. Curves already past the graduation threshold do not alert.
+  watch(entry: WatchEntry, token: PumpFunToken | null = null): void {
+    if (this.tokens.has(entry.mint)) return;
+
+    let priceSol: number | null = null;
+    let graduationPct: number | null = null;
+    if (token?.complete) {
+      graduationPct = 100;
+    } else if (token) {
+      const curve = curveFromToken(token);
+      priceSol = spotPriceSol(curve);
+      graduationPct = graduationProgressPct(curve);
+    }
+
+    this.tokens.set(entry.mint, {
+      entry,
+      trades: [],
+      priceSol,
+      graduationPct,
+      moveBaseline: null,
+      graduationAlerted: graduationPct !== null && graduationPct >= this.graduationPct,
+      lastTradeAt: null,
+      unsubscribe: this.feed.subscribeToToken(entry.mint, (event) => this.handleTrade(event)),
+    });
+  }
+
+  unwatch(mint: string): void {
+    const watched = this.tokens.get(mint);
+    if (!watched) return;
+    this.tokens.delete(mint);
+    watched.unsubscribe();
+  }
+
+  stop(): void {
+    for (const mint of [...this.tokens.keys()]) {
+      this.unwatch(mint);
+    }
+  }
+
+  statuses(now: number = Date.now()): WatchStatus[] {
+    return [...this.tokens.values()].map((watched) => {
+      const trades = watched.trades.filter((t) => now - t.timestamp < WINDOW_MS);
+      const first = trades[0];
+      return {
+        mint: watched.entry.mint,
+        symbol: watched.entry.symbol,
+        priceSol: watched.priceSol,
+        changePct:
+          first && watched.priceSol !== null
+            ? (watched.priceSol / first.priceSol - 1) * 100
+            : null,
+        volumeSol: trades.reduce((sum, t) => sum + t.solAmount, 0),
+        buys: trades.filter((t) => t.side === "buy").length,
+        sells: trades.filter((t) => t.side === "sell").length,
+        graduationPct: watched.graduationPct,
+        lastTradeAt: watched.lastTradeAt,
+      };
+    });
+  }
+
+  private handleTrade(event: TradeEvent): void {
+    const watched = this.tokens.get(event.mint);
+    if (!watched) return;
+
+    const now = Date.now();
+    // Trades after graduation come from the pool and carry no curve reserves
+    let priceSol = event.tokenAmount > 0 ? event.solAmount / event.tokenAmount : watched.priceSol;
+    if (event.vTokensInBondingCurve > 0) {
+      const curve = curveFromEvent(event);
+      priceSol = spotPriceSol(curve);
+      watched.graduationPct = graduationProgressPct(curve);
+    }
+    if (priceSol === null) return;
+
+    watched.priceSol = priceSol;
+    watched.lastTradeAt = now;
+    watched.trades = watched.trades.filter((t) => now - t.timestamp < WINDOW_MS);
+    const trade: WindowTrade = {
+      timestamp: now,
+      side: event.txType,
+      solAmount: event.solAmount,
+      priceSol,
+    };
+    watched.trades.push(trade);
+
+    this.checkAlerts(watched, event, trade);
+  }
+
+  private checkAlerts(
+    watched: WatchedToken,
+    event: TradeEvent,
+    trade: WindowTrade
+  ): void {
+    const { priceSol, timestamp: now } = trade;
+    const raise = (kind: WatchAlert["kind"], message: string) =>
+      this.onAlert?.({
+        kind,
+        mint: event.mint,
+        symbol: watched.entry.symbol,
+        message,
+        priceSol,
+        trade: event,
+        timestamp: now,
+      });
+
+    if (event.txType === "buy" && event.solAmount >= this.whaleBuySol) {
+      raise(
+        "whaleBuy",
+        `whale buy of ${event.solAmount.toFixed(2)} SOL by ${shortAddress(event.traderPublicKey)}`
+      );
+    }
+
+    if (event.txType === "sell" && event.traderPublicKey === watched.entry.creator) {
+      raise(
+        "creatorSell",
+        `creator sold ${event.tokenAmount.toFixed(0)} tokens for ${event.solAmount.toFixed(4)} SOL`
+      );
+    }
+
+    const baseline =
+      watched.moveBaseline && watched.trades.includes(watched.moveBaseline)
+        ? watched.moveBaseline
+        : watched.trades[0];
+    if (baseline !== trade) {
+      const changePct = (priceSol / baseline.priceSol - 1) * 100;
+      if (Math.abs(changePct) >= this.priceMovePct) {
+        const minutes = Math.round((now - baseline.timestamp) / 60000);
+        raise(
+          "priceMove",
+          `price ${changePct > 0 ? "up" : "down"} ${Math.abs(changePct).toFixed(1)}% ${minutes < 1 ? "in under a minute" : `in ${minutes}m`}`
+        );
+        watched.moveBaseline = trade;
+      }
+    }
+
+    if (
+      !watched.graduationAlerted &&
+      watched.graduationPct !== null &&
+      watched.graduationPct >= this.graduationPct
+    ) {
+      watched.graduationAlerted = true;
+      raise("graduation", `bonding curve ${watched.graduationPct.toFixed(1)}% of the way to graduation`);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+import type { WatchEntry } from "./types.js";
+
+// Mints followed by `watch run`, kept apart from positions since nothing
+// here is held
+export class Watchlist {
+  private filePath: string;
+
+  constructor(filePath: string = dataPath("watchlist.json")) {
+    this.filePath = filePath;
+  }
+
+  list(): WatchEntry[] {
+    return this.read();
+  }
+
+  has(mint: string): boolean {
+    return this.read().some((entry) => entry.mint === mint);
+  }
+
+  // False when the mint is already watched
+  add(entry: WatchEntry): boolean {
+    const entries = this.read();
+    if (entries.some((e) => e.mint === entry.mint)) return false;
+    entries.push(entry);
+    writeJsonFile(this.filePath, entries);
+    return true;
+  }
+
+  // False when the mint was not watched
+  remove(mint: string): boolean {
+    const entries = this.read();
+    const remaining = entries.filter((entry) => entry.mint !== mint);
+    if (remaining.length === entries.length) return false;
+    writeJsonFile(this.filePath, remaining);
+    return true;
+  }
+
+  private read(): WatchEntry[] {
+    return readJsonFile<WatchEntry[]>(this.filePath, []);
+  }
+}
@@ -1,31 +1,81 @@
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
 import WebSocket from "ws";
 import { config } from "./config.js";
-import type { NewTokenEvent, TradeEvent } from "./types.js";
+import type {
+  ConnectionState,
+  NewTokenEvent,
+  RecordedFeedEvent,
+  TokenFeed,
+  TradeEvent,
+} from "./types.js";
 
 type EventCallback<T> = (event: T) => void;
 
-export class PumpFunWebSocket {
+interface FeedEvents {
+  newToken: NewTokenEvent;
+  trade: TradeEvent;
+  state: ConnectionState;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export class PumpFunWebSocket implements TokenFeed {
   private ws: WebSocket | null = null;
+  private emitter = new EventEmitter();
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private onNewToken: EventCallback<NewTokenEvent> | null = null;
-  private onTrade: EventCallback<TradeEvent> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private awaitingPong = false;
+  private lastMessageAt = 0;
+  private newTokensSubscribed = false;
   private subscribedTokens: Set<string> = new Set();
   private isConnected = false;
+  private closedByUser = false;
+  private capture: fs.WriteStream | null = null;
+  private captureTimers: Map<string, NodeJS.Timeout> = new Map();
+  private _state: ConnectionState = "closed";
+
+  constructor() {
+    // Every per-mint subscription is its own event name, so the default
+    // listener warning does not apply
+    this.emitter.setMaxListeners(0);
+  }
+
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  on<K extends keyof FeedEvents>(
+    event: K,
+    listener: EventCallback<FeedEvents[K]>
+  ): () => void {
+    this.emitter.on(event, listener);
+    return () => this.emitter.off(event, listener);
+  }
 
   connect(): Promise<void> {
+    this.closedByUser = false;
+    this.setState(this.reconnectAttempts > 0 ? "reconnecting" : "connecting");
+
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(config.pumpfunWsUrl);
+        const ws = new WebSocket(config.pumpfunWsUrl);
+        this.ws = ws;
 
-        this.ws.on("open", () => {
-          console.log("Connected to pump.fun WebSocket");
+        ws.on("open", () => {
           this.isConnected = true;
           this.reconnectAttempts = 0;
+          this.lastMessageAt = Date.now();
+          this.setState("open");
+          this.restoreSubscriptions();
+          this.startHeartbeat();
           resolve();
         });
 
-        this.ws.on("message", (data: WebSocket.Data) => {
+        ws.on("message", (data: WebSocket.Data) => {
+          this.lastMessageAt = Date.now();
           try {
             const message = JSON.parse(data.toString());
             this.handleMessage(message);
@@ -34,16 +84,28 @@ export class PumpFunWebSocket {
           }
         });
 
-        this.ws.on("close", () => {
-          console.log("WebSocket connection closed");
+        ws.on("pong", () => {
+          this.awaitingPong = false;
+        });
+
+        ws.on("close", () => {
           this.isConnected = false;
-          this.attemptReconnect();
+          this.stopHeartbeat();
+          if (this.ws === ws) {
+            this.ws = null;
+          }
+          if (this.closedByUser) {
+            this.setState("closed");
+          } else {
+            this.attemptReconnect();
+          }
         });
 
-        this.ws.on("error", (error) => {
-          console.error("WebSocket error:", error);
-          if (!this.isConnected) {
+        ws.on("error", (error: Error) => {
+          if (!this.isConnected && this.reconnectAttempts === 0) {
             reject(error);
+          } else {
+            console.error("WebSocket error:", error.message);
           }
         });
       } catch (error) {
@@ -52,81 +114,206 @@ export class PumpFunWebSocket {
     });
   }
 
+  startCapture(filePath: string): void {
+    this.stopCapture();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.capture = fs.createWriteStream(filePath, { flags: "a" });
+    console.log(`Recording feed to ${filePath}`);
+  }
+
+  stopCapture(): void {
+    if (this.capture) {
+      this.capture.end();
+      this.capture = null;
+    }
+    for (const mint of [...this.captureTimers.keys()]) {
+      this.endLaunchCapture(mint);
+    }
+  }
+
+  // A recording follows each launch's trades for RECORD_TRADE_MINUTES, so
+  // replays and backtests have prices to exit on. These subscriptions are
+  // silent and end on their own unless something else subscribed meanwhile.
+  private captureLaunchTrades(mintAddress: string): void {
+    if (config.recordTradeMinutes <= 0 || this.subscribedTokens.has(mintAddress)) return;
+    this.subscribedTokens.add(mintAddress);
+    this.send({ method: "subscribeTokenTrade", keys: [mintAddress] });
+    this.captureTimers.set(
+      mintAddress,
+      setTimeout(() => this.endLaunchCapture(mintAddress), config.recordTradeMinutes * 60000)
+    );
+  }
+
+  private endLaunchCapture(mintAddress: string): void {
+    clearTimeout(this.captureTimers.get(mintAddress));
+    this.captureTimers.delete(mintAddress);
+    if (this.emitter.listenerCount(`trade:${mintAddress}`) > 0) return;
+    if (this.subscribedTokens.delete(mintAddress)) {
+      this.send({ method: "unsubscribeTokenTrade", keys: [mintAddress] });
+    }
+  }
+
   private handleMessage(message: { txType?: string } & Record<string, unknown>): void {
-    if (message.txType === "create" && this.onNewToken) {
-      this.onNewToken(message as unknown as NewTokenEvent);
-    } else if (
-      (message.txType === "buy" || message.txType === "sell") &&
-      this.onTrade
+    if (
+      this.capture &&
+      (message.txType === "create" ||
+        message.txType === "buy" ||
+        message.txType === "sell")
     ) {
-      this.onTrade(message as unknown as TradeEvent);
+      const record: RecordedFeedEvent = {
+        receivedAt: Date.now(),
+        event: message as unknown as RecordedFeedEvent["event"],
+      };
+      this.capture.write(`${JSON.stringify(record)}\n`);
+    }
+
+    if (message.txType === "create") {
+      const event = message as unknown as NewTokenEvent;
+      if (this.capture) this.captureLaunchTrades(event.mint);
+      this.emitter.emit("newToken", event);
+    } else if (message.txType === "buy" || message.txType === "sell") {
+      const trade = message as unknown as TradeEvent;
+      this.emitter.emit("trade", trade);
+      this.emitter.emit(`trade:${trade.mint}`, trade);
     }
   }
 
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error("Max reconnection attempts reached");
-      return;
+  private setState(state: ConnectionState): void {
+    if (this._state === state) return;
+    this._state = state;
+    this.emitter.emit("state", state);
+  }
+
+  private send(payload: Record<string, unknown>): void {
+    if (this.ws && this.isConnected) {
+      this.ws.send(JSON.stringify(payload));
+    }
+  }
+
+  private restoreSubscriptions(): void {
+    if (this.newTokensSubscribed) {
+      this.send({ method: "subscribeNewToken" });
+    }
+    if (this.subscribedTokens.size > 0) {
+      this.send({
+        method: "subscribeTokenTrade",
+        keys: [...this.subscribedTokens],
+      });
+    }
+  }
+
+  // Pings catch dead sockets; a silent new-token stream catches a feed
+  // that is connected but no longer delivering. Token trades alone can be
+  // legitimately quiet, so they do not count towards staleness.
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.awaitingPong = false;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws) return;
+
+      const silentMs = Date.now() - this.lastMessageAt;
+      if (
+        this.awaitingPong ||
+        (this.newTokensSubscribed && silentMs > config.wsStaleAfterMs)
+      ) {
+        this.setState("stale");
+        this.ws.terminate();
+        return;
+      }
+
+      this.awaitingPong = true;
+      this.ws.ping();
+    }, config.wsHeartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
+  }
+
+  private attemptReconnect(): void {
+    if (this.reconnectTimer) return;
 
     this.reconnectAttempts++;
-    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-    console.log(`Attempting to reconnect in ${delay / 1000}s...`);
+    // Exponential backoff with full jitter, retried indefinitely
+    const ceiling = Math.min(
+      1000 * Math.pow(2, this.reconnectAttempts),
+      MAX_RECONNECT_DELAY_MS
+    );
+    const delay = Math.floor(500 + Math.random() * ceiling);
+    this.setState("reconnecting");
 
-    setTimeout(() => {
-      this.connect().catch((error) => {
-        console.error("Reconnection failed:", error);
-      });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      // A failed attempt closes the socket, which schedules the next one
+      this.connect().catch(() => undefined);
     }, delay);
   }
 
-  subscribeToNewTokens(callback: EventCallback<NewTokenEvent>): void {
-    this.onNewToken = callback;
-    if (this.ws && this.isConnected) {
-      this.ws.send(
-        JSON.stringify({
-          method: "subscribeNewToken",
-        })
-      );
-      console.log("Subscribed to new token events");
+  subscribeToNewTokens(callback: EventCallback<NewTokenEvent>): () => void {
+    const unsubscribe = this.on("newToken", callback);
+    if (!this.newTokensSubscribed) {
+      this.newTokensSubscribed = true;
+      this.send({ method: "subscribeNewToken" });
+      if (this.isConnected) {
+        console.log("Subscribed to new token events");
+      }
     }
+    return unsubscribe;
   }
 
-  subscribeToToken(mintAddress: string, callback?: EventCallback<TradeEvent>): void {
+  subscribeToToken(
+    mintAddress: string,
+    callback?: EventCallback<TradeEvent>
+  ): () => void {
+    const eventName = `trade:${mintAddress}`;
     if (callback) {
-      this.onTrade = callback;
+      this.emitter.on(eventName, callback);
     }
-    this.subscribedTokens.add(mintAddress);
-    if (this.ws && this.isConnected) {
-      this.ws.send(
-        JSON.stringify({
-          method: "subscribeTokenTrade",
-          keys: [mintAddress],
-        })
-      );
-      console.log(`Subscribed to trades for token: ${mintAddress}`);
+
+    if (!this.subscribedTokens.has(mintAddress)) {
+      this.subscribedTokens.add(mintAddress);
+      this.send({ method: "subscribeTokenTrade", keys: [mintAddress] });
+      if (this.isConnected) {
+        console.log(`Subscribed to trades for token: ${mintAddress}`);
+      }
     }
+
+    return () => {
+      if (callback) {
+        this.emitter.off(eventName, callback);
+      }
+      if (this.emitter.listenerCount(eventName) === 0) {
+        this.unsubscribeFromToken(mintAddress);
+      }
+    };
   }
 
   unsubscribeFromToken(mintAddress: string): void {
-    this.subscribedTokens.delete(mintAddress);
-    if (this.ws && this.isConnected) {
-      this.ws.send(
-        JSON.stringify({
-          method: "unsubscribeTokenTrade",
-          keys: [mintAddress],
-        })
-      );
+    this.emitter.removeAllListeners(`trade:${mintAddress}`);
+    if (!this.subscribedTokens.delete(mintAddress)) return;
+    this.send({ method: "unsubscribeTokenTrade", keys: [mintAddress] });
+    if (this.isConnected) {
       console.log(`Unsubscribed from token: ${mintAddress}`);
     }
   }
 
   disconnect(): void {
+    this.closedByUser = true;
+    this.stopCapture();
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.ws) {
       this.ws.close();
       this.ws = null;
       this.isConnected = false;
       console.log("Disconnected from WebSocket");
     }
+    this.setState("closed");
   }
 }
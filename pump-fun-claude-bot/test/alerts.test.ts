@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AlertManager, renderTemplate } from "../src/alerts.js";
+import type { AlertSink } from "../src/alert-sinks.js";
+import type { Alert, AlertConfig, ExitTrigger } from "../src/types.js";
+import { makeCreateEvent } from "./helpers.js";
+
+function recordingSink(name: string): AlertSink & { sent: Alert[] } {
+  const sent: Alert[] = [];
+  return { name, sent, send: async (alert) => void sent.push(alert) };
+}
+
+function setup(overrides: Partial<AlertConfig> = {}) {
+  const sink = recordingSink("test");
+  const alerts = new AlertManager(
+    {
+      sinks: [{ type: "webhook", name: "test", url: "https://example.com" }],
+      rules: [{ event: "newToken" }],
+      maxPerMinute: 10,
+      dedupMinutes: 30,
+      ...overrides,
+    },
+    { sinks: [sink] }
+  );
+  return { alerts, sink };
+}
+
+function exitTrigger(overrides: Partial<ExitTrigger> = {}): ExitTrigger {
+  return {
+    mint: "mint",
+    symbol: "DOG",
+    rule: "stop-loss",
+    reason: "down 30%",
+    priceSol: 0.7,
+    entryPriceSol: 1,
+    tokenAmount: 10,
+    success: true,
+    signature: "sig-1",
+    solReceived: 0.7,
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("AlertManager", () => {
+  it("renders the rule's template", async () => {
+    const { alerts, sink } = setup({
+      rules: [{ event: "newToken", template: "{{symbol}} by {{ creator }}" }],
+    });
+    alerts.newToken(makeCreateEvent({ traderPublicKey: "Dev" }));
+    await alerts.flush();
+    expect(sink.sent.map((a) => a.message)).toEqual(["DOG by Dev"]);
+  });
+
+  it("reports the dev buy in SOL by default", async () => {
+    const { alerts, sink } = setup();
+    alerts.newToken(makeCreateEvent({ solAmount: 1.5 }));
+    await alerts.flush();
+    expect(sink.sent[0].message).toContain("dev buy 1.5000 SOL");
+  });
+
+  it("sends the same alert once per dedup window", async () => {
+    const { alerts, sink } = setup({ dedupMinutes: 30 });
+    const event = makeCreateEvent();
+    alerts.newToken(event);
+    alerts.newToken(event);
+    vi.advanceTimersByTime(29 * 60000);
+    alerts.newToken(event);
+    expect(sink.sent).toHaveLength(1);
+
+    vi.advanceTimersByTime(2 * 60000);
+    alerts.newToken(event);
+    await alerts.flush();
+    expect(sink.sent).toHaveLength(2);
+  });
+
+  it("drops alerts over the rate limit and reports them on the next send", async () => {
+    const { alerts, sink } = setup({ maxPerMinute: 2 });
+    for (let i = 0; i < 5; i++) {
+      alerts.newToken(makeCreateEvent({ mint: `mint-${i}` }));
+    }
+    expect(sink.sent).toHaveLength(2);
+
+    vi.advanceTimersByTime(60000);
+    alerts.newToken(makeCreateEvent({ mint: "mint-next" }));
+    await alerts.flush();
+    expect(sink.sent).toHaveLength(3);
+    expect(sink.sent[2].message).toMatch(/\(3 alerts dropped by the rate limit\)$/);
+  });
+
+  it("only sends events a rule matches", async () => {
+    const { alerts, sink } = setup({ rules: [{ event: "exit", exitRules: ["stop-loss"] }] });
+    alerts.newToken(makeCreateEvent());
+    alerts.exit(exitTrigger({ rule: "take-profit" }));
+    await alerts.flush();
+    expect(sink.sent).toEqual([]);
+  });
+
+  it("reports a sale after a failed sell of the same exit", async () => {
+    const { alerts, sink } = setup({ rules: [{ event: "exit" }] });
+    const failed = exitTrigger({ success: false, signature: undefined, error: "Slippage" });
+    alerts.exit(failed);
+    alerts.exit({ ...failed, timestamp: Date.now() + 1000 });
+    alerts.exit(exitTrigger());
+    await alerts.flush();
+    expect(sink.sent.map((a) => a.message)).toEqual([
+      expect.stringContaining("sell failed: Slippage"),
+      expect.stringContaining("sold 10.00 tokens"),
+    ]);
+  });
+
+  it("reports every take-profit ladder step", async () => {
+    const { alerts, sink } = setup({ rules: [{ event: "exit", exitRules: ["take-profit"] }] });
+    alerts.exit(exitTrigger({ rule: "take-profit", ladderStep: 50, signature: undefined }));
+    alerts.exit(exitTrigger({ rule: "take-profit", ladderStep: 100, signature: undefined }));
+    await alerts.flush();
+    expect(sink.sent).toHaveLength(2);
+  });
+
+  it("reports separate sales of the same rule", async () => {
+    const { alerts, sink } = setup({ rules: [{ event: "exit" }] });
+    alerts.exit(exitTrigger({ signature: "sig-1" }));
+    alerts.exit(exitTrigger({ signature: "sig-1" }));
+    alerts.exit(exitTrigger({ signature: "sig-2" }));
+    await alerts.flush();
+    expect(sink.sent).toHaveLength(2);
+  });
+
+  it("reports sink failures without throwing", async () => {
+    const onError = vi.fn();
+    const failing: AlertSink = {
+      name: "down",
+      send: async () => {
+        throw new Error("HTTP 500");
+      },
+    };
+    const alerts = new AlertManager(
+      {
+        sinks: [{ type: "webhook", name: "down", url: "https://example.com" }],
+        rules: [{ event: "newToken" }],
+        maxPerMinute: 10,
+        dedupMinutes: 30,
+      },
+      { sinks: [failing], onError }
+    );
+    alerts.newToken(makeCreateEvent());
+    await alerts.flush();
+    expect(onError).toHaveBeenCalledWith("down", new Error("HTTP 500"));
+  });
+});
+
+describe("renderTemplate", () => {
+  it("leaves unknown variables empty", () => {
+    expect(renderTemplate("{{a}}-{{missing}}", { a: "x" })).toBe("x-");
+  });
+});
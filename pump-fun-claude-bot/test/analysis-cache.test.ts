@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnalysisCache } from "../src/analysis-cache.js";
+import type { TokenAnalysis } from "../src/types.js";
+import { makeToken, tempPath } from "./helpers.js";
+
+const token = makeToken({ market_cap: 40 });
+
+function analysisOf(overrides: Partial<TokenAnalysis> = {}): TokenAnalysis {
+  return {
+    token,
+    status: "ok",
+    riskScore: 4,
+    sentiment: "neutral",
+    summary: "Quiet launch",
+    redFlags: [],
+    greenFlags: [],
+    recommendation: "Watch",
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("AnalysisCache", () => {
+  it("returns a stored verdict for the same inputs", () => {
+    const cache = new AnalysisCache(tempPath("analysis-cache.json"));
+    cache.set(token, "fp", analysisOf());
+
+    expect(cache.get(token, "fp")).toMatchObject({ riskScore: 4, token, cachedAt: expect.any(Number) });
+    expect(cache.get(token, "other")).toBeNull();
+  });
+
+  it("does not store failed analyses", () => {
+    const cache = new AnalysisCache(tempPath("analysis-cache.json"));
+    cache.set(token, "fp", analysisOf({ status: "failed", error: "Overloaded" }));
+
+    expect(cache.get(token, "fp")).toBeNull();
+  });
+
+  it("expires entries after the TTL", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const cache = new AnalysisCache(tempPath("analysis-cache.json"));
+    cache.set(token, "fp", analysisOf());
+
+    vi.advanceTimersByTime(29 * 60000);
+    expect(cache.get(token, "fp")).not.toBeNull();
+    vi.advanceTimersByTime(2 * 60000);
+    expect(cache.get(token, "fp")).toBeNull();
+  });
+
+  it("drops a verdict once the market cap moves past the band", () => {
+    const cache = new AnalysisCache(tempPath("analysis-cache.json"));
+    cache.set(token, "fp", analysisOf());
+
+    expect(cache.get({ ...token, market_cap: 49 }, "fp")).not.toBeNull();
+    expect(cache.get({ ...token, market_cap: 51 }, "fp")).toBeNull();
+    expect(cache.get({ ...token, market_cap: 29 }, "fp")).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import * as http from "http";
+import { afterEach, describe, expect, it } from "vitest";
+import { ApiServer } from "../src/api-server.js";
+import type { ClaudeAnalyzer } from "../src/claude-analyzer.js";
+import type { PumpFunAPI } from "../src/pumpfun-api.js";
+import type { PumpFunWebSocket } from "../src/websocket-monitor.js";
+import type { SolanaTrader } from "../src/solana-trader.js";
+import type { TradeResult } from "../src/types.js";
+import { makeToken } from "./helpers.js";
+
+const token = makeToken();
+const servers: ApiServer[] = [];
+
+afterEach(async () => {
+  for (const server of servers.splice(0)) await server.stop();
+});
+
+async function startServer(
+  authToken: string,
+  dashboardToken = "",
+  trader: Partial<SolanaTrader> = {}
+): Promise<ApiServer> {
+  const feed = {
+    state: "open",
+    subscribeToNewTokens: () => () => {},
+    on: () => () => {},
+  } as unknown as PumpFunWebSocket;
+  const api = { getToken: async () => token } as unknown as PumpFunAPI;
+  const analyzer = {
+    askAboutToken: async () => "Looks fine",
+  } as unknown as ClaudeAnalyzer;
+
+  const server = new ApiServer(
+    feed,
+    api,
+    analyzer,
+    { connection: {}, ...trader } as unknown as SolanaTrader,
+    {
+      host: "127.0.0.1",
+      port: 18000 + Math.floor(Math.random() * 2000),
+      authToken,
+      dashboardToken,
+    }
+  );
+  servers.push(server);
+  await server.start();
+  return server;
+}
+
+async function analyze(server: ApiServer, bearer?: string) {
+  const response = await fetch(`${server.url}/api/tokens/${token.mint}/analyze`, {
+    method: "POST",
+    headers: bearer ? { Authorization: `Bearer ${bearer}` } : {},
+    body: JSON.stringify({ question: "Is this a rug?" }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function trade(server: ApiServer, bearer: string, body: Record<string, unknown>) {
+  return fetch(`${server.url}/api/trade`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${bearer}` },
+    body: JSON.stringify({ side: "buy", mint: token.mint, amount: 0.1, ...body }),
+  });
+}
+
+describe("ApiServer analysis", () => {
+  it("is refused when no API token is configured", async () => {
+    const server = await startServer("");
+    expect(await analyze(server, "anything")).toEqual({
+      status: 403,
+      body: { error: "Analysis over the API is disabled: set API_AUTH_TOKEN" },
+    });
+  });
+
+  it("needs the configured bearer token", async () => {
+    const server = await startServer("secret");
+    expect((await analyze(server)).status).toBe(401);
+    expect((await analyze(server, "wrong")).status).toBe(401);
+    expect(await analyze(server, "secret")).toEqual({
+      status: 200,
+      body: { answer: "Looks fine" },
+    });
+  });
+
+  it("takes the dashboard token, which cannot trade", async () => {
+    const server = await startServer("secret", "dashboard");
+    expect((await analyze(server, "dashboard")).status).toBe(200);
+    expect((await trade(server, "dashboard", {})).status).toBe(401);
+  });
+});
+
+describe("ApiServer requests", () => {
+  it("refuses a Host that is not loopback", async () => {
+    const server = await startServer("secret");
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http
+        .get(`${server.url}/api/health`, { headers: { Host: "attacker.example:8787" } }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        })
+        .on("error", reject);
+    });
+    expect(status).toBe(403);
+    expect((await fetch(`${server.url}/api/health`)).status).toBe(200);
+  });
+
+  it("needs a token for the event stream and holder lookups", async () => {
+    const server = await startServer("secret", "dashboard");
+    expect((await fetch(`${server.url}/api/events`)).status).toBe(401);
+    expect((await fetch(`${server.url}/api/tokens/${token.mint}/holders`)).status).toBe(401);
+
+    const controller = new AbortController();
+    const stream = await fetch(`${server.url}/api/events`, {
+      headers: { Authorization: "Bearer dashboard" },
+      signal: controller.signal,
+    });
+    expect(stream.status).toBe(200);
+    controller.abort();
+  });
+
+  it("answers a malformed escape with 400", async () => {
+    const server = await startServer("secret");
+    const response = await fetch(`${server.url}/api/tokens/%E0%A4%A/creator`);
+    expect(response.status).toBe(400);
+  });
+
+  it("only streams fills for trades that went through", async () => {
+    const results: TradeResult[] = [
+      { success: false, error: "Slippage", amountIn: 0.1 },
+      { success: true, dryRun: true, amountIn: 0.1, amountOut: 1000 },
+      { success: true, signature: "sig-live", amountIn: 0.1, amountOut: 1000 },
+    ];
+    const server = await startServer("secret", "", {
+      buyToken: async () => results.shift()!,
+    });
+
+    const controller = new AbortController();
+    const stream = await fetch(`${server.url}/api/events?events=fill`, {
+      headers: { Authorization: "Bearer secret" },
+      signal: controller.signal,
+    });
+    for (let i = 0; i < 3; i++) await trade(server, "secret", {});
+
+    const reader = stream.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = "";
+    while (!received.includes("sig-live")) {
+      received += decoder.decode((await reader.read()).value);
+    }
+    controller.abort();
+    expect(received.match(/event: fill/g)).toHaveLength(1);
+  });
+});
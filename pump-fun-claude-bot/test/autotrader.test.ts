@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import { AutoTrader } from "../src/autotrader.js";
+import type { ClaudeAnalyzer } from "../src/claude-analyzer.js";
+import type { PumpFunAPI } from "../src/pumpfun-api.js";
+import type { SolanaTrader } from "../src/solana-trader.js";
+import { defaultEntryRules } from "../src/strategy.js";
+import type {
+  EntryDecision,
+  EntryRules,
+  NewTokenEvent,
+  PumpFunToken,
+  TokenFeed,
+} from "../src/types.js";
+import { makeCreateEvent, makeToken, tempPath } from "./helpers.js";
+
+function setup(api: PumpFunAPI, rules: Partial<EntryRules>, replay: boolean) {
+  let onNewToken: (event: NewTokenEvent) => void = () => {};
+  const feed = {
+    subscribeToNewTokens: (callback: (event: NewTokenEvent) => void) => {
+      onNewToken = callback;
+      return () => {};
+    },
+  } as unknown as TokenFeed;
+  const analyzer = {
+    analyzeToken: vi.fn(async (token: PumpFunToken) => ({
+      token,
+      status: "ok",
+      riskScore: 2,
+      sentiment: "bullish",
+      summary: "",
+      redFlags: [],
+      greenFlags: ["a", "b"],
+      recommendation: "",
+    })),
+  };
+  const bought: PumpFunToken[] = [];
+  const trader = {
+    risk: { killSwitch: null },
+    buyToken: async (token: PumpFunToken, solAmount: number) => {
+      bought.push(token);
+      return { success: true, signature: "sig", amountIn: solAmount, amountOut: 1000 };
+    },
+  } as unknown as SolanaTrader;
+
+  const decisions: EntryDecision[] = [];
+  const autoTrader = new AutoTrader(
+    feed,
+    api,
+    analyzer as unknown as ClaudeAnalyzer,
+    trader,
+    { ...defaultEntryRules, buySizeByRisk: { low: 0.1, medium: 0.05, high: 0 }, ...rules },
+    {
+      replay,
+      decisionLogPath: tempPath("decisions.jsonl"),
+      onDecision: (decision) => decisions.push(decision),
+    }
+  );
+  autoTrader.start();
+  return { emit: (event: NewTokenEvent) => onNewToken(event), analyzer, bought, decisions };
+}
+
+describe("AutoTrader", () => {
+  it("trades a replayed launch from its create event without live lookups", async () => {
+    const api = {
+      getToken: vi.fn(),
+      getTokensByCreator: vi.fn(),
+    } as unknown as PumpFunAPI;
+    const { emit, bought, decisions } = setup(api, {}, true);
+
+    emit(makeCreateEvent({ vSolInBondingCurve: 31 }));
+    await vi.waitFor(() => expect(decisions).toHaveLength(1));
+
+    expect(decisions[0]).toMatchObject({ action: "buy", solAmount: 0.1 });
+    expect(bought[0]).toMatchObject({
+      creator: "Creator111111111111111111111111111111111111",
+      virtual_sol_reserves: 31e9,
+    });
+    expect(api.getToken).not.toHaveBeenCalled();
+    expect(api.getTokensByCreator).not.toHaveBeenCalled();
+  });
+
+  it("skips a token whose creator history is unavailable under a creator rule", async () => {
+    const api = {
+      getToken: async () => makeToken(),
+      getTokensByCreator: async () => {
+        throw new Error("HTTP 503");
+      },
+    } as unknown as PumpFunAPI;
+    const { emit, analyzer, decisions } = setup(api, { maxCreatorLaunches: 3 }, false);
+
+    emit(makeCreateEvent({ vSolInBondingCurve: 31 }));
+    await vi.waitFor(() => expect(decisions).toHaveLength(1));
+
+    expect(decisions[0]).toMatchObject({
+      action: "skip",
+      reason: "creator history unavailable: HTTP 503",
+    });
+    expect(analyzer.analyzeToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { Backtester } from "../src/backtester.js";
+import { defaultEntryRules } from "../src/strategy.js";
+import type { RecordedFeedEvent } from "../src/types.js";
+import { makeCreateEvent, makeTradeEvent, tempPath } from "./helpers.js";
+
+const K = 30 * 1_073_000_000;
+
+// Reserves for a curve holding vSol of virtual SOL
+function reserves(vSol: number) {
+  return { vSolInBondingCurve: vSol, vTokensInBondingCurve: K / vSol };
+}
+
+function run(records: RecordedFeedEvent[]) {
+  return new Backtester({
+    entryRules: { ...defaultEntryRules, minMarketCapSol: 10, buySizeByRisk: { low: 1, medium: 0.5, high: 0 } },
+    exitRules: {
+      stopLossPct: 30,
+      takeProfitLadder: [{ gainPct: 100, sellPct: 100 }],
+      trailingStopPct: null,
+      maxHoldMinutes: null,
+    },
+    analysisMode: "none",
+    analysisCachePath: tempPath("analysis-cache.json"),
+    startingSol: 10,
+  }).run(records);
+}
+
+describe("Backtester", () => {
+  it("reports wins, losses, PnL and drawdown", async () => {
+    const records: RecordedFeedEvent[] = [
+      { receivedAt: 0, event: makeCreateEvent({ mint: "winner", ...reserves(30) }) },
+      { receivedAt: 1, event: makeCreateEvent({ mint: "loser", ...reserves(40) }) },
+      { receivedAt: 2, event: makeCreateEvent({ mint: "tiny", marketCapSol: 5 }) },
+      // Price is vSol squared over k, so these move it about -44% and +150%
+      { receivedAt: 3, event: makeTradeEvent({ mint: "loser", txType: "sell", ...reserves(30) }) },
+      { receivedAt: 4, event: makeTradeEvent({ mint: "winner", ...reserves(47.5) }) },
+    ];
+    const report = await run(records);
+
+    expect(report.tokensSeen).toBe(3);
+    expect(report.skipped).toBe(1);
+    expect(report.tradesTaken).toBe(2);
+
+    const [winner, loser] = report.outcomes;
+    expect(winner.status).toBe("closed");
+    expect(winner.exits[0]).toMatch(/^take-profit/);
+    expect(winner.pnlSol).toBeGreaterThan(0.5);
+    expect(loser.status).toBe("closed");
+    expect(loser.exits[0]).toMatch(/^stop-loss/);
+    expect(loser.pnlSol).toBeLessThan(-0.15);
+
+    expect(report.wins).toBe(1);
+    expect(report.losses).toBe(1);
+    expect(report.winRate).toBe(50);
+    expect(report.openPnlSol).toBe(0);
+    expect(report.closedPnlSol).toBeCloseTo(winner.pnlSol + loser.pnlSol, 12);
+    expect(report.totalPnlSol).toBeCloseTo(report.closedPnlSol, 12);
+    expect(report.maxDrawdownSol).toBeCloseTo(-loser.pnlSol, 1);
+    expect(report.maxDrawdownPct).toBeGreaterThan(0);
+  });
+
+  it("marks positions that never exit at the last curve", async () => {
+    const report = await run([
+      { receivedAt: 0, event: makeCreateEvent({ mint: "held", ...reserves(30) }) },
+      { receivedAt: 1, event: makeTradeEvent({ mint: "held", ...reserves(33) }) },
+    ]);
+    const [held] = report.outcomes;
+    expect(held.status).toBe("open");
+    expect(held.markedValueSol).toBeGreaterThan(0.5);
+    expect(report.openPnlSol).toBeCloseTo(held.pnlSol, 12);
+    expect(report.closedPnlSol).toBe(0);
+  });
+
+  it("refuses a recording with launches but no trades", async () => {
+    await expect(
+      run([{ receivedAt: 0, event: makeCreateEvent({ mint: "held", ...reserves(30) }) }])
+    ).rejects.toThrow("Recording has launches but no trades to exit on");
+  });
+});
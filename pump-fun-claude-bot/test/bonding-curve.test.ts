@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySlippage,
+  curveFromReserves,
+  getBuySolCost,
+  getBuyTokenAmount,
+  getSellSolAmount,
+  getSellTokensForSol,
+  graduationProgressPct,
+  INITIAL_REAL_TOKEN_RESERVES,
+  INITIAL_VIRTUAL_TOKEN_RESERVES,
+  quoteBuy,
+  quoteSell,
+  solToReachMarketCap,
+  spotPriceSol,
+  toBaseUnits,
+} from "../src/bonding-curve.js";
+
+const launch = curveFromReserves(30_000_000_000n, INITIAL_VIRTUAL_TOKEN_RESERVES);
+const ONE_SOL = 1_000_000_000n;
+
+describe("curveFromReserves", () => {
+  it("derives real reserves from the virtual ones", () => {
+    expect(launch.realTokenReserves).toBe(INITIAL_REAL_TOKEN_RESERVES);
+  });
+
+  it("never reports negative real reserves", () => {
+    expect(curveFromReserves(ONE_SOL, 1n).realTokenReserves).toBe(0n);
+  });
+});
+
+describe("buy math", () => {
+  it("returns nothing for zero or negative SOL", () => {
+    expect(getBuyTokenAmount(launch, 0n)).toBe(0n);
+    expect(getBuyTokenAmount(launch, -ONE_SOL)).toBe(0n);
+    expect(getBuySolCost(launch, 0n)).toBe(0n);
+  });
+
+  it("keeps the constant product in the program's favour", () => {
+    const tokens = getBuyTokenAmount(launch, ONE_SOL);
+    const k = launch.virtualSolReserves * launch.virtualTokenReserves;
+    const after = (launch.virtualSolReserves + ONE_SOL) * (launch.virtualTokenReserves - tokens);
+    expect(after).toBeGreaterThanOrEqual(k);
+  });
+
+  it("charges at most the SOL that bought the tokens", () => {
+    const tokens = getBuyTokenAmount(launch, ONE_SOL);
+    expect(getBuySolCost(launch, tokens)).toBeLessThanOrEqual(ONE_SOL);
+    expect(getBuySolCost(launch, tokens)).toBeGreaterThan(ONE_SOL - 10n);
+  });
+
+  it("caps a buy at the curve's real reserves", () => {
+    expect(getBuyTokenAmount(launch, 1_000n * ONE_SOL)).toBe(launch.realTokenReserves);
+  });
+
+  it("takes the fee out of the budget before quoting", () => {
+    const quote = quoteBuy(launch, ONE_SOL, 500);
+    const netSol = (ONE_SOL * 10000n) / 10100n;
+    expect(quote.fee).toBe(ONE_SOL - netSol);
+    expect(quote.tokensOut).toBe(getBuyTokenAmount(launch, netSol));
+    expect(quote.minTokensOut).toBe((quote.tokensOut * 9500n) / 10000n);
+    expect(quote.maxSolCost).toBe((ONE_SOL * 10500n) / 10000n);
+    expect(quote.priceImpactPct).toBeGreaterThan(0);
+  });
+});
+
+describe("sell math", () => {
+  it("returns less SOL than a round trip spent", () => {
+    const bought = quoteBuy(launch, ONE_SOL, 0).tokensOut;
+    const after = curveFromReserves(
+      launch.virtualSolReserves + (ONE_SOL * 10000n) / 10100n,
+      launch.virtualTokenReserves - bought
+    );
+    const sold = quoteSell(after, bought, 0);
+    expect(sold.solOut).toBeLessThan(ONE_SOL);
+    expect(sold.fee).toBe((getSellSolAmount(after, bought) * 100n) / 10000n);
+  });
+
+  it("finds enough tokens to receive a SOL target after the fee", () => {
+    const tokens = getSellTokensForSol(launch, ONE_SOL / 10n);
+    expect(quoteSell(launch, tokens, 0).solOut).toBeGreaterThanOrEqual(ONE_SOL / 10n);
+    expect(quoteSell(launch, tokens - 1_000_000n, 0).solOut).toBeLessThan(ONE_SOL / 10n);
+  });
+
+  it("refuses a SOL target the curve cannot pay", () => {
+    expect(() => getSellTokensForSol(launch, 30n * ONE_SOL)).toThrow("enough SOL");
+  });
+});
+
+describe("prices and progress", () => {
+  it("prices a fresh curve at 30 SOL over 1.073B tokens", () => {
+    expect(spotPriceSol(launch)).toBeCloseTo(30 / 1_073_000_000, 15);
+  });
+
+  it("measures graduation from tokens sold", () => {
+    expect(graduationProgressPct(launch)).toBe(0);
+    const half = curveFromReserves(
+      launch.virtualSolReserves,
+      INITIAL_VIRTUAL_TOKEN_RESERVES - INITIAL_REAL_TOKEN_RESERVES / 2n
+    );
+    expect(graduationProgressPct(half)).toBeCloseTo(50, 6);
+    const done = curveFromReserves(
+      launch.virtualSolReserves,
+      INITIAL_VIRTUAL_TOKEN_RESERVES - INITIAL_REAL_TOKEN_RESERVES
+    );
+    expect(graduationProgressPct(done)).toBe(100);
+  });
+
+  it("sizes the buy that lifts the market cap to a target", () => {
+    const supply = 1_000_000_000_000_000n;
+    expect(solToReachMarketCap(launch, 10, supply)).toBe(0n);
+    const lamports = solToReachMarketCap(launch, 60, supply);
+    const netSol = lamports - (lamports * 100n) / 10100n;
+    const tokens = getBuyTokenAmount(launch, netSol);
+    const after = curveFromReserves(
+      launch.virtualSolReserves + netSol,
+      launch.virtualTokenReserves - tokens
+    );
+    expect(spotPriceSol(after) * 1e9).toBeCloseTo(60, 0);
+  });
+});
+
+describe("unit helpers", () => {
+  it("rounds decimal amounts instead of truncating", () => {
+    expect(toBaseUnits(1.000001, 6)).toBe(1_000_001n);
+  });
+
+  it("applies slippage both ways", () => {
+    expect(applySlippage(10000n, 100, "up")).toBe(10100n);
+    expect(applySlippage(10000n, 100, "down")).toBe(9900n);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AnalysisCache } from "../src/analysis-cache.js";
+import { ClaudeAnalyzer } from "../src/claude-analyzer.js";
+import { config } from "../src/config.js";
+import { UsageTracker } from "../src/usage-tracker.js";
+import { makeToken, tempPath } from "./helpers.js";
+
+const create = vi.hoisted(() => vi.fn());
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+const token = makeToken();
+
+const verdict = {
+  riskScore: 7,
+  sentiment: "bearish",
+  summary: "A fresh launch with no socials.",
+  redFlags: ["No social links"],
+  greenFlags: [],
+  recommendation: "Avoid",
+};
+
+function toolCall(input: unknown) {
+  return {
+    content: [{ type: "tool_use", id: "call-1", name: "record_token_analysis", input }],
+    usage: { input_tokens: 2000, output_tokens: 400 },
+  };
+}
+
+beforeEach(() => {
+  create.mockReset();
+});
+
+afterEach(() => {
+  config.anthropicDailyBudgetUsd = 0;
+});
+
+// Usage is kept out of the data directory and nothing is cached
+function makeAnalyzer(cache: AnalysisCache | null = null): ClaudeAnalyzer {
+  return new ClaudeAnalyzer({ cache, usage: new UsageTracker(tempPath("usage.json")) });
+}
+
+describe("ClaudeAnalyzer.analyzeToken", () => {
+  it("returns the tool input once it validates", async () => {
+    create.mockResolvedValueOnce(toolCall(verdict));
+
+    const analysis = await makeAnalyzer().analyzeToken(token);
+    expect(analysis).toEqual({ token, status: "ok", ...verdict });
+    expect(create.mock.calls[0][0].tool_choice).toEqual({
+      type: "tool",
+      name: "record_token_analysis",
+    });
+  });
+
+  it("hands validation errors back to Claude and retries", async () => {
+    create
+      .mockResolvedValueOnce(toolCall({ ...verdict, riskScore: 11 }))
+      .mockResolvedValueOnce(toolCall(verdict));
+
+    const analysis = await makeAnalyzer().analyzeToken(token);
+    expect(analysis.status).toBe("ok");
+    expect(create).toHaveBeenCalledTimes(2);
+
+    const retry = create.mock.calls[1][0].messages.at(-1);
+    expect(retry.content[0]).toMatchObject({
+      type: "tool_result",
+      tool_use_id: "call-1",
+      is_error: true,
+    });
+    expect(retry.content[0].content).toMatch(/^Invalid analysis: riskScore: /);
+  });
+
+  it("fails once every attempt is invalid", async () => {
+    create.mockResolvedValue(toolCall({ ...verdict, sentiment: "moon" }));
+
+    const analysis = await makeAnalyzer().analyzeToken(token);
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(analysis).toMatchObject({ status: "failed", riskScore: 10 });
+    expect(analysis.error).toMatch(/^Invalid analysis after 3 attempts: sentiment: /);
+  });
+
+  it("retries a response without the tool call", async () => {
+    create
+      .mockResolvedValueOnce({
+        content: [{ type: "text", text: "Looks risky" }],
+        usage: { input_tokens: 1000, output_tokens: 10 },
+      })
+      .mockResolvedValueOnce(toolCall(verdict));
+
+    expect((await makeAnalyzer().analyzeToken(token)).status).toBe("ok");
+  });
+
+  it("does not retry a failed request", async () => {
+    create.mockRejectedValue(new Error("Overloaded"));
+
+    const analysis = await makeAnalyzer().analyzeToken(token);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(analysis).toMatchObject({ status: "failed", error: "Claude request failed: Overloaded" });
+  });
+});
+
+describe("ClaudeAnalyzer usage", () => {
+  it("records the tokens of every call", async () => {
+    create.mockResolvedValueOnce(toolCall(verdict));
+    const analyzer = makeAnalyzer();
+
+    await analyzer.analyzeToken(token);
+    expect(analyzer.usage.sessionTotals).toEqual({
+      calls: 1,
+      inputTokens: 2000,
+      outputTokens: 400,
+      costUsd: (2000 * 3 + 400 * 15) / 1_000_000,
+    });
+  });
+
+  it("stops calling Claude once the daily budget is spent", async () => {
+    config.anthropicDailyBudgetUsd = 0.01;
+    create.mockResolvedValue(toolCall(verdict));
+    const analyzer = makeAnalyzer();
+
+    expect((await analyzer.analyzeToken(token)).status).toBe("ok");
+    const analysis = await analyzer.analyzeToken(token);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(analysis.error).toBe("Claude request failed: Daily Claude budget of $0.01 reached");
+  });
+
+  it("serves a repeat analysis from the cache", async () => {
+    create.mockResolvedValue(toolCall(verdict));
+    const analyzer = makeAnalyzer(new AnalysisCache(tempPath("analysis-cache.json")));
+
+    await analyzer.analyzeToken(token);
+    const cached = await analyzer.analyzeToken(token);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(cached).toMatchObject({ status: "ok", riskScore: 7, cachedAt: expect.any(Number) });
+  });
+});
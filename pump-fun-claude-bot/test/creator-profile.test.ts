@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+import { CreatorProfiler, summarizeCreatorHistory } from "../src/creator-profile.js";
+import type { PumpFunAPI } from "../src/pumpfun-api.js";
+import { makeToken } from "./helpers.js";
+
+const creator = "Creator111111111111111111111111111111111111";
+const start = Date.UTC(2026, 2, 1);
+const minutes = (count: number) => count * 60000;
+
+describe("summarizeCreatorHistory", () => {
+  it("summarizes launch pace, outcomes and activity", () => {
+    const profile = summarizeCreatorHistory(creator, [
+      makeToken({ mint: "C", created_timestamp: start + minutes(60), usd_market_cap: 9000 }),
+      makeToken({
+        mint: "A",
+        created_timestamp: start,
+        usd_market_cap: 5000,
+        last_reply: start + minutes(30),
+      }),
+      makeToken({
+        mint: "B",
+        created_timestamp: start + minutes(20),
+        usd_market_cap: 70000,
+        complete: true,
+        last_reply: start + minutes(80),
+      }),
+    ]);
+
+    expect(profile).toEqual({
+      creator,
+      priorLaunches: 3,
+      truncated: false,
+      graduated: 1,
+      medianMarketCapUsd: 9000,
+      bestMarketCapUsd: 70000,
+      // Three launches inside one hour
+      launchesPerDay: 3 * 24,
+      medianMinutesBetweenLaunches: 30,
+      medianActiveMinutes: 30,
+      lastLaunchAt: start + minutes(60),
+    });
+  });
+
+  it("has no rates for a first-time creator", () => {
+    expect(summarizeCreatorHistory(creator, [])).toMatchObject({
+      priorLaunches: 0,
+      medianMarketCapUsd: null,
+      bestMarketCapUsd: null,
+      launchesPerDay: null,
+      lastLaunchAt: null,
+    });
+  });
+});
+
+describe("CreatorProfiler", () => {
+  it("leaves out the token being profiled and caches per creator and mint", async () => {
+    const getTokensByCreator = vi.fn(async () => [
+      makeToken({ mint: "Current" }),
+      makeToken({ mint: "Earlier" }),
+    ]);
+    const profiler = new CreatorProfiler({ getTokensByCreator } as unknown as PumpFunAPI);
+
+    expect((await profiler.getProfile(creator, "Current")).priorLaunches).toBe(1);
+    await profiler.getProfile(creator, "Current");
+    expect(getTokensByCreator).toHaveBeenCalledTimes(1);
+    expect((await profiler.getProfile(creator)).priorLaunches).toBe(2);
+  });
+
+  it("passes a failed lookup on instead of caching an empty history", async () => {
+    const getTokensByCreator = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("HTTP 503"))
+      .mockResolvedValueOnce([makeToken({ mint: "Earlier" })]);
+    const profiler = new CreatorProfiler({ getTokensByCreator } as unknown as PumpFunAPI);
+
+    await expect(profiler.getProfile(creator)).rejects.toThrow("HTTP 503");
+    expect((await profiler.getProfile(creator)).priorLaunches).toBe(1);
+  });
+});
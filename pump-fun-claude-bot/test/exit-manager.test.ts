@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ExitManager } from "../src/exit-manager.js";
+import { PositionLedger } from "../src/position-ledger.js";
+import { appendJsonLine } from "../src/storage.js";
+import type { PumpFunAPI } from "../src/pumpfun-api.js";
+import type { SolanaTrader } from "../src/solana-trader.js";
+import type { ExitRules, ExitTrigger, TokenFeed, TradeEvent, TradeResult } from "../src/types.js";
+import { makeToken, makeTradeEvent, tempPath } from "./helpers.js";
+
+const token = makeToken();
+
+const rules: ExitRules = {
+  stopLossPct: null,
+  takeProfitLadder: [
+    { gainPct: 50, sellPct: 25 },
+    { gainPct: 100, sellPct: 25 },
+  ],
+  trailingStopPct: null,
+  maxHoldMinutes: null,
+};
+
+const managers: ExitManager[] = [];
+
+afterEach(() => {
+  for (const manager of managers.splice(0)) manager.stop();
+  vi.useRealTimers();
+});
+
+function fill(amountIn: number, amountOut: number, signature: string): TradeResult {
+  return { success: true, signature, amountIn, amountOut };
+}
+
+// A trade that moves the spot price to priceSol per token
+function tradeAt(priceSol: number): TradeEvent {
+  return makeTradeEvent({ vSolInBondingCurve: 30, vTokensInBondingCurve: 30 / priceSol });
+}
+
+// A manager restarted over the same files picks up where the last one stopped
+function setup(
+  files: { ledgerPath: string; triggerLogPath: string } = {
+    ledgerPath: tempPath("ledger.json"),
+    triggerLogPath: tempPath("exits.jsonl"),
+  }
+) {
+  const { ledgerPath, triggerLogPath } = files;
+  const ledger = new PositionLedger({ filePath: ledgerPath });
+  const sells: number[] = [];
+  // Errors the next sells fail with, in order
+  const sellErrors: string[] = [];
+  let attempts = 0;
+  const trader = {
+    ledger,
+    getTokenBalance: async () => ledger.getPosition(token.mint)?.tokenAmount ?? 0,
+    sellToken: async (_token: unknown, amount: number): Promise<TradeResult> => {
+      attempts++;
+      const error = sellErrors.shift();
+      if (error) return { success: false, error, amountIn: amount };
+      const result = fill(amount, amount * 0.002, `sell-${sells.length}`);
+      sells.push(amount);
+      ledger.recordTrade("sell", token, result);
+      return result;
+    },
+  } as unknown as SolanaTrader;
+
+  let onTrade: (event: TradeEvent) => void = () => {};
+  const feed = {
+    subscribeToToken: (_mint: string, callback: (event: TradeEvent) => void) => {
+      onTrade = callback;
+      return () => {};
+    },
+  } as unknown as TokenFeed;
+  const api = { getToken: async () => token } as unknown as PumpFunAPI;
+
+  const triggers: ExitTrigger[] = [];
+  const manager = new ExitManager(feed, api, trader, rules, {
+    triggerLogPath,
+    checkIntervalMs: 60000,
+    onTrigger: (trigger) => triggers.push(trigger),
+  });
+  managers.push(manager);
+
+  const trade = async (event: TradeEvent) => {
+    onTrade(event);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  return {
+    ledger,
+    manager,
+    trade,
+    files,
+    triggerLogPath,
+    triggers,
+    sells,
+    sellErrors,
+    attempts: () => attempts,
+  };
+}
+
+describe("ExitManager", () => {
+  it("sells each take-profit step once, sized from the tokens bought", async () => {
+    const { ledger, manager, trade, sells } = setup();
+    ledger.recordTrade("buy", token, fill(1, 1000, "buy"));
+    await manager.track(ledger.getPosition(token.mint)!);
+
+    await trade(tradeAt(0.0016));
+    await trade(tradeAt(0.0017));
+    await trade(tradeAt(0.0021));
+    expect(sells).toEqual([250, 250]);
+  });
+
+  it("keeps ladder progress and sizing across a restart", async () => {
+    const first = setup();
+    first.ledger.recordTrade("buy", token, fill(1, 1000, "buy"));
+    await first.manager.track(first.ledger.getPosition(token.mint)!);
+    await first.trade(tradeAt(0.0016));
+    first.manager.stop();
+
+    const { ledger, manager, trade, sells } = setup(first.files);
+    await manager.track(ledger.getPosition(token.mint)!);
+
+    await trade(tradeAt(0.0016));
+    expect(sells).toEqual([]);
+    await trade(tradeAt(0.0021));
+    expect([...first.sells, ...sells]).toEqual([250, 250]);
+  });
+
+  it("ignores ladder steps logged for an earlier position", async () => {
+    const { ledger, manager, trade, triggerLogPath, sells } = setup();
+    appendJsonLine(triggerLogPath, {
+      mint: token.mint,
+      rule: "take-profit",
+      ladderStep: 50,
+      success: true,
+      timestamp: Date.now() - 60000,
+    });
+    ledger.recordTrade("buy", token, fill(1, 1000, "buy"));
+    await manager.track(ledger.getPosition(token.mint)!);
+
+    await trade(tradeAt(0.0016));
+    expect(sells).toEqual([250]);
+  });
+
+  it("backs off failed sells and reports each failure once", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { ledger, manager, trade, triggers, sells, sellErrors, attempts } = setup();
+    ledger.recordTrade("buy", token, fill(1, 1000, "buy"));
+    await manager.track(ledger.getPosition(token.mint)!);
+    sellErrors.push("Slippage tolerance exceeded", "Slippage tolerance exceeded");
+
+    await trade(tradeAt(0.0016));
+    await trade(tradeAt(0.0016));
+    expect(attempts()).toBe(1);
+
+    vi.advanceTimersByTime(5000);
+    await trade(tradeAt(0.0016));
+    await trade(tradeAt(0.0016));
+    expect(attempts()).toBe(2);
+
+    vi.advanceTimersByTime(9999);
+    await trade(tradeAt(0.0016));
+    expect(attempts()).toBe(2);
+    vi.advanceTimersByTime(1);
+    await trade(tradeAt(0.0016));
+    expect(sells).toEqual([250]);
+
+    expect(triggers.map((t) => [t.success, t.error])).toEqual([
+      [false, "Slippage tolerance exceeded"],
+      [true, undefined],
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocketServer } from "ws";
+import { config } from "../src/config.js";
+import { parseReplaySpeed, readRecording, ReplayFeed } from "../src/feed-replay.js";
+import type { NewTokenEvent, RecordedFeedEvent, TradeEvent } from "../src/types.js";
+import { PumpFunWebSocket } from "../src/websocket-monitor.js";
+import { makeCreateEvent, makeTradeEvent, tempPath } from "./helpers.js";
+
+const liveWsUrl = config.pumpfunWsUrl;
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  config.pumpfunWsUrl = liveWsUrl;
+  vi.restoreAllMocks();
+});
+
+function writeRecording(events: Array<NewTokenEvent | TradeEvent>): string {
+  const filePath = tempPath("feed.jsonl");
+  const records: RecordedFeedEvent[] = events.map((event, i) => ({
+    receivedAt: 1_700_000_000_000 + i * 1000,
+    event,
+  }));
+  fs.writeFileSync(filePath, records.map((record) => JSON.stringify(record)).join("\n"));
+  return filePath;
+}
+
+describe("parseReplaySpeed", () => {
+  it("accepts real, max and multipliers", () => {
+    expect(parseReplaySpeed("real")).toBe("real");
+    expect(parseReplaySpeed("max")).toBe("max");
+    expect(parseReplaySpeed("10x")).toBe(10);
+    expect(parseReplaySpeed("0.5")).toBe(0.5);
+    expect(() => parseReplaySpeed("fast")).toThrow('Invalid replay speed "fast"');
+  });
+});
+
+describe("readRecording", () => {
+  it("reports the line that is not JSON", async () => {
+    const filePath = tempPath("feed.jsonl");
+    fs.writeFileSync(filePath, `${JSON.stringify({ receivedAt: 1, event: makeCreateEvent() })}\n{oops\n`);
+    await expect(readRecording(filePath)).rejects.toThrow(`Invalid JSON on line 2 of ${filePath}`);
+  });
+
+  it("refuses a missing file", async () => {
+    await expect(readRecording(tempPath("missing.jsonl"))).rejects.toThrow("Recording not found");
+  });
+});
+
+describe("ReplayFeed", () => {
+  it("emits launches and the trades of subscribed mints in recorded order", async () => {
+    const first = makeCreateEvent({ mint: "MintA", name: "A" });
+    const second = makeCreateEvent({ mint: "MintB", name: "B" });
+    const filePath = writeRecording([
+      first,
+      makeTradeEvent({ mint: "MintA", signature: "a1" }),
+      makeTradeEvent({ mint: "MintB", signature: "b1" }),
+      second,
+      makeTradeEvent({ mint: "MintB", signature: "b2" }),
+    ]);
+
+    const feed = new ReplayFeed(filePath, "max");
+    const seen: string[] = [];
+    feed.subscribeToNewTokens((event) => {
+      seen.push(`create ${event.mint}`);
+      feed.subscribeToToken(event.mint, (trade) => seen.push(`trade ${trade.signature}`));
+    });
+    await feed.connect();
+
+    // b1 comes before MintB launches, so nothing was subscribed to it yet
+    expect(await feed.start()).toBe(4);
+    expect(seen).toEqual(["create MintA", "trade a1", "create MintB", "trade b2"]);
+  });
+
+  it("stops between events once disconnected", async () => {
+    const filePath = writeRecording([
+      makeCreateEvent({ mint: "MintA" }),
+      makeCreateEvent({ mint: "MintB" }),
+    ]);
+    const feed = new ReplayFeed(filePath, "max");
+    feed.subscribeToNewTokens(() => feed.disconnect());
+
+    expect(await feed.start()).toBe(1);
+  });
+});
+
+describe("recording", () => {
+  it("writes the live feed in a form ReplayFeed plays back", async () => {
+    const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as { port: number };
+    config.pumpfunWsUrl = `ws://127.0.0.1:${port}`;
+
+    const launch = makeCreateEvent();
+    const trade = makeTradeEvent();
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        if (JSON.parse(data.toString()).method !== "subscribeNewToken") return;
+        socket.send(JSON.stringify({ message: "Successfully subscribed to token creation events." }));
+        socket.send(JSON.stringify(launch));
+        socket.send(JSON.stringify(trade));
+      });
+    });
+
+    const filePath = tempPath("recordings/feed.jsonl");
+    const live = new PumpFunWebSocket();
+    live.startCapture(filePath);
+    await live.connect();
+    live.subscribeToNewTokens(() => {});
+    await vi.waitFor(async () => expect(await readRecording(filePath)).toHaveLength(2));
+    live.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+
+    const records = await readRecording(filePath);
+    expect(records.map((record) => record.event)).toEqual([launch, trade]);
+
+    const replay = new ReplayFeed(filePath, "max");
+    const launches: NewTokenEvent[] = [];
+    replay.subscribeToNewTokens((event) => launches.push(event));
+    await replay.start();
+    expect(launches).toEqual([launch]);
+  });
+});
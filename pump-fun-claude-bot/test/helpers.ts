@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach } from "vitest";
+import type { NewTokenEvent, PumpFunToken, TradeEvent } from "../src/types.js";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// A fresh directory removed after the test
+export function tempPath(fileName: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pump-bot-test-"));
+  tempDirs.push(dir);
+  return path.join(dir, fileName);
+}
+
+// A curve at launch: 30 SOL and 1.073B tokens of virtual reserves
+export function makeToken(overrides: Partial<PumpFunToken> = {}): PumpFunToken {
+  return {
+    mint: "Mint1111111111111111111111111111111111111111",
+    name: "Test Dog",
+    symbol: "DOG",
+    description: "A community coin",
+    image_uri: "",
+    metadata_uri: "",
+    twitter: null,
+    telegram: null,
+    website: null,
+    bonding_curve: "Curve111111111111111111111111111111111111111",
+    associated_bonding_curve: "",
+    creator: "Creator111111111111111111111111111111111111",
+    created_timestamp: Date.now(),
+    raydium_pool: null,
+    complete: false,
+    virtual_sol_reserves: 30e9,
+    virtual_token_reserves: 1_073_000_000e6,
+    total_supply: 1e15,
+    market_cap: 27.96,
+    usd_market_cap: 0,
+    reply_count: 0,
+    last_reply: null,
+    king_of_the_hill_timestamp: null,
+    is_currently_live: false,
+    ...overrides,
+  };
+}
+
+export function makeCreateEvent(overrides: Partial<NewTokenEvent> = {}): NewTokenEvent {
+  return {
+    signature: "create-sig",
+    mint: "Mint1111111111111111111111111111111111111111",
+    traderPublicKey: "Creator111111111111111111111111111111111111",
+    txType: "create",
+    initialBuy: 34_612_903,
+    solAmount: 1,
+    bondingCurveKey: "Curve111111111111111111111111111111111111111",
+    vTokensInBondingCurve: 1_073_000_000,
+    vSolInBondingCurve: 30,
+    marketCapSol: 27.96,
+    name: "Test Dog",
+    symbol: "DOG",
+    uri: "",
+    ...overrides,
+  };
+}
+
+export function makeTradeEvent(overrides: Partial<TradeEvent> = {}): TradeEvent {
+  return {
+    signature: "trade-sig",
+    mint: "Mint1111111111111111111111111111111111111111",
+    traderPublicKey: "Trader11111111111111111111111111111111111111",
+    txType: "buy",
+    tokenAmount: 1_000_000,
+    solAmount: 0.03,
+    bondingCurveKey: "Curve111111111111111111111111111111111111111",
+    vTokensInBondingCurve: 1_073_000_000,
+    vSolInBondingCurve: 30,
+    marketCapSol: 27.96,
+    ...overrides,
+  };
+}
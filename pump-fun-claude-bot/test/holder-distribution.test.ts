@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { Keypair, PublicKey, type Connection } from "@solana/web3.js";
+import { HolderAnalyzer } from "../src/holder-distribution.js";
+import { makeToken } from "./helpers.js";
+
+const address = () => Keypair.generate().publicKey;
+const curveAccount = address();
+const creator = address();
+const freshWallet = address();
+const creatorAccount = address();
+const freshAccount = address();
+
+const token = makeToken({
+  mint: address().toBase58(),
+  bonding_curve: address().toBase58(),
+  associated_bonding_curve: curveAccount.toBase58(),
+  creator: creator.toBase58(),
+  total_supply: 1_000_000_000e6,
+});
+
+// Largest accounts: the curve holds 80%, the creator 10% and a fresh wallet 5%
+function fakeConnection(creatorBalance: number | null) {
+  const owners = new Map([
+    [creatorAccount.toBase58(), creator],
+    [freshAccount.toBase58(), freshWallet],
+  ]);
+  return {
+    getTokenLargestAccounts: async () => ({
+      value: [
+        { address: curveAccount, amount: String(800_000_000e6) },
+        { address: creatorAccount, amount: String(100_000_000e6) },
+        { address: freshAccount, amount: String(50_000_000e6) },
+        { address: address(), amount: "0" },
+      ],
+    }),
+    getMultipleParsedAccounts: async (accounts: PublicKey[]) => ({
+      value: accounts.map((account) => ({
+        data: { parsed: { info: { owner: owners.get(account.toBase58())?.toBase58() } } },
+      })),
+    }),
+    getSignaturesForAddress: async (owner: PublicKey) =>
+      new Array(owner.equals(freshWallet) ? 2 : 11).fill({}),
+    getTokenAccountBalance: async () => {
+      if (creatorBalance === null) throw new Error("could not find account");
+      return { value: { amount: String(creatorBalance) } };
+    },
+  } as unknown as Connection;
+}
+
+describe("HolderAnalyzer.getDistribution", () => {
+  it("splits supply between the curve, top holders and the creator", async () => {
+    const analyzer = new HolderAnalyzer(fakeConnection(100_000_000e6));
+    const distribution = await analyzer.getDistribution(token);
+
+    expect(distribution).toMatchObject({
+      mint: token.mint,
+      bondingCurvePct: 80,
+      top10Pct: 15,
+      creatorPct: 10,
+      freshWallets: 1,
+    });
+    expect(distribution.topHolders).toEqual([
+      {
+        owner: creator.toBase58(),
+        tokenAccount: creatorAccount.toBase58(),
+        amount: 100_000_000,
+        pct: 10,
+        freshWallet: false,
+        isCreator: true,
+      },
+      {
+        owner: freshWallet.toBase58(),
+        tokenAccount: freshAccount.toBase58(),
+        amount: 50_000_000,
+        pct: 5,
+        freshWallet: true,
+        isCreator: false,
+      },
+    ]);
+  });
+
+  it("counts a creator without a token account as holding nothing", async () => {
+    const analyzer = new HolderAnalyzer(fakeConnection(null));
+
+    expect((await analyzer.getDistribution(token)).creatorPct).toBe(0);
+  });
+});
@@ -0,0 +1,25 @@
+import * as fs from "fs";
+import { describe, expect, it } from "vitest";
+import { Keystore } from "../src/keystore.js";
+import { tempPath } from "./helpers.js";
+
+describe("Keystore", () => {
+  it("unlocks a wallet with its password only", () => {
+    const keystore = new Keystore(tempPath("keystore.json"));
+    const keypair = keystore.create("main", "correct horse");
+    expect(keystore.unlock("main", "correct horse").publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(() => keystore.unlock("main", "wrong")).toThrow();
+  });
+
+  it("keeps the env name for SOLANA_PRIVATE_KEY", () => {
+    const keystore = new Keystore(tempPath("keystore.json"));
+    expect(() => keystore.create("env", "correct horse")).toThrow("reserved");
+  });
+
+  it("writes the file owner-only, even over a stale world-readable tmp file", () => {
+    const filePath = tempPath("keystore.json");
+    fs.writeFileSync(`${filePath}.tmp`, "{}", { mode: 0o644 });
+    new Keystore(filePath).create("main", "correct horse");
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { PaperWallet } from "../src/paper-wallet.js";
+import { makeToken, tempPath } from "./helpers.js";
+
+const { mint } = makeToken();
+
+describe("PaperWallet", () => {
+  it("moves SOL and tokens on buys and sells", () => {
+    const wallet = new PaperWallet(tempPath("paper-wallet.json"));
+    wallet.reset(10);
+    wallet.applyBuy(mint, 1, 1000);
+    wallet.applySell(mint, 400, 0.5);
+
+    expect(wallet.solBalance).toBeCloseTo(9.5, 12);
+    expect(wallet.getTokenBalance(mint)).toBe(600);
+  });
+
+  it("drops a token once it is sold out", () => {
+    const wallet = new PaperWallet(tempPath("paper-wallet.json"));
+    wallet.reset(10);
+    wallet.applyBuy(mint, 1, 1000);
+    wallet.applySell(mint, 1000, 1.2);
+
+    expect(wallet.getHoldings()).toEqual({});
+  });
+
+  it("persists its state between instances", () => {
+    const filePath = tempPath("paper-wallet.json");
+    const wallet = new PaperWallet(filePath);
+    wallet.reset(5);
+    wallet.applyBuy(mint, 2, 500);
+
+    const reloaded = new PaperWallet(filePath);
+    reloaded.load();
+    expect(reloaded.solBalance).toBe(3);
+    expect(reloaded.getHoldings()).toEqual({ [mint]: 500 });
+  });
+});
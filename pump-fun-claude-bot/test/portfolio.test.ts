@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { curveFromReserves, quoteSell, spotPriceSol } from "../src/bonding-curve.js";
+import { PortfolioTracker } from "../src/portfolio.js";
+import type { BondingCurveState } from "../src/pump-accounts.js";
+import { quotePoolSell, type PumpSwapMarket } from "../src/pump-swap.js";
+import type { PumpFunAPI } from "../src/pumpfun-api.js";
+import type { SolanaTrader } from "../src/solana-trader.js";
+import { makeToken } from "./helpers.js";
+
+const ONE_MILLION_TOKENS = 1_000_000_000_000n;
+const owner = Keypair.generate().publicKey;
+
+// A curve partway to graduation: 45 SOL against 715M tokens
+const liveCurve: BondingCurveState = {
+  virtualSolReserves: 45_000_000_000n,
+  virtualTokenReserves: 715_000_000_000_000n,
+  realTokenReserves: 435_000_000_000_000n,
+  realSolReserves: 15_000_000_000n,
+  tokenTotalSupply: 1_000_000_000_000_000n,
+  complete: false,
+};
+
+// 200M tokens against 85 SOL, roughly a freshly graduated pool
+const market: PumpSwapMarket = {
+  pool: {
+    address: PublicKey.default,
+    baseMint: PublicKey.default,
+    quoteMint: PublicKey.default,
+    poolBaseTokenAccount: PublicKey.default,
+    poolQuoteTokenAccount: PublicKey.default,
+    coinCreator: null,
+  },
+  config: { lpFeeBps: 20n, protocolFeeBps: 5n, coinCreatorFeeBps: 5n, protocolFeeRecipients: [] },
+  reserves: { base: 200_000_000_000_000n, quote: 85_000_000_000n },
+  baseTokenProgram: PublicKey.default,
+};
+
+const tokens = new Map([
+  ["LiveMint", makeToken({ mint: "LiveMint", symbol: "LIVE" })],
+  ["PoolMint", makeToken({ mint: "PoolMint", symbol: "POOL", complete: true })],
+  ["FrozenMint", makeToken({ mint: "FrozenMint", symbol: "ICE" })],
+]);
+
+function tokenAccount(mint: string, amount: bigint, state = "initialized") {
+  return {
+    pubkey: Keypair.generate().publicKey,
+    account: {
+      lamports: 2_039_280,
+      data: {
+        parsed: {
+          info: { mint, state, tokenAmount: { amount: amount.toString(), decimals: 6 } },
+        },
+      },
+    },
+  };
+}
+
+// A null curve cannot be read, so the API's reserves are used
+function setup(curveState: BondingCurveState | null = liveCurve) {
+  const trader = {
+    connection: {
+      getBalance: async () => 2_000_000_000,
+      getParsedTokenAccountsByOwner: async (_owner: PublicKey, { programId }: { programId: PublicKey }) => ({
+        value: programId.equals(TOKEN_PROGRAM_ID)
+          ? [
+              tokenAccount("LiveMint", ONE_MILLION_TOKENS),
+              tokenAccount("PoolMint", ONE_MILLION_TOKENS),
+              tokenAccount("FrozenMint", ONE_MILLION_TOKENS, "frozen"),
+              tokenAccount("UnknownMint", ONE_MILLION_TOKENS),
+              tokenAccount("SoldMint", 0n),
+            ]
+          : [],
+      }),
+    },
+    accounts: {
+      getBondingCurve: async () => {
+        if (!curveState) throw new Error("Bonding curve account not found");
+        return curveState;
+      },
+    },
+    pumpSwap: { loadMarket: async () => market },
+  } as unknown as SolanaTrader;
+  const api = {
+    getToken: async (mint: string) => tokens.get(mint) ?? null,
+    getSolPrice: async () => 150,
+  } as unknown as PumpFunAPI;
+  return new PortfolioTracker(trader, api, owner);
+}
+
+describe("PortfolioTracker.snapshot", () => {
+  it("values each holding at what selling it would return", async () => {
+    const snapshot = await setup().snapshot();
+    const curve = curveFromReserves(liveCurve.virtualSolReserves, liveCurve.virtualTokenReserves);
+    const curveValue = Number(quoteSell(curve, ONE_MILLION_TOKENS, 0).solOut) / 1e9;
+    const poolValue = Number(quotePoolSell(market, ONE_MILLION_TOKENS, 0).solOut) / 1e9;
+
+    expect(snapshot.holdings.map((h) => [h.mint, h.venue, h.status])).toEqual([
+      ["PoolMint", "pool", "ok"],
+      ["LiveMint", "curve", "ok"],
+      ["FrozenMint", null, "unsellable"],
+      ["UnknownMint", null, "unknown"],
+    ]);
+    const [pool, live, frozen, unknown] = snapshot.holdings;
+    expect(pool.valueSol).toBeCloseTo(poolValue, 12);
+    expect(live.valueSol).toBeCloseTo(curveValue, 12);
+    expect(live.priceSol).toBeCloseTo(spotPriceSol(curve), 15);
+    expect(live.valueUsd).toBeCloseTo(curveValue * 150, 9);
+    expect(frozen.note).toBe("token account is frozen");
+    expect(unknown.note).toBe("not a pump.fun token");
+
+    expect(snapshot).toMatchObject({
+      owner: owner.toBase58(),
+      solBalance: 2,
+      solPriceUsd: 150,
+      emptyAccounts: 1,
+    });
+    expect(snapshot.totalSol).toBeCloseTo(2 + poolValue + curveValue, 12);
+  });
+
+  it("flags a curve sold back to its launch reserves as dead", async () => {
+    // makeToken's API reserves are those of a fresh launch
+    const snapshot = await setup(null).snapshot();
+
+    const live = snapshot.holdings.find((h) => h.mint === "LiveMint")!;
+    expect(live).toMatchObject({ venue: "curve", status: "dead" });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Connection } from "@solana/web3.js";
+import { PositionLedger } from "../src/position-ledger.js";
+import { PumpSwap, type PumpSwapMarket } from "../src/pump-swap.js";
+import type { PumpFunAPI } from "../src/pumpfun-api.js";
+import type { TradeResult } from "../src/types.js";
+import { makeToken, tempPath } from "./helpers.js";
+
+const token = makeToken();
+
+function fill(amountIn: number, amountOut: number, signature = "sig"): TradeResult {
+  return { success: true, signature, amountIn, amountOut };
+}
+
+describe("PositionLedger", () => {
+  it("averages the cost of several buys", () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    ledger.recordTrade("buy", token, fill(1, 1000, "a"));
+    ledger.recordTrade("buy", token, fill(2, 1000, "b"));
+
+    const position = ledger.getPosition(token.mint)!;
+    expect(position.tokenAmount).toBe(2000);
+    expect(position.costBasisSol).toBe(3);
+    expect(position.averageCostSol).toBeCloseTo(0.0015, 12);
+  });
+
+  it("releases cost at the average price when selling", () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    ledger.recordTrade("buy", token, fill(1, 1000, "a"));
+    ledger.recordTrade("buy", token, fill(2, 1000, "b"));
+    ledger.recordTrade("sell", token, fill(1000, 2, "c"));
+
+    const position = ledger.getPosition(token.mint)!;
+    expect(position.tokenAmount).toBe(1000);
+    expect(position.costBasisSol).toBeCloseTo(1.5, 12);
+    expect(position.realizedPnlSol).toBeCloseTo(0.5, 12);
+    expect(ledger.getRealizedSells()).toEqual([
+      expect.objectContaining({ mint: token.mint, pnlSol: expect.closeTo(0.5, 12) }),
+    ]);
+  });
+
+  it("closes a position sold down to dust", () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    ledger.recordTrade("buy", token, fill(1, 1000, "a"));
+    ledger.recordTrade("sell", token, fill(1000, 0.4, "b"));
+
+    const position = ledger.getPosition(token.mint)!;
+    expect(position.tokenAmount).toBe(0);
+    expect(position.costBasisSol).toBe(0);
+    expect(position.realizedPnlSol).toBeCloseTo(-0.6, 12);
+    expect(ledger.getOpenPositions()).toEqual([]);
+  });
+
+  it("only realizes the tokens it holds, at their share of the proceeds", () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    ledger.recordTrade("buy", token, fill(1, 1000, "a"));
+    ledger.recordTrade("sell", token, fill(2000, 3, "b"));
+
+    const position = ledger.getPosition(token.mint)!;
+    expect(position.realizedPnlSol).toBeCloseTo(0.5, 12);
+    expect(position.totalSoldSol).toBeCloseTo(1.5, 12);
+    expect(ledger.getRealizedSells().map((sell) => sell.pnlSol)).toEqual([
+      expect.closeTo(0.5, 12),
+    ]);
+  });
+
+  it("skips failed trades", () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    expect(ledger.recordTrade("buy", token, { success: false, amountIn: 1 })).toBeNull();
+    expect(ledger.recordTrade("buy", token, { success: true, amountIn: 1 })).toBeNull();
+    expect(ledger.getEntries()).toEqual([]);
+  });
+
+  it("values open positions at the curve's spot price", async () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    ledger.recordTrade("buy", token, fill(0.1, 1_000_000, "a"));
+    const api = { getToken: async () => token } as unknown as PumpFunAPI;
+    const pumpSwap = new PumpSwap({} as Connection);
+
+    const [valuation] = await ledger.valuePositions(api, pumpSwap);
+    expect(valuation.priceSol).toBeCloseTo(30 / 1_073_000_000, 15);
+    expect(valuation.marketValueSol).toBeCloseTo((30 / 1_073_000_000) * 1_000_000, 12);
+    expect(valuation.unrealizedPnlSol).toBeCloseTo(valuation.marketValueSol! - 0.1, 12);
+  });
+
+  it("values graduated positions at the pool price", async () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    ledger.recordTrade("buy", token, fill(0.1, 1_000_000, "a"));
+    const graduated = { ...token, complete: true };
+    const api = { getToken: async () => graduated } as unknown as PumpFunAPI;
+    const pumpSwap = new PumpSwap({} as Connection);
+    // 100 SOL against 200M tokens: 5e-7 SOL per token
+    vi.spyOn(pumpSwap, "loadMarket").mockResolvedValue({
+      reserves: { base: 200_000_000_000_000n, quote: 100_000_000_000n },
+    } as PumpSwapMarket);
+
+    const [valuation] = await ledger.valuePositions(api, pumpSwap);
+    expect(valuation.priceSol).toBeCloseTo(5e-7, 15);
+    expect(valuation.marketValueSol).toBeCloseTo(0.5, 12);
+  });
+
+  it("leaves a position unpriced when its pool cannot be loaded", async () => {
+    const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+    ledger.recordTrade("buy", token, fill(0.1, 1_000_000, "a"));
+    const api = { getToken: async () => ({ ...token, complete: true }) } as unknown as PumpFunAPI;
+    const pumpSwap = new PumpSwap({} as Connection);
+    vi.spyOn(pumpSwap, "loadMarket").mockRejectedValue(new Error("No PumpSwap pool found"));
+
+    const [valuation] = await ledger.valuePositions(api, pumpSwap);
+    expect(valuation).toMatchObject({ priceSol: null, unrealizedPnlSol: null });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { ComputeBudgetProgram } from "@solana/web3.js";
+import { describeTransactionError } from "../src/program-errors.js";
+import { PUMP_FUN_PROGRAM_ID } from "../src/pump-accounts.js";
+import { PUMP_SWAP_PROGRAM_ID } from "../src/pump-swap.js";
+
+const programIds = [ComputeBudgetProgram.programId, PUMP_FUN_PROGRAM_ID, PUMP_SWAP_PROGRAM_ID];
+
+describe("describeTransactionError", () => {
+  it("resolves custom codes against the program that raised them", () => {
+    expect(describeTransactionError({ InstructionError: [1, { Custom: 6002 }] }, programIds)).toBe(
+      "Slippage exceeded: buying these tokens needs more SOL than the max cost allows (pump.fun instruction 1, code 6002)"
+    );
+    expect(describeTransactionError({ InstructionError: [2, { Custom: 6004 }] }, programIds)).toBe(
+      "Slippage exceeded: the swap falls outside the max cost or minimum out (PumpSwap instruction 2, code 6004)"
+    );
+    expect(describeTransactionError({ InstructionError: [2, { Custom: 6016 }] }, programIds)).toMatch(
+      /^Insufficient liquidity/
+    );
+    expect(describeTransactionError({ InstructionError: [2, { Custom: 7000 }] }, programIds)).toBe(
+      "Custom program error 7000 in PumpSwap instruction 2"
+    );
+  });
+
+  it("explains top-level transaction errors", () => {
+    expect(describeTransactionError("InsufficientFundsForFee", programIds)).toBe(
+      "Not enough SOL to pay the transaction fee"
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { PublicKey } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import {
+  poolSpotPriceSol,
+  poolTokensForSol,
+  quotePoolBuy,
+  quotePoolSell,
+  type PumpSwapMarket,
+} from "../src/pump-swap.js";
+
+const ONE_SOL = 1_000_000_000n;
+
+function makeMarket(base: bigint, quote: bigint): PumpSwapMarket {
+  return {
+    pool: {
+      address: PublicKey.default,
+      baseMint: PublicKey.default,
+      quoteMint: PublicKey.default,
+      poolBaseTokenAccount: PublicKey.default,
+      poolQuoteTokenAccount: PublicKey.default,
+      coinCreator: null,
+    },
+    config: {
+      lpFeeBps: 20n,
+      protocolFeeBps: 5n,
+      coinCreatorFeeBps: 5n,
+      protocolFeeRecipients: [],
+    },
+    reserves: { base, quote },
+    baseTokenProgram: PublicKey.default,
+  };
+}
+
+// 200M tokens against 85 SOL, roughly a freshly graduated pool
+const market = makeMarket(200_000_000_000_000n, 85n * ONE_SOL);
+
+function fees(amount: bigint): bigint {
+  return [20n, 5n, 5n].reduce((sum, bps) => sum + (amount * bps + 9999n) / 10000n, 0n);
+}
+
+describe("quotePoolBuy", () => {
+  it("keeps the swap plus every rounded-up fee within the budget", () => {
+    for (const solIn of [1n, 999n, ONE_SOL, 3n * ONE_SOL + 7n]) {
+      const quote = quotePoolBuy(market, solIn, 100);
+      const netSol = solIn - quote.fee;
+      expect(netSol + fees(netSol)).toBeLessThanOrEqual(solIn);
+    }
+  });
+
+  it("quotes tokens from the constant product", () => {
+    const quote = quotePoolBuy(market, ONE_SOL, 100);
+    const netSol = ONE_SOL - quote.fee;
+    const { base, quote: solReserves } = market.reserves;
+    expect(quote.tokensOut).toBe((base * netSol) / (solReserves + netSol));
+    expect(quote.minTokensOut).toBe((quote.tokensOut * 9900n) / 10000n);
+  });
+
+  it("quotes nothing for nothing", () => {
+    expect(quotePoolBuy(market, 0n, 100).tokensOut).toBe(0n);
+  });
+});
+
+describe("poolTokensForSol", () => {
+  it("sells just enough tokens to net the SOL target", () => {
+    const target = ONE_SOL / 2n;
+    const tokens = poolTokensForSol(market, target);
+    expect(quotePoolSell(market, tokens, 0).solOut).toBeGreaterThanOrEqual(target);
+    expect(quotePoolSell(market, tokens - 1_000n, 0).solOut).toBeLessThan(target);
+  });
+
+  it("refuses a target the pool cannot pay", () => {
+    expect(() => poolTokensForSol(market, 85n * ONE_SOL)).toThrow("enough SOL");
+  });
+
+  it("needs no tokens for a zero target", () => {
+    expect(poolTokensForSol(market, 0n)).toBe(0n);
+  });
+});
+
+describe("pool pricing", () => {
+  it("prices SOL per whole token", () => {
+    expect(poolSpotPriceSol(market.reserves)).toBeCloseTo(85 / 200_000_000, 15);
+    expect(poolSpotPriceSol({ base: 0n, quote: ONE_SOL })).toBe(0);
+  });
+
+  it("returns no SOL when fees exceed a dust sale", () => {
+    expect(quotePoolSell(market, 1n, 0).solOut).toBe(0n);
+  });
+});
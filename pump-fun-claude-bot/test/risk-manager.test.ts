@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { PositionLedger } from "../src/position-ledger.js";
+import { RiskManager } from "../src/risk-manager.js";
+import type { RiskLimits, TradeResult } from "../src/types.js";
+import { makeToken, tempPath } from "./helpers.js";
+
+const noLimits: RiskLimits = {
+  maxOrderSol: 1,
+  dailyLossLimitSol: null,
+  maxMintExposureSol: null,
+  maxTotalExposureSol: null,
+  maxOpenPositions: null,
+  minSolReserve: 0,
+  maxCreatorExposureSol: null,
+  maxPositionsPerCreator: null,
+  lossCooldownMinutes: null,
+};
+
+function setup(limits: Partial<RiskLimits> = {}) {
+  const ledger = new PositionLedger({ filePath: tempPath("ledger.json") });
+  const risk = new RiskManager(ledger, {
+    limits: { ...noLimits, ...limits },
+    killSwitchPath: tempPath("kill-switch.json"),
+  });
+  return { ledger, risk };
+}
+
+function fill(amountIn: number, amountOut: number, signature: string): TradeResult {
+  return { success: true, signature, amountIn, amountOut };
+}
+
+const token = makeToken();
+
+describe("RiskManager.checkBuy", () => {
+  it("allows a buy within every limit", () => {
+    expect(setup().risk.checkBuy(token, 0.5, 10)).toBeNull();
+  });
+
+  it("rejects zero, negative and non-numeric amounts before any limit", () => {
+    const { risk } = setup();
+    risk.engageKillSwitch("testing");
+    for (const amount of [0, -1, NaN, Infinity]) {
+      expect(risk.checkBuy(token, amount, 10)?.rule).toBe("invalid-amount");
+    }
+  });
+
+  it("rejects orders above the max order size", () => {
+    expect(setup().risk.checkBuy(token, 1.5, 10)?.rule).toBe("max-order");
+  });
+
+  it("rejects every buy while the kill switch is engaged", () => {
+    const { risk } = setup();
+    risk.engageKillSwitch("testing");
+    expect(risk.checkBuy(token, 0.1, 10)).toMatchObject({
+      rule: "kill-switch",
+      message: "Kill switch engaged: testing",
+    });
+    expect(risk.releaseKillSwitch()).toBe(true);
+    expect(risk.checkBuy(token, 0.1, 10)).toBeNull();
+  });
+
+  it("stops buying once the daily loss limit is reached", () => {
+    const { ledger, risk } = setup({ dailyLossLimitSol: 0.5 });
+    ledger.recordTrade("buy", token, fill(1, 1000, "a"));
+    ledger.recordTrade("sell", token, fill(1000, 0.4, "b"));
+    expect(risk.checkBuy(token, 0.1, 10)).toMatchObject({ rule: "daily-loss", current: 0.6 });
+  });
+
+  it("cools down after a losing exit", () => {
+    const { ledger, risk } = setup({ lossCooldownMinutes: 15 });
+    ledger.recordTrade("buy", token, fill(1, 1000, "a"));
+    ledger.recordTrade("sell", token, fill(1000, 0.9, "b"));
+    expect(risk.checkBuy(token, 0.1, 10)?.rule).toBe("loss-cooldown");
+  });
+
+  it("caps exposure per mint, including buys still in flight", () => {
+    const { ledger, risk } = setup({ maxMintExposureSol: 1 });
+    ledger.recordTrade("buy", token, fill(0.6, 1000, "a"));
+    expect(risk.checkBuy(token, 0.3, 10)).toBeNull();
+    const release = risk.hold(token, 0.3);
+    expect(risk.checkBuy(token, 0.3, 10)?.rule).toBe("mint-exposure");
+    release();
+    expect(risk.checkBuy(token, 0.3, 10)).toBeNull();
+  });
+
+  it("caps total exposure and open positions", () => {
+    const { ledger, risk } = setup({ maxTotalExposureSol: 1, maxOpenPositions: 1 });
+    ledger.recordTrade("buy", token, fill(0.8, 1000, "a"));
+    const other = makeToken({ mint: "Other", creator: "OtherCreator" });
+    expect(risk.checkBuy(other, 0.3, 10)?.rule).toBe("total-exposure");
+    expect(risk.checkBuy(other, 0.1, 10)?.rule).toBe("open-positions");
+    // Adding to a position already held does not open a new one
+    expect(risk.checkBuy(token, 0.1, 10)).toBeNull();
+  });
+
+  it("limits exposure to one creator", () => {
+    const { ledger, risk } = setup({ maxCreatorExposureSol: 0.5, maxPositionsPerCreator: 1 });
+    ledger.recordTrade("buy", token, fill(0.4, 1000, "a"));
+    const sibling = makeToken({ mint: "Sibling" });
+    expect(risk.checkBuy(sibling, 0.2, 10)?.rule).toBe("creator-exposure");
+    expect(risk.checkBuy(sibling, 0.05, 10)?.rule).toBe("creator-positions");
+  });
+
+  it("keeps the SOL reserve, and skips the check without a balance", () => {
+    const { risk } = setup({ minSolReserve: 0.1 });
+    expect(risk.checkBuy(token, 0.5, 0.55)?.rule).toBe("sol-reserve");
+    expect(risk.checkBuy(token, 0.5, null)).toBeNull();
+  });
+});
+
+describe("RiskManager.getStatus", () => {
+  it("reports realized losses and open exposure", () => {
+    const { ledger, risk } = setup();
+    ledger.recordTrade("buy", token, fill(1, 1000, "a"));
+    ledger.recordTrade("sell", token, fill(500, 0.2, "b"));
+    const status = risk.getStatus();
+    expect(status.realizedTodaySol).toBeCloseTo(-0.3, 12);
+    expect(status.openPositions).toBe(1);
+    expect(status.totalExposureSol).toBeCloseTo(0.5, 12);
+    expect(status.killSwitch).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseBuyAmount, parseSellAmount } from "../src/solana-trader.js";
+
+describe("parseBuyAmount", () => {
+  it("accepts positive SOL amounts", () => {
+    expect(parseBuyAmount("0.1")).toBe(0.1);
+    expect(parseBuyAmount(" .5 ")).toBe(0.5);
+  });
+
+  it("rejects zero, negative and malformed amounts", () => {
+    for (const input of ["0", "-1", "abc", "1e3", "", "NaN", "0.1sol"]) {
+      expect(() => parseBuyAmount(input)).toThrow(`Invalid buy amount "${input}"`);
+    }
+  });
+});
+
+describe("parseSellAmount", () => {
+  it("reads token amounts, percentages, all and SOL targets", () => {
+    expect(parseSellAmount("1000")).toEqual({ kind: "tokens", tokens: 1000 });
+    expect(parseSellAmount("50%")).toEqual({ kind: "percent", percent: 50 });
+    expect(parseSellAmount("ALL")).toEqual({ kind: "all" });
+    expect(parseSellAmount("0.5sol")).toEqual({ kind: "sol", sol: 0.5 });
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseSellAmount("150%")).toThrow("Cannot sell more than 100% of a balance");
+    expect(() => parseSellAmount("-5")).toThrow('Invalid sell amount "-5"');
+  });
+});
@@ -0,0 +1,17 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { config } from "../src/config.js";
+import { walletDataPath } from "../src/storage.js";
+
+describe("walletDataPath", () => {
+  it("names a file per wallet the way the ledger is named", () => {
+    const inDataDir = (fileName: string) => path.resolve(config.dataDir, fileName);
+
+    expect(walletDataPath("exits.jsonl", { paper: true })).toBe(inDataDir("exits-paper.jsonl"));
+    expect(walletDataPath("exits.jsonl", { wallet: "main" })).toBe(inDataDir("exits-main.jsonl"));
+    expect(walletDataPath("exits.jsonl", { wallet: null })).toBe(inDataDir("exits.jsonl"));
+    expect(walletDataPath("ledger.json", { paper: true, wallet: "main" })).toBe(
+      inDataDir("ledger-paper.json")
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Keypair, type Connection, type PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { PositionLedger } from "../src/position-ledger.js";
+import { SolanaTrader } from "../src/solana-trader.js";
+import { getWalletTokenAccounts, isReclaimable } from "../src/token-accounts.js";
+import { TransactionSender, type SendResult } from "../src/transaction-sender.js";
+import { tempPath } from "./helpers.js";
+
+const RENT_LAMPORTS = 2_039_280;
+
+interface FakeAccount {
+  mint?: string;
+  amount?: string;
+  state?: string;
+  token2022?: boolean;
+  withheldAmount?: number;
+}
+
+// getParsedTokenAccountsByOwner as the RPC answers it, per token program
+function parsedAccounts(accounts: FakeAccount[]) {
+  return async (_owner: PublicKey, { programId }: { programId: PublicKey }) => ({
+    value: accounts
+      .filter((account) => (account.token2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID).equals(programId))
+      .map((account) => ({
+        pubkey: Keypair.generate().publicKey,
+        account: {
+          lamports: RENT_LAMPORTS,
+          data: {
+            parsed: {
+              info: {
+                mint: account.mint ?? Keypair.generate().publicKey.toBase58(),
+                state: account.state ?? "initialized",
+                tokenAmount: { amount: account.amount ?? "0", decimals: 6 },
+                ...(account.withheldAmount !== undefined && {
+                  extensions: [
+                    {
+                      extension: "transferFeeAmount",
+                      state: { withheldAmount: account.withheldAmount },
+                    },
+                  ],
+                }),
+              },
+            },
+          },
+        },
+      })),
+  });
+}
+
+function sent(overrides: Partial<SendResult>): SendResult {
+  return {
+    success: true,
+    timing: {
+      buildMs: 0,
+      totalMs: 0,
+      attempts: 1,
+      rebroadcasts: 0,
+      computeUnitLimit: 0,
+      priorityFeeMicroLamports: 0,
+    },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("getWalletTokenAccounts", () => {
+  it("lists SPL Token and Token-2022 accounts with their program", async () => {
+    const connection = {
+      getParsedTokenAccountsByOwner: parsedAccounts([
+        { amount: "1500000" },
+        { amount: "0", token2022: true },
+      ]),
+    } as unknown as Connection;
+
+    const accounts = await getWalletTokenAccounts(connection, Keypair.generate().publicKey);
+    expect(accounts.map((account) => [account.programId, account.amount])).toEqual([
+      [TOKEN_PROGRAM_ID, 1_500_000n],
+      [TOKEN_2022_PROGRAM_ID, 0n],
+    ]);
+    expect(accounts[0]).toMatchObject({ decimals: 6, lamports: RENT_LAMPORTS });
+  });
+});
+
+describe("isReclaimable", () => {
+  it("only takes empty accounts that can be closed", async () => {
+    const connection = {
+      getParsedTokenAccountsByOwner: parsedAccounts([
+        { amount: "0" },
+        { amount: "1" },
+        { amount: "0", mint: NATIVE_MINT.toBase58() },
+        { amount: "0", state: "frozen" },
+        { amount: "0", token2022: true, withheldAmount: 0 },
+        { amount: "0", token2022: true, withheldAmount: 250 },
+      ]),
+    } as unknown as Connection;
+
+    const accounts = await getWalletTokenAccounts(connection, Keypair.generate().publicKey);
+    expect(accounts[5].withheldAmount).toBe(250n);
+    expect(accounts.map(isReclaimable)).toEqual([true, false, false, false, true, false]);
+  });
+});
+
+describe("SolanaTrader.reclaimRent", () => {
+  function setup(accounts: FakeAccount[]) {
+    const trader = new SolanaTrader({ ledger: new PositionLedger({ filePath: tempPath("ledger.json") }) });
+    trader.initializeWallet(Keypair.generate());
+    vi.spyOn(trader.connection, "getParsedTokenAccountsByOwner").mockImplementation(
+      parsedAccounts(accounts) as unknown as Connection["getParsedTokenAccountsByOwner"]
+    );
+    const send = vi.spyOn(TransactionSender.prototype, "send");
+    return { trader, send };
+  }
+
+  it("closes empty accounts in batches and totals the rent", async () => {
+    const { trader, send } = setup([
+      ...new Array(12).fill({ amount: "0" }),
+      { amount: "5" },
+    ]);
+    send
+      .mockResolvedValueOnce(sent({ signature: "sig-1" }))
+      .mockResolvedValueOnce(sent({ signature: "sig-2" }));
+
+    const result = await trader.reclaimRent();
+    expect(send.mock.calls.map(([instructions]) => instructions.length)).toEqual([10, 2]);
+    expect(result).toEqual({
+      emptyAccounts: 12,
+      closed: 12,
+      rentSol: expect.closeTo((12 * RENT_LAMPORTS) / 1e9, 12),
+      signatures: ["sig-1", "sig-2"],
+      errors: [],
+      dryRun: undefined,
+    });
+  });
+
+  it("keeps going after a failed batch", async () => {
+    const { trader, send } = setup(new Array(11).fill({ amount: "0" }));
+    send
+      .mockResolvedValueOnce(sent({ success: false, error: "Simulation failed" }))
+      .mockResolvedValueOnce(sent({ signature: "sig-2" }));
+
+    const result = await trader.reclaimRent();
+    expect(result).toMatchObject({ closed: 1, errors: ["Simulation failed"], signatures: ["sig-2"] });
+  });
+
+  it("records a batch that throws and keeps going", async () => {
+    const { trader, send } = setup(new Array(11).fill({ amount: "0" }));
+    send
+      .mockRejectedValueOnce(new Error("failed to get recent blockhash"))
+      .mockResolvedValueOnce(sent({ signature: "sig-2" }));
+
+    const result = await trader.reclaimRent();
+    expect(result).toMatchObject({
+      closed: 1,
+      errors: ["failed to get recent blockhash"],
+      signatures: ["sig-2"],
+    });
+  });
+
+  it("refuses paper wallets", async () => {
+    const trader = new SolanaTrader({
+      paper: true,
+      ledger: new PositionLedger({ filePath: tempPath("ledger.json") }),
+    });
+
+    await expect(trader.reclaimRent()).rejects.toThrow("Paper wallets have no token accounts");
+  });
+});
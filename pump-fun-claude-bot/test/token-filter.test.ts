@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import { describe, expect, it } from "vitest";
+import { checkTokenFilter, filterNeedsToken, loadTokenFilter } from "../src/token-filter.js";
+import type { TokenFilterRule } from "../src/types.js";
+import { makeCreateEvent, makeToken, tempPath } from "./helpers.js";
+
+const event = makeCreateEvent();
+const token = makeToken({ twitter: "https://x.com/dog" });
+
+function check(rule: TokenFilterRule, overrides = {}, withToken = true) {
+  return checkTokenFilter(rule, {
+    event: { ...event, ...overrides },
+    token: withToken ? token : null,
+  });
+}
+
+describe("checkTokenFilter", () => {
+  it("matches names and symbols case-insensitively", () => {
+    expect(check({ symbol: { exclude: ["scam"] } }, { symbol: "SCAMDOG" })).toBe(
+      "symbol matches excluded /scam/"
+    );
+    expect(check({ name: { include: ["^test"] } })).toBeNull();
+    expect(check({ name: { include: ["cat"] } })).toBe("name matches none of /cat/");
+  });
+
+  it("checks ranges on the launch event", () => {
+    expect(check({ initialBuySol: { min: 0.5, max: 5 } })).toBeNull();
+    expect(check({ initialBuySol: { max: 5 } }, { solAmount: 9 })).toBe(
+      "initial buy 9.00 SOL above max 5"
+    );
+    // initialBuy is the creator's tokens, not SOL
+    expect(check({ initialBuySol: { max: 5 } }, { initialBuy: 50_000_000 })).toBeNull();
+    expect(check({ marketCapSol: { min: 30 } })).toBe("market cap 27.96 SOL below min 30");
+  });
+
+  it("applies creator deny before allow", () => {
+    const creator = event.traderPublicKey;
+    expect(check({ creator: { allow: [creator], deny: [creator] } })).toBe(
+      "creator is on the deny list"
+    );
+    expect(check({ creator: { allow: ["someone-else"] } })).toBe(
+      "creator is not on the allow list"
+    );
+  });
+
+  it("needs token details for description, socials and age", () => {
+    expect(check({ socials: ["twitter"] })).toBeNull();
+    expect(check({ socials: ["twitter", "telegram"] })).toBe("no telegram link");
+    expect(check({ description: { include: ["COMMUNITY"] } })).toBeNull();
+    expect(check({ description: { exclude: ["community"] } })).toBe(
+      'description mentions "community"'
+    );
+    expect(check({ ageMinutes: { min: 10 } })).toMatch(/^age 0\.\d\d min below min 10$/);
+    expect(check({ socials: ["twitter"] }, {}, false)).toBe("token details unavailable");
+  });
+
+  it("combines rules with all, any and not", () => {
+    const rule: TokenFilterRule = {
+      symbol: { exclude: ["rug"] },
+      any: [{ creator: { allow: ["trusted"] } }, { initialBuySol: { min: 2 } }],
+    };
+    expect(check(rule)).toBe(
+      "none of: creator is not on the allow list; initial buy 1.00 SOL below min 2"
+    );
+    expect(check(rule, { solAmount: 3 })).toBeNull();
+    expect(check(rule, { solAmount: 3, symbol: "RUG" })).toBe("symbol matches excluded /rug/");
+
+    expect(check({ all: [{ name: { include: ["dog"] } }, { symbol: { include: ["cat"] } }] })).toBe(
+      "symbol matches none of /cat/"
+    );
+    expect(check({ not: { name: { include: ["dog"] } } })).toBe("matches a not rule");
+  });
+});
+
+describe("filterNeedsToken", () => {
+  it("looks through nested rules", () => {
+    expect(filterNeedsToken({ symbol: { include: ["x"] } })).toBe(false);
+    expect(filterNeedsToken({ any: [{ name: {} }, { not: { socials: ["website"] } }] })).toBe(true);
+  });
+});
+
+describe("loadTokenFilter", () => {
+  it("reports every problem with its location", () => {
+    const filePath = tempPath("rules.json");
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({
+        symbl: {},
+        name: { include: ["(unclosed"] },
+        any: [{ initialBuySol: { min: 5, max: 1 } }],
+      })
+    );
+    expect(() => loadTokenFilter(filePath)).toThrow(
+      [
+        `Invalid rules file ${filePath}:`,
+        "  name.include.0: Invalid regular expression",
+        "  any.0.initialBuySol: min is above max",
+        "  (root): Unrecognized key(s) in object: 'symbl'",
+      ].join("\n")
+    );
+  });
+
+  it("fails on a missing file", () => {
+    expect(() => loadTokenFilter(tempPath("missing.json"))).toThrow("Rules file not found");
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Keypair, SystemProgram, type Connection } from "@solana/web3.js";
+import { TransactionSender } from "../src/transaction-sender.js";
+
+const payer = Keypair.generate();
+const transfer = SystemProgram.transfer({
+  fromPubkey: payer.publicKey,
+  toPubkey: Keypair.generate().publicKey,
+  lamports: 1000,
+});
+
+// An RPC where simulation passes and sends succeed; status and block height
+// are up to each test
+function fakeConnection(overrides: Partial<Record<keyof Connection, unknown>>) {
+  let blockHeight = 100;
+  const connection = {
+    getRecentPrioritizationFees: async () => [],
+    getLatestBlockhash: async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: blockHeight + 3,
+    }),
+    getMultipleAccountsInfo: async () => [{ lamports: 1e9 }],
+    simulateTransaction: async () => ({
+      value: { err: null, logs: [], accounts: [{ lamports: 1e9 - 5000 }] },
+    }),
+    sendRawTransaction: vi.fn(async () => "sig"),
+    getSignatureStatuses: async () => ({ value: [null] }),
+    getBlockHeight: async () => blockHeight,
+    ...overrides,
+  };
+  return {
+    connection,
+    advanceBlocks: (count: number) => (blockHeight += count),
+    sender: new TransactionSender(connection as unknown as Connection),
+  };
+}
+
+async function send(sender: TransactionSender) {
+  const result = sender.send([transfer], payer);
+  await vi.advanceTimersByTimeAsync(10 * 60000);
+  return result;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("TransactionSender.send", () => {
+  it("re-signs a transaction that stays pending until its blockhash expires", async () => {
+    const fake = fakeConnection({
+      getSignatureStatuses: async () => ({
+        value: [{ err: null, confirmationStatus: "processed" }],
+      }),
+    });
+    fake.connection.getBlockHeight = async () => fake.advanceBlocks(1);
+
+    const result = await send(fake.sender);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Blockhash expired before confirmation on all 3 attempts");
+    expect(result.timing.attempts).toBe(3);
+    // Pending transactions are not rebroadcast, only sent once per attempt
+    expect(fake.connection.sendRawTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after repeated RPC errors without re-signing", async () => {
+    const { sender } = fakeConnection({
+      getSignatureStatuses: async () => {
+        throw new Error("503 Service Unavailable");
+      },
+    });
+
+    const result = await send(sender);
+    expect(result.success).toBe(false);
+    expect(result.signature).toBeDefined();
+    expect(result.error).toMatch(/^Could not confirm after 5 RPC errors \(503 Service Unavailable\)/);
+    expect(result.timing.attempts).toBe(1);
+  });
+
+  it("stops waiting at the confirmation deadline", async () => {
+    const { sender } = fakeConnection({});
+
+    const result = await send(sender);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Not confirmed within 90s/);
+    expect(result.timing.attempts).toBe(1);
+    expect(result.timing.rebroadcasts).toBeGreaterThan(0);
+  });
+
+  it("returns once the transaction confirms", async () => {
+    const { sender } = fakeConnection({
+      getSignatureStatuses: async () => ({
+        value: [{ err: null, confirmationStatus: "confirmed" }],
+      }),
+      getTransaction: async () => null,
+    });
+
+    const result = await send(sender);
+    expect(result.success).toBe(true);
+    expect(result.balanceChange).toEqual({ solChange: -5000 / 1e9, tokenChange: 0 });
+  });
+});
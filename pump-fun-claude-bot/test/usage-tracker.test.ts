@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { config } from "../src/config.js";
+import { UsageTracker } from "../src/usage-tracker.js";
+import { tempPath } from "./helpers.js";
+
+const call = { input_tokens: 100_000, output_tokens: 10_000 };
+// 0.1M input tokens at $3 and 0.01M output tokens at $15
+const callCostUsd = 0.45;
+
+afterEach(() => {
+  config.anthropicDailyBudgetUsd = 0;
+  vi.useRealTimers();
+});
+
+describe("UsageTracker", () => {
+  it("prices calls and totals them per day and per session", () => {
+    const filePath = tempPath("usage.json");
+    const tracker = new UsageTracker(filePath);
+    tracker.record(call);
+    tracker.record(call);
+
+    expect(tracker.sessionTotals).toEqual({
+      calls: 2,
+      inputTokens: 200_000,
+      outputTokens: 20_000,
+      costUsd: expect.closeTo(2 * callCostUsd, 12),
+    });
+    // A new session starts at zero but sees the day's spend
+    const restarted = new UsageTracker(filePath);
+    expect(restarted.sessionTotals.calls).toBe(0);
+    expect(restarted.getDay().costUsd).toBeCloseTo(2 * callCostUsd, 12);
+  });
+
+  it("starts a new budget each UTC day", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-01T23:00:00Z"));
+    config.anthropicDailyBudgetUsd = 0.4;
+    const tracker = new UsageTracker(tempPath("usage.json"));
+
+    expect(tracker.isOverBudget()).toBe(false);
+    tracker.record(call);
+    expect(tracker.isOverBudget()).toBe(true);
+
+    vi.setSystemTime(new Date("2026-03-02T00:30:00Z"));
+    expect(tracker.isOverBudget()).toBe(false);
+    expect(tracker.getRecentDays(7).map((entry) => entry.day)).toEqual(["2026-03-01"]);
+  });
+
+  it("has no budget when the limit is zero", () => {
+    const tracker = new UsageTracker(tempPath("usage.json"));
+    tracker.record(call);
+
+    expect(tracker.isOverBudget()).toBe(false);
+  });
+});
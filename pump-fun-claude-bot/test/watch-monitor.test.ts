@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WatchMonitor } from "../src/watch-monitor.js";
+import { Watchlist } from "../src/watchlist.js";
+import type { TokenFeed, TradeEvent, WatchAlert, WatchEntry } from "../src/types.js";
+import { makeToken, makeTradeEvent, tempPath } from "./helpers.js";
+
+const creator = "Creator111111111111111111111111111111111111";
+const entry: WatchEntry = {
+  mint: "Mint1111111111111111111111111111111111111111",
+  symbol: "DOG",
+  name: "Test Dog",
+  creator,
+  addedAt: 0,
+};
+
+// A trade that leaves the curve's spot price at priceSol per token, with
+// 1B tokens left so the curve is well short of graduation
+function tradeAt(priceSol: number, overrides: Partial<TradeEvent> = {}): TradeEvent {
+  return makeTradeEvent({
+    vSolInBondingCurve: priceSol * 1_000_000_000,
+    vTokensInBondingCurve: 1_000_000_000,
+    ...overrides,
+  });
+}
+
+function setup() {
+  let onTrade: (event: TradeEvent) => void = () => {};
+  const unsubscribe = vi.fn();
+  const feed = {
+    subscribeToToken: (_mint: string, callback: (event: TradeEvent) => void) => {
+      onTrade = callback;
+      return unsubscribe;
+    },
+  } as unknown as TokenFeed;
+  const alerts: WatchAlert[] = [];
+  const monitor = new WatchMonitor(feed, { onAlert: (alert) => alerts.push(alert) });
+  monitor.watch(entry);
+  return { monitor, alerts, unsubscribe, trade: (event: TradeEvent) => onTrade(event) };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("WatchMonitor", () => {
+  it("alerts on whale buys and creator sells", () => {
+    const { alerts, trade } = setup();
+    trade(tradeAt(3e-8, { solAmount: 4.99 }));
+    trade(tradeAt(3e-8, { solAmount: 5 }));
+    trade(tradeAt(3e-8, { txType: "sell", traderPublicKey: creator, tokenAmount: 1000, solAmount: 0.1 }));
+
+    expect(alerts.map((alert) => [alert.kind, alert.message])).toEqual([
+      ["whaleBuy", "whale buy of 5.00 SOL by Trad…1111"],
+      ["creatorSell", "creator sold 1000 tokens for 0.1000 SOL"],
+    ]);
+  });
+
+  it("raises one alert per price move and measures the next from it", () => {
+    const { alerts, trade } = setup();
+    trade(tradeAt(3e-8));
+    vi.advanceTimersByTime(60000);
+    trade(tradeAt(3.75e-8));
+    trade(tradeAt(3.9e-8));
+    trade(tradeAt(4.8e-8));
+
+    expect(alerts.map((alert) => alert.message)).toEqual([
+      "price up 25.0% in 1m",
+      "price up 28.0% in under a minute",
+    ]);
+  });
+
+  it("compares prices only within the five minute window", () => {
+    const { monitor, alerts, trade } = setup();
+    trade(tradeAt(3e-8));
+    vi.advanceTimersByTime(5 * 60000);
+    trade(tradeAt(6e-8, { solAmount: 0.5 }));
+
+    expect(alerts).toEqual([]);
+    expect(monitor.statuses()).toEqual([
+      {
+        mint: entry.mint,
+        symbol: "DOG",
+        priceSol: expect.closeTo(6e-8, 15),
+        changePct: expect.closeTo(0, 9),
+        volumeSol: 0.5,
+        buys: 1,
+        sells: 0,
+        graduationPct: expect.any(Number),
+        lastTradeAt: Date.now(),
+      },
+    ]);
+  });
+
+  it("alerts once when the curve nears graduation", () => {
+    const { alerts, trade } = setup();
+    // 95% of the curve's 793.1M sellable tokens are gone
+    trade(makeTradeEvent({ vSolInBondingCurve: 100, vTokensInBondingCurve: 1_073_000_000 - 0.95 * 793_100_000 }));
+    trade(makeTradeEvent({ vSolInBondingCurve: 101, vTokensInBondingCurve: 1_073_000_000 - 0.96 * 793_100_000 }));
+
+    expect(alerts.map((alert) => alert.kind)).toEqual(["graduation"]);
+    expect(alerts[0].message).toBe("bonding curve 95.0% of the way to graduation");
+  });
+
+  it("does not alert for a curve already past the threshold when watched", () => {
+    let onTrade: (event: TradeEvent) => void = () => {};
+    const feed = {
+      subscribeToToken: (_mint: string, callback: (event: TradeEvent) => void) => {
+        onTrade = callback;
+        return () => {};
+      },
+    } as unknown as TokenFeed;
+    const alerts: WatchAlert[] = [];
+    const monitor = new WatchMonitor(feed, { onAlert: (alert) => alerts.push(alert) });
+    monitor.watch(entry, makeToken({ complete: true }));
+    onTrade(makeTradeEvent({ vSolInBondingCurve: 100, vTokensInBondingCurve: 1_073_000_000 - 0.95 * 793_100_000 }));
+
+    expect(alerts).toEqual([]);
+  });
+
+  it("unsubscribes from the feed when a mint is unwatched", () => {
+    const { monitor, unsubscribe } = setup();
+    monitor.unwatch(entry.mint);
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    expect(monitor.statuses()).toEqual([]);
+  });
+});
+
+describe("Watchlist", () => {
+  it("adds each mint once and persists removals", () => {
+    const filePath = tempPath("watchlist.json");
+    const watchlist = new Watchlist(filePath);
+
+    expect(watchlist.add(entry)).toBe(true);
+    expect(watchlist.add(entry)).toBe(false);
+    expect(new Watchlist(filePath).list()).toEqual([entry]);
+    expect(watchlist.remove(entry.mint)).toBe(true);
+    expect(watchlist.remove(entry.mint)).toBe(false);
+    expect(new Watchlist(filePath).has(entry.mint)).toBe(false);
+  });
+});
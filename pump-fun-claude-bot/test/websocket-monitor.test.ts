@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import { config } from "../src/config.js";
+import type { ConnectionState, TradeEvent } from "../src/types.js";
+import { PumpFunWebSocket } from "../src/websocket-monitor.js";
+import { makeTradeEvent } from "./helpers.js";
+
+const defaults = { ...config };
+const feeds: PumpFunWebSocket[] = [];
+const servers: WebSocketServer[] = [];
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  // Reconnects wait the minimum 500ms instead of a random backoff
+  vi.spyOn(Math, "random").mockReturnValue(0);
+});
+
+afterEach(async () => {
+  for (const feed of feeds.splice(0)) feed.disconnect();
+  for (const server of servers.splice(0)) {
+    server.clients.forEach((client) => client.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  }
+  Object.assign(config, defaults);
+  vi.restoreAllMocks();
+});
+
+// A PumpPortal stand-in that records what each connection subscribed to
+async function startServer() {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  servers.push(server);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as { port: number };
+  config.pumpfunWsUrl = `ws://127.0.0.1:${port}`;
+
+  const sockets: WebSocket[] = [];
+  const received: Array<Array<Record<string, unknown>>> = [];
+  server.on("connection", (socket) => {
+    const messages: Array<Record<string, unknown>> = [];
+    sockets.push(socket);
+    received.push(messages);
+    socket.on("message", (data) => messages.push(JSON.parse(data.toString())));
+  });
+  return { server, sockets, received };
+}
+
+async function connectFeed() {
+  const feed = new PumpFunWebSocket();
+  feeds.push(feed);
+  const states: ConnectionState[] = [];
+  feed.on("state", (state) => states.push(state));
+  await feed.connect();
+  return { feed, states };
+}
+
+describe("PumpFunWebSocket", () => {
+  it("delivers a mint's trades to every listener and unsubscribes after the last", async () => {
+    const { sockets, received } = await startServer();
+    const { feed } = await connectFeed();
+    const first: TradeEvent[] = [];
+    const second: TradeEvent[] = [];
+    const stopFirst = feed.subscribeToToken("MintA", (trade) => first.push(trade));
+    const stopSecond = feed.subscribeToToken("MintA", (trade) => second.push(trade));
+
+    await vi.waitFor(() => expect(sockets).toHaveLength(1));
+    sockets[0].send(JSON.stringify(makeTradeEvent({ mint: "MintA" })));
+    await vi.waitFor(() => expect(second).toHaveLength(1));
+    expect(first).toHaveLength(1);
+
+    stopFirst();
+    stopSecond();
+    await vi.waitFor(() =>
+      expect(received[0]).toEqual([
+        { method: "subscribeTokenTrade", keys: ["MintA"] },
+        { method: "unsubscribeTokenTrade", keys: ["MintA"] },
+      ])
+    );
+  });
+
+  it("reconnects after a dropped connection and restores its subscriptions", async () => {
+    const { sockets, received } = await startServer();
+    const { feed, states } = await connectFeed();
+    feed.subscribeToNewTokens(() => {});
+    feed.subscribeToToken("MintA", () => {});
+    await vi.waitFor(() => expect(received[0]).toHaveLength(2));
+
+    sockets[0].terminate();
+    await vi.waitFor(() => expect(received[1]).toHaveLength(2));
+
+    expect(received[1]).toEqual([
+      { method: "subscribeNewToken" },
+      { method: "subscribeTokenTrade", keys: ["MintA"] },
+    ]);
+    expect(states).toEqual(["connecting", "open", "reconnecting", "open"]);
+    expect(feed.state).toBe("open");
+  });
+
+  it("drops a connection whose new-token stream goes silent", async () => {
+    config.wsHeartbeatIntervalMs = 20;
+    config.wsStaleAfterMs = 50;
+    const { received } = await startServer();
+    const { feed, states } = await connectFeed();
+    feed.subscribeToNewTokens(() => {});
+
+    await vi.waitFor(() => expect(received.length).toBeGreaterThan(1), { timeout: 3000 });
+    expect(states).toContain("stale");
+  });
+
+  it("stays closed after disconnect", async () => {
+    const { received } = await startServer();
+    const { feed, states } = await connectFeed();
+    feed.disconnect();
+
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    expect(received).toHaveLength(1);
+    expect(states.at(-1)).toBe("closed");
+  });
+});